@@ -0,0 +1,99 @@
+import fs from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contracts } from "../scripts/Contracts";
+import { RelayContract, RelayInstance } from "../../typechain-truffle/contracts/protocol/implementation/Relay";
+import { CalldataDecoder, CalldataFunction, ICalldataDecodeOptions } from "../../scripts/libs/protocol/CalldataDecoder";
+import { RelayMessage } from "../../scripts/libs/protocol/RelayMessage";
+import { SignaturePayload } from "../../scripts/libs/protocol/SignaturePayload";
+import { SigningPolicy } from "../../scripts/libs/protocol/SigningPolicy";
+import { readSigningPolicies } from "./signing-policy-analytics";
+
+export interface DecodeCalldataOptions {
+  calldata?: string; // 0x-prefixed hex string
+  txHash?: string; // calldata is read from the transaction input, if calldata is not set
+  signingPolicy?: string; // encoded signing policy (0x-prefixed hex string) or path to the file containing it
+  onChain: boolean; // read signing policy (or its hash for relay) from Relay, if signing policy is not set
+  rewardEpochId?: number; // reward epoch of the on-chain signing policy (derived from calldata if not set)
+  fromBlock: number; // block to start searching SigningPolicyInitialized events from
+  blockBatchSize: number; // max number of blocks queried for events at once
+  json: boolean;
+}
+
+/**
+ * This script will decode calldata of Submission.submit1/submit2/submit3/submitSignatures or Relay.relay,
+ * recover signers of signatures and print the report in human-readable form (or as json).
+ * Signers are matched against the provided signing policy or the one read from Relay.
+ * @dev Do not send anything out via console.log unless it is the report.
+ */
+export async function decodeCalldata(
+  hre: HardhatRuntimeEnvironment,
+  contracts: Contracts | undefined,
+  options: DecodeCalldataOptions,
+  quiet: boolean = false) {
+
+  let calldata = options.calldata;
+  if (!calldata) {
+    if (!options.txHash) {
+      throw Error("Calldata or transaction hash must be provided");
+    }
+    const tx = await hre.web3.eth.getTransaction(options.txHash);
+    if (!tx) {
+      throw Error(`Transaction ${options.txHash} not found`);
+    }
+    calldata = tx.input;
+  }
+  if (!/^0x([0-9a-f][0-9a-f])*$/i.test(calldata)) {
+    throw Error(`Invalid calldata format: ${calldata}`);
+  }
+  const name = CalldataDecoder.detect(calldata);
+
+  const decodeOptions: ICalldataDecodeOptions = {};
+  if (options.signingPolicy) {
+    const encoded = /^0x[0-9a-f]*$/i.test(options.signingPolicy)
+      ? options.signingPolicy
+      : fs.readFileSync(options.signingPolicy, "utf8").trim();
+    decodeOptions.signingPolicy = SigningPolicy.decode(encoded);
+  } else if (options.onChain && (name === CalldataFunction.RELAY || name === CalldataFunction.SUBMIT_SIGNATURES)) {
+    if (!contracts) {
+      throw Error("Contracts are needed to read the signing policy from chain");
+    }
+    const Relay: RelayContract = hre.artifacts.require("Relay");
+    const relay = await Relay.at(contracts.getContractAddress(Contracts.RELAY));
+    if (name === CalldataFunction.RELAY) {
+      // signing policy is part of the calldata, hence checking its hash is enough
+      const rewardEpochId = options.rewardEpochId ?? RelayMessage.decode("0x" + calldata.slice(10)).signingPolicy.rewardEpochId;
+      decodeOptions.signingPolicyHash = await relay.toSigningPolicyHash(rewardEpochId);
+    } else {
+      const payloads = SignaturePayload.decodeCalldata(calldata);
+      if (payloads.length === 0) {
+        throw Error("No signature payloads in calldata");
+      }
+      const rewardEpochId = options.rewardEpochId ?? (await rewardEpochIdForVotingRound(relay, payloads[0].votingRoundId));
+      const signingPolicies = await readSigningPolicies(hre, contracts, [rewardEpochId], options, quiet);
+      decodeOptions.signingPolicy = signingPolicies.get(rewardEpochId);
+      if (!decodeOptions.signingPolicy) {
+        throw Error(`No signing policy found for reward epoch ${rewardEpochId}`);
+      }
+    }
+  }
+
+  const report = CalldataDecoder.decode(calldata, decodeOptions);
+  console.log(options.json ? JSON.stringify(report, null, 2) : CalldataDecoder.format(report));
+}
+
+/**
+ * Finds the (initialized) reward epoch, which signing policy is used for signing in the voting round.
+ */
+async function rewardEpochIdForVotingRound(relay: RelayInstance, votingRoundId: number): Promise<number> {
+  const lastInitializedRewardEpochId = (await relay.lastInitializedRewardEpochData())[0].toNumber();
+  for (let rewardEpochId = lastInitializedRewardEpochId; rewardEpochId >= 0; rewardEpochId--) {
+    const startingVotingRoundId = (await relay.startingVotingRoundIds(rewardEpochId)).toNumber();
+    if (startingVotingRoundId === 0) {
+      break; // reward epochs before the initial one are not known
+    }
+    if (startingVotingRoundId <= votingRoundId) {
+      return rewardEpochId;
+    }
+  }
+  throw Error(`No signing policy found for voting round ${votingRoundId}`);
+}
@@ -0,0 +1,78 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contracts } from "../scripts/Contracts";
+import { EntityManagerContract } from "../../typechain-truffle/contracts/protocol/implementation/EntityManager";
+import { FlareSystemsManagerContract } from "../../typechain-truffle/contracts/protocol/implementation/FlareSystemsManager";
+import { VoterRegistryContract } from "../../typechain-truffle/contracts/protocol/implementation/VoterRegistry";
+import { IVoterAddresses, VoterRegistration } from "../../scripts/libs/protocol/VoterRegistration";
+import { Entity, getSigningPolicySigner } from "../utils/Entity";
+import { waitFinalize3 } from "../scripts/deploy-utils";
+
+/**
+ * This script will register entities as voters for the next reward epoch.
+ * It has to be run during the voter registration window, after the new signing policy initialization
+ * started and before the signing policy is defined.
+ * In dry run mode, it only checks the registration status and signatures of entities and sends no transactions.
+ * Signing policy keys are not needed in plaintext, entities can use a keystore file or a remote signer (see Entity.ts).
+ * Progress is written to stderr and suppressed in quiet mode. Skipped voters (signing policy address mismatch)
+ * are always reported, since they need an action of the entity.
+ */
+export async function registerVoters(
+  hre: HardhatRuntimeEnvironment,
+  contracts: Contracts,
+  entities: Entity[],
+  dryRun: boolean = false,
+  quiet: boolean = false) {
+
+  const artifacts = hre.artifacts;
+
+  // Get contract definitions
+  const FlareSystemsManager: FlareSystemsManagerContract = artifacts.require("FlareSystemsManager");
+  const VoterRegistry: VoterRegistryContract = artifacts.require("VoterRegistry");
+  const EntityManager: EntityManagerContract = artifacts.require("EntityManager");
+
+  // Fetch contracts
+  const flareSystemsManager = await FlareSystemsManager.at(contracts.getContractAddress(Contracts.FLARE_SYSTEMS_MANAGER));
+  const voterRegistry = await VoterRegistry.at(contracts.getContractAddress(Contracts.VOTER_REGISTRY));
+  const entityManager = await EntityManager.at(contracts.getContractAddress(Contracts.ENTITY_MANAGER));
+
+  const rewardEpochId = (await flareSystemsManager.getCurrentRewardEpochId()).toNumber() + 1;
+  if (!quiet) {
+    console.error(`Voter registration for reward epoch ${rewardEpochId}${dryRun ? " (dry run)" : ""}...`);
+  }
+
+  if (!(await flareSystemsManager.isVoterRegistrationEnabled())) {
+    throw Error(`Voter registration is not enabled for reward epoch ${rewardEpochId}`);
+  }
+  const initBlock = await voterRegistry.newSigningPolicyInitializationStartBlockNumber(rewardEpochId);
+
+  for (const entity of entities) {
+    const voter = entity.identity.address;
+    if (await voterRegistry.isVoterRegistered(voter, rewardEpochId)) {
+      if (!quiet) {
+        console.error(`Voter ${voter} already registered`);
+      }
+      continue;
+    }
+    const voterAddresses: IVoterAddresses = await entityManager.getVoterAddressesAt(voter, initBlock);
+    const signature = await VoterRegistration.sign(rewardEpochId, voter, await getSigningPolicySigner(entity));
+    if (!VoterRegistration.verifySignature(rewardEpochId, voter, signature, voterAddresses)) {
+      // reported also in quiet mode
+      console.error(
+        `Voter ${voter} skipped: signing policy address ${entity.signingPolicy.address} does not match registered ${voterAddresses.signingPolicyAddress}`
+      );
+      continue;
+    }
+    if (dryRun) {
+      if (!quiet) {
+        console.error(`Voter ${voter} can be registered`);
+      }
+      continue;
+    }
+    await waitFinalize3(hre, entity.submitSignatures.address, () =>
+      voterRegistry.registerVoter(voter, signature, { from: entity.submitSignatures.address })
+    );
+    if (!quiet) {
+      console.error(`Voter ${voter} registered`);
+    }
+  }
+}
@@ -10,7 +10,9 @@ import {
   ProtocolMessageMerkleRoot,
 } from "../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
 import { RelayMessage } from "../../scripts/libs/protocol/RelayMessage";
+import { ISigner } from "../../scripts/libs/protocol/Signer";
 import { ISigningPolicy, SigningPolicy } from "../../scripts/libs/protocol/SigningPolicy";
+import { VoterRegistration } from "../../scripts/libs/protocol/VoterRegistration";
 import { generateSignatures } from "../../test/unit/protocol/coding/coding-helpers";
 import * as util from "../../test/utils/key-to-address";
 import { PChainStakeMirrorVerifierInstance } from "../../typechain-truffle";
@@ -18,6 +20,7 @@ import { MockContractInstance } from "../../typechain-truffle/@gnosis.pm/mock-co
 import { VoterRegistryInstance } from "../../typechain-truffle/contracts/protocol/implementation/VoterRegistry";
 import { EpochSettings } from "../utils/EpochSettings";
 import { DeployedContracts, deployContracts, serializeDeployedContractsAddresses } from "../utils/deploy-contracts";
+import { getSigningPolicySigner } from "../utils/Entity";
 import { errorString } from "../utils/error";
 import { decodeLogs as decodeRawLogs } from "../utils/events";
 import { MockDBIndexer } from "../utils/indexer/MockDBIndexer";
@@ -29,6 +32,8 @@ export const SETTINGS_FILE_LOCATION = `${SIMULATION_DUMP_FOLDER}/epoch-settings.
 export const DEPLOY_ADDRESSES_FILE = `${SIMULATION_DUMP_FOLDER}/deployed-addresses.json`;
 export const SIMULATION_ACCOUNTS_FILE = `${SIMULATION_DUMP_FOLDER}/simulation-accounts.json`;
 export const MEMORY_DATABASE_FILE = `${SIMULATION_DUMP_FOLDER}/indexer.db`;
+// Mock finalizer progress, kept when the indexer database is reset
+export const FINALIZER_DATABASE_FILE = `${SIMULATION_DUMP_FOLDER}/finalizer.db`;
 
 export const TIMELOCK_SEC = 3600;
 const REWARD_EPOCH_DURATION_IN_VOTING_EPOCHS = 5;
@@ -194,6 +199,7 @@ export async function runSimulation(hre: HardhatRuntimeEnvironment, privateKeys:
     flareSystemsManager: c.flareSystemsManager.address,
     voterRegistry: c.voterRegistry.address,
     ftsoRewardOffersManager: c.ftsoRewardOffersManager.address,
+    relay: c.relay.address,
   });
 
   logger.info(`Starting a mock c-chain indexer, data is recorded to SQLite database at ${MEMORY_DATABASE_FILE}`);
@@ -508,7 +514,7 @@ async function defineNextSigningPolicy(
       logger.info(`Skipping automatic new signing policy signing for ${acc.signingPolicy.address}`);
       continue;
     }
-    const signature = web3.eth.accounts.sign(newSigningPolicyHash, acc.signingPolicy.privateKey);
+    const signature = await (await getSigningPolicySigner(acc)).signHash(newSigningPolicyHash);
 
     const signResponse = await c.flareSystemsManager.signNewSigningPolicy(
       nextRewardEpochId,
@@ -649,17 +655,17 @@ async function fakeFinalize(
   };
 
   const signingPolicy = signingPolicies.get(rewardEpochId)!;
-  const privateKeysInOrder = [];
+  const signersInOrder: ISigner[] = [];
   for (const voter of signingPolicy.voters) {
     const acc = registeredAccounts.find(x => x.signingPolicy.address.toLowerCase() == voter.toLowerCase())!;
     if (acc) {
-      privateKeysInOrder.push(acc.signingPolicy.privateKey);
+      signersInOrder.push(await getSigningPolicySigner(acc));
     } else {
       logger.info(`Voter not among registered accounts: ${voter}`);
     }
   }
   const messageHash = ProtocolMessageMerkleRoot.hash(messageData);
-  const signatures = await generateSignatures(privateKeysInOrder, messageHash, privateKeysInOrder.length);
+  const signatures = await generateSignatures(signersInOrder, messageHash, signersInOrder.length);
 
   const relayMessage = {
     signingPolicy: signingPolicy,
@@ -745,7 +751,7 @@ async function defineInitialSigningPolicy(
   const rewardEpochId = 1;
   const newSigningPolicyHash = await c.relay.toSigningPolicyHash(rewardEpochId);
 
-  const signature = web3.eth.accounts.sign(newSigningPolicyHash, governanceAccount.privateKey);
+  const signature = await (await getSigningPolicySigner({ signingPolicy: governanceAccount })).signHash(newSigningPolicyHash);
   const resp4 = await c.flareSystemsManager.signNewSigningPolicy(rewardEpochId, newSigningPolicyHash, signature, {
     from: governanceAccount.address,
   });
@@ -760,11 +766,7 @@ async function defineInitialSigningPolicy(
 }
 
 async function registerVoter(rewardEpochId: number, acc: RegisteredAccount, voterRegistry: VoterRegistryInstance) {
-  const hash = web3.utils.keccak256(
-    web3.eth.abi.encodeParameters(["uint24", "address"], [rewardEpochId, acc.identity.address])
-  );
-
-  const signature = web3.eth.accounts.sign(hash, acc.signingPolicy.privateKey);
+  const signature = await VoterRegistration.sign(rewardEpochId, acc.identity.address, await getSigningPolicySigner(acc));
   await voterRegistry.registerVoter(acc.identity.address, signature, { from: acc.submitSignatures.address });
 }
 
@@ -0,0 +1,97 @@
+import fs from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contracts } from "../scripts/Contracts";
+import { RelayContract } from "../../typechain-truffle/contracts/protocol/implementation/Relay";
+import { ISigningPolicy, SigningPolicy } from "../../scripts/libs/protocol/SigningPolicy";
+import { SigningPolicyAnalytics } from "../../scripts/libs/protocol/SigningPolicyAnalytics";
+
+export interface SigningPolicyAnalyticsOptions {
+  fromRewardEpochId: number;
+  toRewardEpochId: number;
+  fromBlock: number;
+  toBlock?: number; // latest block if not set
+  blockBatchSize: number; // max number of blocks queried for events at once
+  outputFile?: string;
+}
+
+/**
+ * Reads signing policies for the given reward epochs from SigningPolicyInitialized events emitted by Relay.
+ * Events are searched in batches of blocks, until all signing policies are found or the last block is reached.
+ * @returns map from reward epoch id to signing policy (missing reward epochs are not included)
+ */
+export async function readSigningPolicies(
+  hre: HardhatRuntimeEnvironment,
+  contracts: Contracts,
+  rewardEpochIds: number[],
+  blocks: { fromBlock: number; toBlock?: number; blockBatchSize: number },
+  quiet: boolean = false
+): Promise<Map<number, ISigningPolicy>> {
+  const web3 = hre.web3;
+  const artifacts = hre.artifacts;
+
+  // Get contract definitions
+  const Relay: RelayContract = artifacts.require("Relay");
+  const relay = new web3.eth.Contract(Relay.abi, contracts.getContractAddress(Contracts.RELAY));
+
+  const toBlock = blocks.toBlock ?? (await web3.eth.getBlockNumber());
+  const signingPolicies = new Map<number, ISigningPolicy>();
+  for (let fromBlock = blocks.fromBlock; fromBlock <= toBlock; fromBlock += blocks.blockBatchSize) {
+    const batchToBlock = Math.min(fromBlock + blocks.blockBatchSize - 1, toBlock);
+    if (!quiet) {
+      console.error(`Reading SigningPolicyInitialized events in blocks ${fromBlock} - ${batchToBlock}...`);
+    }
+    const events = await relay.getPastEvents("SigningPolicyInitialized", {
+      filter: { rewardEpochId: rewardEpochIds },
+      fromBlock,
+      toBlock: batchToBlock,
+    });
+    for (const event of events) {
+      const signingPolicy = SigningPolicy.decode(event.returnValues.signingPolicyBytes);
+      signingPolicies.set(signingPolicy.rewardEpochId, signingPolicy);
+    }
+    if (signingPolicies.size === rewardEpochIds.length) {
+      break;
+    }
+  }
+  return signingPolicies;
+}
+
+/**
+ * This script will read SigningPolicyInitialized events emitted by Relay for the given range of reward epochs,
+ * compare consecutive signing policies and calculate their concentration metrics.
+ * The result is printed as json (or written to the output file, if provided).
+ * @dev Do not send anything out via console.log unless it is the resulting json.
+ */
+export async function signingPolicyAnalytics(
+  hre: HardhatRuntimeEnvironment,
+  contracts: Contracts,
+  options: SigningPolicyAnalyticsOptions,
+  quiet: boolean = false) {
+
+  if (options.fromRewardEpochId > options.toRewardEpochId) {
+    throw Error(`Invalid reward epoch range: ${options.fromRewardEpochId} - ${options.toRewardEpochId}`);
+  }
+
+  const rewardEpochIds: number[] = [];
+  for (let rewardEpochId = options.fromRewardEpochId; rewardEpochId <= options.toRewardEpochId; rewardEpochId++) {
+    rewardEpochIds.push(rewardEpochId);
+  }
+
+  const signingPolicies = await readSigningPolicies(hre, contracts, rewardEpochIds, options, quiet);
+
+  const missing = rewardEpochIds.filter(rewardEpochId => !signingPolicies.has(rewardEpochId));
+  if (missing.length > 0 && !quiet) {
+    console.error(`No signing policy found for reward epochs: ${missing.join(", ")}`);
+  }
+
+  const result = SigningPolicyAnalytics.analyze([...signingPolicies.values()]);
+  const json = JSON.stringify(result, null, 2);
+  if (options.outputFile) {
+    fs.writeFileSync(options.outputFile, json);
+    if (!quiet) {
+      console.error(`Signing policy analytics written to ${options.outputFile}`);
+    }
+  } else {
+    console.log(json);
+  }
+}
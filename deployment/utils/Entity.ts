@@ -1,8 +1,22 @@
+import { ISigner, KeystoreSigner, PrivateKeySigner, RemoteSigner } from "../../scripts/libs/protocol/Signer";
+
 interface Account {
   address: string;
   privateKey: string;
 }
 
+/**
+ * Signing policy account. Exactly one of the signer sources should be set: plaintext private key (for testing only),
+ * encrypted web3 keystore file (password is read from the environment variable) or url of the remote signer.
+ */
+interface SigningAccount {
+  address: string;
+  privateKey?: string;
+  keystorePath?: string;
+  keystorePasswordEnv?: string; // name of the environment variable holding the keystore password
+  remoteSignerUrl?: string;
+}
+
 interface PrivateKeyWithBalance {
   privateKey: string;
   balance: string;
@@ -12,7 +26,7 @@ export interface Entity {
   readonly identity: Account;
   readonly submit: Account;
   readonly submitSignatures: Account;
-  readonly signingPolicy: Account;
+  readonly signingPolicy: SigningAccount;
   readonly delegation: Account;
   readonly wrapped: string;
 }
@@ -32,10 +46,43 @@ export function getEntityAccounts(filePath: string): PrivateKeyWithBalance[] {
     result.push({ privateKey: entity.identity.privateKey, balance: "0" });
     result.push({ privateKey: entity.submit.privateKey, balance: "0" });
     result.push({ privateKey: entity.submitSignatures.privateKey, balance: "0" });
-    result.push({ privateKey: entity.signingPolicy.privateKey, balance: "0" });
+    if (entity.signingPolicy.privateKey) {
+      result.push({ privateKey: entity.signingPolicy.privateKey, balance: "0" });
+    }
     if (entity.delegation.privateKey) {
       result.push({ privateKey: entity.delegation.privateKey, balance: "0" });
     }
   }
   return result;
 }
+
+/**
+ * Creates the signer for the signing policy account of the entity and checks that it matches the configured address.
+ * Only the signing policy account is needed, so simulation accounts (with plaintext private keys) can be passed as well.
+ */
+export async function getSigningPolicySigner(entity: Pick<Entity, "signingPolicy">): Promise<ISigner> {
+  const account = entity.signingPolicy;
+  const sources = [account.privateKey, account.keystorePath, account.remoteSignerUrl].filter(x => x !== undefined);
+  if (sources.length !== 1) {
+    throw new Error(`Exactly one of privateKey, keystorePath or remoteSignerUrl must be set for signing policy account ${account.address}`);
+  }
+  let signer: ISigner;
+  if (account.privateKey) {
+    signer = new PrivateKeySigner(account.privateKey);
+  } else if (account.keystorePath) {
+    if (!account.keystorePasswordEnv) {
+      throw new Error(`keystorePasswordEnv must be set for signing policy account ${account.address}`);
+    }
+    const password = process.env[account.keystorePasswordEnv];
+    if (password === undefined) {
+      throw new Error(`${account.keystorePasswordEnv} environment variable not set.`);
+    }
+    signer = KeystoreSigner.fromFile(account.keystorePath, password);
+  } else {
+    signer = await RemoteSigner.connect(account.remoteSignerUrl!, account.address);
+  }
+  if (signer.address.toLowerCase() !== account.address.toLowerCase()) {
+    throw new Error(`Signer address ${signer.address} does not match signing policy address ${account.address}`);
+  }
+  return signer;
+}
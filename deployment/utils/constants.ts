@@ -1,3 +1,4 @@
 export const LAST_CHAIN_INDEX_STATE = "last_chain_block";
 export const LAST_DATABASE_INDEX_STATE = "last_database_block";
 export const FIRST_DATABASE_INDEX_STATE = "first_database_block";
+export const FINALIZER_LAST_PROCESSED_TIMESTAMP = "last_processed_timestamp";
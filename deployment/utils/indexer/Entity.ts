@@ -121,3 +121,40 @@ export class TLPState {
 }
 
 export type ITPLState = new () => TLPState;
+
+// Progress of the mock finalizer (e.g. last processed indexer timestamp), used to resume after restart.
+// Finalizer entities are stored in a separate database (see getFinalizerDataSource).
+@Entity("finalizer_state")
+export class FinalizerState {
+  @PrimaryColumn()
+  name!: string;
+
+  @Column()
+  value!: number;
+}
+
+// Voting round and protocol pairs relayed by the mock finalizer
+@Entity("finalizer_relays")
+export class FinalizerRelay {
+  @PrimaryColumn()
+  voting_round_id!: number;
+
+  @PrimaryColumn()
+  protocol_id!: number;
+
+  @Column()
+  message_hash!: string;
+
+  @Column()
+  timestamp!: number;
+}
+
+// Signing policies known to the mock finalizer, in canonical JSON
+@Entity("finalizer_signing_policies")
+export class FinalizerSigningPolicy {
+  @PrimaryColumn()
+  reward_epoch_id!: number;
+
+  @Column()
+  signing_policy!: string;
+}
@@ -12,6 +12,7 @@ export interface ContractAddresses {
   flareSystemsManager: string;
   voterRegistry: string;
   ftsoRewardOffersManager: string;
+  relay: string;
 }
 
 export interface BlockData {
@@ -78,6 +79,7 @@ export class MockDBIndexer {
               this.contractAddresses.flareSystemsManager,
               this.contractAddresses.voterRegistry,
               this.contractAddresses.ftsoRewardOffersManager,
+              this.contractAddresses.relay,
             ]);
           },
           3,
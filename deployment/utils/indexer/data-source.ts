@@ -1,8 +1,8 @@
 import { DataSource } from "typeorm";
 import { retry } from "../retry";
-import { TLPEvents, TLPState, TLPTransaction } from "./Entity";
+import { FinalizerRelay, FinalizerSigningPolicy, FinalizerState, TLPEvents, TLPState, TLPTransaction } from "./Entity";
 import fs from "fs";
-import { MEMORY_DATABASE_FILE } from "../../tasks/run-simulation";
+import { FINALIZER_DATABASE_FILE, MEMORY_DATABASE_FILE } from "../../tasks/run-simulation";
 
 export async function getDataSource(readOnly = false) {
   const sqliteDatabase = MEMORY_DATABASE_FILE
@@ -24,3 +24,23 @@ export async function getDataSource(readOnly = false) {
 
   return dataSource;
 }
+
+/**
+ * Opens the SQLite database with the progress of the mock finalizer.
+ * It is kept separate from the indexer database, which is deleted whenever the indexer starts,
+ * and it is never reset automatically (delete the file when starting on a new chain).
+ * @param sqliteDatabase database file
+ */
+export async function getFinalizerDataSource(sqliteDatabase = FINALIZER_DATABASE_FILE) {
+  const dataSource = new DataSource({
+    type: "sqlite",
+    database: sqliteDatabase,
+    entities: [FinalizerState, FinalizerRelay, FinalizerSigningPolicy],
+    synchronize: true,
+  });
+  await retry(async () => {
+    await dataSource.initialize();
+  });
+
+  return dataSource;
+}
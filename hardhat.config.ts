@@ -18,6 +18,9 @@ import { offerRewards } from "./deployment/scripts/offer-rewards";
 import { transferAndWrapFunds } from "./deployment/tasks/transfer-and-wrap-funds";
 import { getEntityAccounts, readEntities } from "./deployment/utils/Entity";
 import { registerEntities } from "./deployment/tasks/register-entities";
+import { registerVoters } from "./deployment/tasks/register-voters";
+import { signingPolicyAnalytics } from "./deployment/tasks/signing-policy-analytics";
+import { decodeCalldata } from "./deployment/tasks/decode-calldata";
 import { provideRandomNumberForInitialRewardEpoch } from "./deployment/tasks/provide-random-number-for-initial-reward-epoch";
 import { redeployContracts } from "./deployment/scripts/redeploy-contracts";
 
@@ -141,6 +144,73 @@ task("register-entities", `Entities registration.`)
     await registerEntities(hre, contracts, entities, args.quiet);
   });
 
+task("register-voters", `Registers entities as voters for the next reward epoch.`)
+  .addFlag("dryRun", "Only check registration status and signatures, do not send transactions")
+  .addFlag("quiet", "Suppress progress output (skipped voters are still reported)")
+  .setAction(async (args, hre, _runSuper) => {
+    if (!process.env.CHAIN_CONFIG) {
+      throw Error("CHAIN_CONFIG environment variable not set.")
+    }
+    if (!process.env.ENTITIES_FILE_PATH) {
+      throw Error("ENTITIES_FILE_PATH environment variable not set. Must be json file path.")
+    }
+    const network = process.env.CHAIN_CONFIG;
+    const contracts = readContracts(network);
+    const entities = readEntities(process.env.ENTITIES_FILE_PATH);
+    await registerVoters(hre, contracts, entities, args.dryRun, args.quiet);
+  });
+
+task("signing-policy-analytics", `Compares signing policies and calculates their metrics for a range of reward epochs.`)
+  .addParam("fromRewardEpoch", "First reward epoch id")
+  .addOptionalParam("toRewardEpoch", "Last reward epoch id (defaults to the first one)")
+  .addOptionalParam("fromBlock", "Block to start searching events from", "0")
+  .addOptionalParam("toBlock", "Block to end searching events at (defaults to the latest block)")
+  .addOptionalParam("blockBatch", "Max number of blocks queried for events at once", "10000")
+  .addOptionalParam("output", "Json file to write the result to (printed to console if not set)")
+  .addFlag("quiet", "Suppress console output")
+  .setAction(async (args, hre, _runSuper) => {
+    if (!process.env.CHAIN_CONFIG) {
+      throw Error("CHAIN_CONFIG environment variable not set.")
+    }
+    const network = process.env.CHAIN_CONFIG;
+    const contracts = readContracts(network);
+    await signingPolicyAnalytics(hre, contracts, {
+      fromRewardEpochId: +args.fromRewardEpoch,
+      toRewardEpochId: +(args.toRewardEpoch ?? args.fromRewardEpoch),
+      fromBlock: +args.fromBlock,
+      toBlock: args.toBlock !== undefined ? +args.toBlock : undefined,
+      blockBatchSize: +args.blockBatch,
+      outputFile: args.output,
+    }, args.quiet);
+  });
+
+task("decode-calldata", `Decodes calldata of submit1, submit2, submit3, submitSignatures or relay and recovers signers.`)
+  .addOptionalParam("calldata", "Calldata (0x-prefixed hex string)")
+  .addOptionalParam("tx", "Transaction hash to read calldata from (if calldata is not set)")
+  .addOptionalParam("signingPolicy", "Encoded signing policy (0x-prefixed hex string) or path to the file containing it")
+  .addFlag("onChain", "Read signing policy from Relay (requires CHAIN_CONFIG), if signing policy is not set")
+  .addOptionalParam("rewardEpoch", "Reward epoch id of the on-chain signing policy (derived from calldata if not set)")
+  .addOptionalParam("fromBlock", "Block to start searching signing policy events from", "0")
+  .addOptionalParam("blockBatch", "Max number of blocks queried for events at once", "10000")
+  .addFlag("json", "Print the report as json")
+  .addFlag("quiet", "Suppress console output")
+  .setAction(async (args, hre, _runSuper) => {
+    if (args.onChain && !process.env.CHAIN_CONFIG) {
+      throw Error("CHAIN_CONFIG environment variable not set.")
+    }
+    const contracts = args.onChain ? readContracts(process.env.CHAIN_CONFIG!) : undefined;
+    await decodeCalldata(hre, contracts, {
+      calldata: args.calldata,
+      txHash: args.tx,
+      signingPolicy: args.signingPolicy,
+      onChain: args.onChain,
+      rewardEpochId: args.rewardEpoch !== undefined ? +args.rewardEpoch : undefined,
+      fromBlock: +args.fromBlock,
+      blockBatchSize: +args.blockBatch,
+      json: args.json,
+    }, args.quiet);
+  });
+
 task("provide-random-number-for-initial-reward-epoch", `Provide random number for initial reward epoch.`)
   .addOptionalParam("trigger", "Trigger Flare daemon", "")
   .setAction(async (args, hre, _runSuper) => {
@@ -0,0 +1,225 @@
+import http from "http";
+import { AddressInfo } from "net";
+
+export type MetricLabels = Record<string, string | number>;
+
+interface IMetric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: "counter" | "gauge" | "histogram";
+  render(): string[];
+}
+
+function labelsKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(key => [key, String(labels[key])]));
+}
+
+function renderLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  const escape = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+  return `{${entries.map(([key, value]) => `${key}="${escape(String(value))}"`).join(",")}}`;
+}
+
+/**
+ * Metric with a value per label set (counter or gauge).
+ */
+class LabeledMetric implements IMetric {
+  protected values = new Map<string, { labels: MetricLabels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string, readonly type: "counter" | "gauge") {}
+
+  protected update(labels: MetricLabels, update: (value: number) => number) {
+    const key = labelsKey(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value = update(entry.value);
+    } else {
+      this.values.set(key, { labels, value: update(0) });
+    }
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(labelsKey(labels))?.value ?? 0;
+  }
+
+  /**
+   * Removes values whose labels do not satisfy the predicate (e.g. labels of old voting rounds).
+   */
+  retain(predicate: (labels: MetricLabels) => boolean) {
+    for (const [key, entry] of this.values.entries()) {
+      if (!predicate(entry.labels)) {
+        this.values.delete(key);
+      }
+    }
+  }
+
+  render(): string[] {
+    return [...this.values.values()].map(entry => `${this.name}${renderLabels(entry.labels)} ${entry.value}`);
+  }
+}
+
+export class Counter extends LabeledMetric {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: MetricLabels = {}, amount = 1) {
+    if (amount < 0) {
+      throw Error(`Counter ${this.name} can not be decreased`);
+    }
+    this.update(labels, value => value + amount);
+  }
+}
+
+export class Gauge extends LabeledMetric {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: MetricLabels, value: number) {
+    this.update(labels, () => value);
+  }
+}
+
+export class Histogram implements IMetric {
+  readonly type = "histogram";
+  private values = new Map<string, { labels: MetricLabels; bucketCounts: number[]; sum: number; count: number }>();
+
+  /**
+   * @param buckets upper bounds of buckets in ascending order (the +Inf bucket is added automatically)
+   */
+  constructor(readonly name: string, readonly help: string, readonly buckets: number[]) {}
+
+  observe(labels: MetricLabels, value: number) {
+    const key = labelsKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        entry!.bucketCounts[i]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const entry of this.values.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${renderLabels({ ...entry.labels, le: bound })} ${entry.bucketCounts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${renderLabels({ ...entry.labels, le: "+Inf" })} ${entry.count}`);
+      lines.push(`${this.name}_sum${renderLabels(entry.labels)} ${entry.sum}`);
+      lines.push(`${this.name}_count${renderLabels(entry.labels)} ${entry.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Registry of metrics, rendered in Prometheus text exposition format.
+ * Registering a metric with an existing name returns the existing metric.
+ */
+export class MetricsRegistry {
+  /**
+   * Registry used by mock finalizer and signer emulators.
+   */
+  static readonly shared = new MetricsRegistry();
+
+  private metrics = new Map<string, IMetric>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, "counter", () => new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, "gauge", () => new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(name, "histogram", () => new Histogram(name, help, buckets));
+  }
+
+  private register<T extends IMetric>(name: string, type: IMetric["type"], create: () => T): T {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(name)) {
+      throw Error(`Invalid metric name: ${name}`);
+    }
+    let metric = this.metrics.get(name);
+    if (!metric) {
+      metric = create();
+      this.metrics.set(name, metric);
+    }
+    if (metric.type !== type) {
+      throw Error(`Metric ${name} already registered as ${metric.type}`);
+    }
+    return metric as T;
+  }
+
+  /**
+   * Renders all metrics in Prometheus text exposition format.
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return lines.join("\n") + "\n";
+  }
+}
+
+/**
+ * HTTP server exposing metrics of the registry on GET /metrics.
+ */
+export class MetricsServer {
+  private server?: http.Server;
+
+  constructor(public readonly registry: MetricsRegistry = MetricsRegistry.shared) {}
+
+  /**
+   * Starts listening.
+   * @param port port to listen on (0 for a random free port)
+   * @param host host to listen on
+   * @returns url of the metrics endpoint
+   */
+  async start(port: number = 0, host: string = "127.0.0.1"): Promise<string> {
+    if (this.server) {
+      throw Error("Metrics server already started");
+    }
+    const server = http.createServer((request, response) => {
+      if (request.method === "GET" && request.url?.split("?")[0] === "/metrics") {
+        response.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+        response.end(this.registry.render());
+      } else {
+        response.writeHead(404, { "Content-Type": "text/plain" });
+        response.end(`Not found: ${request.method} ${request.url}\n`);
+      }
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+    return `http://${host}:${(server.address() as AddressInfo).port}/metrics`;
+  }
+
+  /**
+   * Stops the server.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+  }
+}
@@ -2,40 +2,234 @@ import { DataSource } from "typeorm";
 import { Logger } from "winston";
 import { sleep } from "../../../deployment/tasks/run-simulation";
 import { EpochSettings } from "../../../deployment/utils/EpochSettings";
-import { TLPEvents, TLPTransaction } from "../../../deployment/utils/indexer/Entity";
-import { getDataSource } from "../../../deployment/utils/indexer/data-source";
+import { FINALIZER_LAST_PROCESSED_TIMESTAMP, LAST_CHAIN_INDEX_STATE, LAST_DATABASE_INDEX_STATE } from "../../../deployment/utils/constants";
+import { FinalizerRelay, FinalizerSigningPolicy, FinalizerState, TLPEvents, TLPState, TLPTransaction } from "../../../deployment/utils/indexer/Entity";
+import { getDataSource, getFinalizerDataSource } from "../../../deployment/utils/indexer/data-source";
 import { getLogger } from "../../../deployment/utils/logger";
+import { retry } from "../../../deployment/utils/retry";
+import { ByteUtils } from "../protocol/ByteUtils";
+import { IECDSASignatureWithIndex } from "../protocol/ECDSASignatureWithIndex";
+import { PayloadMessage, PayloadMessageDecodePolicy } from "../protocol/PayloadMessage";
+import { ProtocolDecodeError } from "../protocol/ProtocolDecodeError";
 import { ProtocolMessageMerkleRoot } from "../protocol/ProtocolMessageMerkleRoot";
-import { ISignaturePayload, SignaturePayload } from "../protocol/SignaturePayload";
+import { RelayMessage } from "../protocol/RelayMessage";
+import { IECDSASignature } from "../protocol/ECDSASignature";
+import { ISignaturePayload, SignaturePayload, SignatureSelectionStrategy } from "../protocol/SignaturePayload";
 import { ISigningPolicy, SigningPolicy } from "../protocol/SigningPolicy";
+import { SignatureVerificationContext } from "../protocol/SignatureVerificationContext";
+import { Threshold } from "../protocol/Threshold";
+import { MetricsRegistry } from "./Metrics";
 import { Queue } from "./Queue";
-import { RELAY_SELECTOR, SUBMIT_SIGNATURES_SELECTOR, THRESHOLD_INCREASE_BIPS, decodeEvent, eventSignature, eventToSigningPolicy, extractEpochSettings } from "./mock-test-helpers";
+import {
+  RELAY_SELECTOR,
+  SIGN_NEW_SIGNING_POLICY_SELECTOR,
+  SUBMIT_SIGNATURES_SELECTOR,
+  decodeEvent,
+  eventSignature,
+  eventToSigningPolicy,
+  extractEpochSettings,
+  extractLastInitializedRewardEpoch,
+  extractRelayedMerkleRoot,
+  extractSigningPolicyRelayEnabled,
+  extractThresholdIncreaseBIPS,
+} from "./mock-test-helpers";
 
 const SUMMARY_RANGE = 4
+const ZERO_BYTES32 = "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+const metrics = {
+  signaturesIngested: MetricsRegistry.shared.counter(
+    "finalizer_signatures_ingested_total",
+    "Signature payloads accepted by the finalizer"
+  ),
+  signaturePayloadRejects: MetricsRegistry.shared.counter(
+    "finalizer_signature_payload_rejects_total",
+    "Signature payloads rejected by the finalizer"
+  ),
+  signatureWeight: MetricsRegistry.shared.gauge(
+    "finalizer_signature_weight",
+    "Highest accumulated signature weight of a message for recent voting rounds"
+  ),
+  thresholdDelay: MetricsRegistry.shared.histogram(
+    "finalizer_threshold_delay_seconds",
+    "Time from the end of the voting round to reaching the threshold",
+    [1, 2, 5, 10, 20, 30, 60, 90, 120, 180, 300]
+  ),
+  relayTransactions: MetricsRegistry.shared.counter("finalizer_relay_transactions_total", "Relay transactions sent by the finalizer"),
+  relayGasUsed: MetricsRegistry.shared.histogram(
+    "finalizer_relay_gas_used",
+    "Gas used by successful relay transactions",
+    [50_000, 100_000, 200_000, 300_000, 500_000, 1_000_000, 2_000_000]
+  ),
+  indexerLagSeconds: MetricsRegistry.shared.gauge(
+    "finalizer_indexer_lag_seconds",
+    "Time since the timestamp of the last block stored by the indexer"
+  ),
+  indexerLagBlocks: MetricsRegistry.shared.gauge(
+    "finalizer_indexer_lag_blocks",
+    "Number of chain blocks not yet stored by the indexer"
+  ),
+};
 export interface QueueEntry {
   votingRoundId: number;
   protocolId: number;
   messageHash: string;
+  notBefore?: number; // time in ms before which the relay transaction is not sent
 }
 export interface SigningPolicyUse {
   signingPolicy: ISigningPolicy
   threshold: number;
 }
 
+/**
+ * How long the finalizer waits after the threshold is reached before sending the relay transaction,
+ * so that many finalizers do not all race the same transaction.
+ */
+export enum RelayDelayMode {
+  NONE = "none",
+  // uniformly random delay in [0, maxDelayMs)
+  RANDOM = "random",
+  // random delay in [0, maxDelayMs * (1 - weight share of the finalizer's voter in the signing policy))
+  STAKE_WEIGHTED = "stake-weighted",
+}
+
+export interface RelayDelayConfig {
+  mode: RelayDelayMode;
+  maxDelayMs: number;
+  // signing policy address of the voter running the finalizer (lowercase), required by STAKE_WEIGHTED mode.
+  // The finalizer's transaction sender is not a signing policy address.
+  signingPolicyAddress?: string;
+}
+
+/**
+ * Parses the relay delay configuration (e.g. from environment variables), so that invalid values are detected at startup.
+ * @param mode relay delay mode (default none)
+ * @param maxDelayMs maximal delay in ms, non-negative integer (default 0)
+ * @param signingPolicyAddress signing policy address of the finalizer's voter (required in stake-weighted mode)
+ */
+export function parseRelayDelayConfig(
+  mode: string | undefined,
+  maxDelayMs: string | undefined,
+  signingPolicyAddress?: string
+): RelayDelayConfig {
+  const modes = Object.values(RelayDelayMode) as string[];
+  if (mode !== undefined && !modes.includes(mode)) {
+    throw new Error(`Invalid relay delay mode: ${mode}. Must be one of: ${modes.join(", ")}`);
+  }
+  if (maxDelayMs !== undefined && !/^\d+$/.test(maxDelayMs)) {
+    throw new Error(`Invalid relay delay max ms: ${maxDelayMs}. Must be a non-negative integer`);
+  }
+  if (signingPolicyAddress !== undefined && !/^0x[0-9a-fA-F]{40}$/.test(signingPolicyAddress)) {
+    throw new Error(`Invalid relay delay signing policy address: ${signingPolicyAddress}`);
+  }
+  if (mode === RelayDelayMode.STAKE_WEIGHTED && signingPolicyAddress === undefined) {
+    throw new Error(`Relay delay mode ${mode} requires the signing policy address of the finalizer's voter`);
+  }
+  const config: RelayDelayConfig = {
+    mode: (mode as RelayDelayMode | undefined) ?? RelayDelayMode.NONE,
+    maxDelayMs: maxDelayMs === undefined ? 0 : parseInt(maxDelayMs),
+  };
+  if (signingPolicyAddress !== undefined) {
+    config.signingPolicyAddress = signingPolicyAddress.toLowerCase();
+  }
+  return config;
+}
+
+export interface RelayedMessage {
+  protocolId: number;
+  votingRoundId: number;
+  isSecureRandom: boolean;
+  merkleRoot: string;
+}
+
+/**
+ * Reasons for rejecting decoded signature payloads.
+ */
+export enum PayloadRejectReason {
+  // no signing policy for the voting round
+  NO_SIGNING_POLICY = "no-signing-policy",
+  // signer is not in the signing policy
+  UNKNOWN_SIGNER = "unknown-signer",
+  // signer submitted the signature of the same message again (in another transaction)
+  DUPLICATE = "duplicate",
+  // signer already signed a different message for the same voting round and protocol
+  CONFLICTING_MESSAGE_HASH = "conflicting-message-hash",
+}
+
+export interface FinalizerStatusReport {
+  expectedRewardEpochId: number;
+  signingPolicies: { count: number; minRewardEpochId: number; maxRewardEpochId: number };
+  // votingRoundId => relayed protocol ids, for recent voting rounds
+  recentlyProcessed: Record<number, number[]>;
+  relayedSigningPolicies: number[];
+  droppedRelays: number;
+  queueSize: number;
+  rejectsByReason: Record<string, number>;
+  rejectsByVoter: Record<string, Record<string, number>>;
+  rejectsBySender: Record<string, number>;
+}
+
+/**
+ * Signature of a new signing policy, submitted by a voter through FlareSystemsManager.signNewSigningPolicy.
+ */
+export interface NewSigningPolicySignature {
+  rewardEpochId: number;
+  newSigningPolicyHash: string;
+  signer: string; // signing policy address of the voter
+  signature: IECDSASignature;
+}
+
+/**
+ * Optional settings of the mock finalizer.
+ */
+export interface MockFinalizerOptions {
+  // how far back signatures are collected on start (default 5 minutes)
+  historySec?: number;
+  // overlap of consecutive indexer queries (default 3 seconds)
+  indexerRefreshWindowSec?: number;
+  signatureSelectionStrategy?: SignatureSelectionStrategy;
+  payloadDecodePolicy?: PayloadMessageDecodePolicy;
+  // default no delay
+  relayDelay?: RelayDelayConfig;
+  // Relay.sol with FlareSystemsManager as signing policy setter, whose SigningPolicyInitialized events provide signing policies
+  // (default relayContractAddress). Differs from relayContractAddress if relaying to another Relay.sol without signing policy setter.
+  // Both are accessed through the same web3 connection, so the target Relay.sol must be on the same chain (other chains are not supported).
+  sourceRelayContractAddress?: string;
+  // finalizer progress database file (default FINALIZER_DATABASE_FILE)
+  databaseFile?: string;
+}
+
 export class MockFinalizer {
+  // indexer database (read-only)
   dataSource!: DataSource;
+  // finalizer progress database, which survives restarts of the indexer
+  stateDataSource!: DataSource;
   epochSettings!: EpochSettings;
+  thresholdIncreaseBIPS!: number;
   logger!: Logger;
+  historySec: number;
+  indexerRefreshWindowSec: number;
+  signatureSelectionStrategy: SignatureSelectionStrategy;
+  payloadDecodePolicy: PayloadMessageDecodePolicy;
+  relayDelay: RelayDelayConfig;
+  sourceRelayContractAddress: string;
+  databaseFile?: string;
   constructor(
     public privateKey: string,
     public web3: Web3,
     public submissionContractAddress: string,
     public relayContractAddress: string,
     public flareSystemsManagerAddress: string,
-    public historySec = 60 * 5, // 5 minutes
-    public indexerRefreshWindowSec = 3, // 3 seconds
+    options: MockFinalizerOptions = {}
   ) {
     this.logger = getLogger(`finalizer`);
+    this.historySec = options.historySec ?? 60 * 5;
+    this.indexerRefreshWindowSec = options.indexerRefreshWindowSec ?? 3;
+    this.signatureSelectionStrategy = options.signatureSelectionStrategy ?? SignatureSelectionStrategy.FEWEST_SIGNATURES;
+    this.payloadDecodePolicy = options.payloadDecodePolicy ?? PayloadMessageDecodePolicy.RESYNC;
+    this.relayDelay = options.relayDelay ?? { mode: RelayDelayMode.NONE, maxDelayMs: 0 };
+    this.sourceRelayContractAddress = options.sourceRelayContractAddress ?? relayContractAddress;
+    this.databaseFile = options.databaseFile;
   }
 
   // votingRoundId => protocolId => messageHash => SignaturePayload[]
@@ -53,6 +247,24 @@ export class MockFinalizer {
   // votingRoundId => protocolId => boolean
   processed = new Map<number, Map<number, boolean>>();
   queue = new Queue<QueueEntry>();
+  // sender address => number of rejected payload messages and signature payloads, which could not be decoded
+  rejectsBySender = new Map<string, number>();
+  // reason => number of rejected signature payloads
+  rejectsByReason = new Map<PayloadRejectReason, number>();
+  // signing policy address => reason => number of rejected signature payloads
+  rejectsByVoter = new Map<string, Map<PayloadRejectReason, number>>();
+  // votingRoundId => protocolId => signing policy address => signed message hash
+  signedMessageHashes = new Map<number, Map<number, Map<string, string>>>();
+  // submitSignatures transaction hash => timestamp, for transactions already decoded (query windows overlap)
+  processedTransactions = new Map<string, number>();
+  // reward epoch ids of signing policies relayed to Relay.sol
+  relayedSigningPolicies = new Set<number>();
+  // queue entries dropped, since they were relayed by others
+  droppedRelays = 0;
+  // rewardEpochId => signing policy address => signature of the new signing policy for the reward epoch
+  newSigningPolicySignatures = new Map<number, Map<string, IECDSASignatureWithIndex>>();
+  // whether relayContractAddress accepts new signing policies
+  signingPolicyRelayEnabled = false;
 
   minRewardEpochSigningPolicy = -1;
   maxRewardEpochSigningPolicy = -1;
@@ -80,7 +292,7 @@ export class MockFinalizer {
       if (expectedRewardEpoch == this.maxRewardEpochSigningPolicy + 1) {
         return {
           signingPolicy: this.signingPolicies.get(this.maxRewardEpochSigningPolicy)!,
-          threshold: Math.floor(this.signingPolicies.get(this.maxRewardEpochSigningPolicy)!.threshold * THRESHOLD_INCREASE_BIPS / 10000)
+          threshold: Threshold.increased(this.signingPolicies.get(this.maxRewardEpochSigningPolicy)!.threshold, this.thresholdIncreaseBIPS)
         }
       }
       this.logger.info(`Above: votingRoundId: ${votingRoundId}, maxStartVotingEpochId: ${maxStartVotingEpochId}, expectedRewardEpoch: ${expectedRewardEpoch}`);
@@ -102,37 +314,82 @@ export class MockFinalizer {
     this.processed.get(entry.votingRoundId)!.set(entry.protocolId, true);
   }
 
-  recentProcessedSummary(lastVotingRoundId: number): string {
-    let result = "Processed:";
-    for (const [votingRoundId, protocolIdToProcessed] of this.processed.entries()) {
-      if (votingRoundId > lastVotingRoundId) {
-        let processedProtocolIds: number[] = []
-        for (const [protocolId, processed] of protocolIdToProcessed.entries()) {
-          if (processed) {
-            processedProtocolIds.push(protocolId);
-          }
-        }
-        processedProtocolIds.sort();
-        result += ` ${votingRoundId}: ${processedProtocolIds.join(", ")} |`;
+  /**
+   * Returns the delay before relaying according to the relay delay configuration.
+   * @param signingPolicy signing policy used for relaying
+   * @returns delay in ms
+   */
+  relayDelayMs(signingPolicy: ISigningPolicy): number {
+    switch (this.relayDelay.mode) {
+      case RelayDelayMode.NONE:
+        return 0;
+      case RelayDelayMode.RANDOM:
+        return Math.floor(Math.random() * this.relayDelay.maxDelayMs);
+      case RelayDelayMode.STAKE_WEIGHTED: {
+        const address = this.relayDelay.signingPolicyAddress?.toLowerCase();
+        const weight = (address && this.voterToWeightMaps.get(signingPolicy.rewardEpochId)?.get(address)) || 0;
+        const totalWeight = signingPolicy.weights.reduce((a, b) => a + b, 0);
+        // voters without weight (or an empty signing policy) wait up to the full delay
+        const share = totalWeight > 0 ? weight / totalWeight : 0;
+        return Math.floor(Math.random() * this.relayDelay.maxDelayMs * (1 - share));
       }
+      default:
+        throw new Error(`Unknown relay delay mode: ${this.relayDelay.mode}`);
     }
-    return result;
+  }
+
+  /**
+   * Checks in Relay.sol whether the queue entry was already relayed (e.g. by another finalizer) and records it as processed if so.
+   */
+  async checkRelayed(entry: QueueEntry): Promise<boolean> {
+    const merkleRoot = await extractRelayedMerkleRoot(this.relayContractAddress, entry.protocolId, entry.votingRoundId);
+    if (merkleRoot === ZERO_BYTES32) {
+      return false;
+    }
+    this.recordProcessed(entry);
+    await this.saveRelay(entry);
+    return true;
   }
 
   async processQueue() {
-    while (this.queue.size > 0) {
+    // entries, whose delay has not passed yet, are returned to the end of the queue
+    for (let count = this.queue.size; count > 0; count--) {
       const entry = this.queue.shift();
+      if (this.processed.get(entry.votingRoundId)?.get(entry.protocolId)) {
+        this.droppedRelays++;
+        continue;
+      }
+      if (entry.notBefore !== undefined && entry.notBefore > Date.now()) {
+        this.queue.push(entry);
+        continue;
+      }
+      if (await this.checkRelayed(entry)) {
+        this.droppedRelays++;
+        this.logger.info(`Already relayed: (${entry.protocolId}, ${entry.votingRoundId}). Dropped`);
+        continue;
+      }
       const signaturePayloads = this.results.get(entry.votingRoundId)?.get(entry.protocolId)?.get(entry.messageHash);
       const matchingSigningPolicy = this.getMatchingSigningPolicy(entry.votingRoundId);
 
-      if (!signaturePayloads) {
-        throw new Error(`No signature payloads for votingRoundId: ${entry.votingRoundId}, protocolId: ${entry.protocolId}`);
+      if (!signaturePayloads || !matchingSigningPolicy) {
+        // e.g. evicted entry, a single entry must not stop the finalizer
+        this.logger.error(
+          `No signature payloads or signing policy for votingRoundId: ${entry.votingRoundId}, protocolId: ${entry.protocolId}. Dropped`
+        );
+        continue;
       }
 
-      const messageData = signaturePayloads[0].message;
+      // only payloads with message are collected
+      const messageData = signaturePayloads[0].message!;
       const fullMessage = ProtocolMessageMerkleRoot.encode(messageData).slice(2);
-      const signatures = SignaturePayload.encodeForRelay(signaturePayloads).slice(2);
-      const signingPolicy = SigningPolicy.encode(matchingSigningPolicy!.signingPolicy).slice(2);
+      const selectedSignaturePayloads = SignaturePayload.selectForRelay(
+        signaturePayloads,
+        matchingSigningPolicy.signingPolicy,
+        matchingSigningPolicy.threshold,
+        this.signatureSelectionStrategy
+      );
+      const signatures = SignaturePayload.encodeForRelay(selectedSignaturePayloads).slice(2);
+      const signingPolicy = SigningPolicy.encode(matchingSigningPolicy.signingPolicy).slice(2);
       const fullData = signingPolicy + fullMessage + signatures;
 
       try {
@@ -141,9 +398,13 @@ export class MockFinalizer {
           to: this.relayContractAddress,
           data: RELAY_SELECTOR + fullData,
         });
+        metrics.relayTransactions.inc({ type: "protocol-message", status: "success" });
+        metrics.relayGasUsed.observe({ type: "protocol-message" }, receipt.gasUsed);
         this.recordProcessed(entry);
+        await this.saveRelay(entry);
         this.logger.info(`Finalized: ${ProtocolMessageMerkleRoot.print(messageData)}`);
       } catch (e) {
+        metrics.relayTransactions.inc({ type: "protocol-message", status: "failure" });
         this.logger.error(`Error finalizing ${ProtocolMessageMerkleRoot.print(messageData)}. Skipped`);
         this.logger.error(`ERROR: ${e}`);
       }
@@ -151,16 +412,163 @@ export class MockFinalizer {
   }
 
   public async querySigningPolicies(startTime: number, endTime: number): Promise<ISigningPolicy[]> {
+    const queryResult = await this.queryRelayEvents("SigningPolicyInitialized", startTime, endTime, this.sourceRelayContractAddress);
+    const signingPolicyEvents = queryResult.map((event) => decodeEvent("Relay", "SigningPolicyInitialized", event));
+    return signingPolicyEvents.map(event => eventToSigningPolicy(event));
+  }
+
+  public async queryRelayedMessages(startTime: number, endTime: number): Promise<RelayedMessage[]> {
+    const queryResult = await this.queryRelayEvents("ProtocolMessageRelayed", startTime, endTime);
+    return queryResult.map(event => {
+      const decoded = decodeEvent("Relay", "ProtocolMessageRelayed", event);
+      return {
+        protocolId: parseInt(decoded.protocolId),
+        votingRoundId: parseInt(decoded.votingRoundId),
+        isSecureRandom: decoded.isSecureRandom,
+        merkleRoot: decoded.merkleRoot.toLowerCase(),
+      };
+    });
+  }
+
+  public async queryRelayedSigningPolicies(startTime: number, endTime: number): Promise<number[]> {
+    const queryResult = await this.queryRelayEvents("SigningPolicyRelayed", startTime, endTime);
+    return queryResult.map(event => parseInt(decodeEvent("Relay", "SigningPolicyRelayed", event).rewardEpochId));
+  }
+
+  async queryRelayEvents(eventName: string, startTime: number, endTime: number, relayAddress = this.relayContractAddress): Promise<TLPEvents[]> {
+    return this.dataSource
+      .getRepository(TLPEvents)
+      .createQueryBuilder("event")
+      .andWhere("event.timestamp >= :startTime", { startTime })
+      .andWhere("event.timestamp <= :endTime", { endTime })
+      .andWhere("event.address = :contractAddress", { contractAddress: relayAddress.slice(2).toLowerCase() })
+      .andWhere("event.topic0 = :signature", { signature: eventSignature("Relay", eventName).slice(2) })
+      .getMany();
+  }
+
+  /**
+   * Records messages relayed to Relay.sol (by this or other finalizers) as processed, so that their queue entries are dropped.
+   * @param relayedMessages
+   */
+  public async processRelayedMessages(relayedMessages: RelayedMessage[]) {
+    for (const message of relayedMessages) {
+      if (this.processed.get(message.votingRoundId)?.get(message.protocolId)) {
+        continue;
+      }
+      const entry = {
+        votingRoundId: message.votingRoundId,
+        protocolId: message.protocolId,
+        messageHash: ProtocolMessageMerkleRoot.hash(message),
+      };
+      this.recordProcessed(entry);
+      await this.saveRelay(entry);
+    }
+  }
+
+  public async queryNewSigningPolicySignatures(startTime: number, endTime: number): Promise<NewSigningPolicySignature[]> {
     const queryResult = await this.dataSource
       .getRepository(TLPEvents)
       .createQueryBuilder("event")
+      .leftJoinAndSelect("event.transaction_id", "tx")
       .andWhere("event.timestamp >= :startTime", { startTime })
       .andWhere("event.timestamp <= :endTime", { endTime })
-      .andWhere("event.address = :contractAddress", { contractAddress: this.relayContractAddress.slice(2).toLowerCase() })
-      .andWhere("event.topic0 = :signature", { signature: eventSignature("Relay", "SigningPolicyInitialized").slice(2) })
+      .andWhere("event.address = :contractAddress", { contractAddress: this.flareSystemsManagerAddress.slice(2).toLowerCase() })
+      .andWhere("event.topic0 = :signature", { signature: eventSignature("FlareSystemsManager", "SigningPolicySigned").slice(2) })
       .getMany();
-    const signingPolicyEvents = queryResult.map((event) => decodeEvent("Relay", "SigningPolicyInitialized", event));
-    return signingPolicyEvents.map(event => eventToSigningPolicy(event));
+    const result: NewSigningPolicySignature[] = [];
+    for (const event of queryResult) {
+      const tx = event.transaction_id;
+      // signature is only available in calldata of direct calls
+      if (tx.function_sig !== SIGN_NEW_SIGNING_POLICY_SELECTOR.slice(2)) {
+        this.logger.info(`Skipped SigningPolicySigned event in tx ${tx.hash} not calling signNewSigningPolicy directly.`);
+        continue;
+      }
+      const decodedEvent = decodeEvent("FlareSystemsManager", "SigningPolicySigned", event);
+      const args = this.web3.eth.abi.decodeParameters(["uint24", "bytes32", "tuple(uint8,bytes32,bytes32)"], "0x" + tx.input.slice(8));
+      result.push({
+        rewardEpochId: parseInt(args[0]),
+        newSigningPolicyHash: args[1].toLowerCase(),
+        signer: decodedEvent.signingPolicyAddress.toLowerCase(),
+        signature: { v: parseInt(args[2][0]), r: args[2][1], s: args[2][2] },
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Collects signatures of new signing policies. The signatures are indexed by the previous signing policy, which signs the new one.
+   */
+  public processNewSigningPolicySignatures(signatures: NewSigningPolicySignature[]) {
+    for (const item of signatures) {
+      const newSigningPolicy = this.signingPolicies.get(item.rewardEpochId);
+      const index = this.voterToIndexMaps.get(item.rewardEpochId - 1)?.get(item.signer);
+      if (!newSigningPolicy || index === undefined) {
+        this.logger.info(`No signing policies for signature of new signing policy for rewardEpochId: ${item.rewardEpochId}.`);
+        continue;
+      }
+      if (SigningPolicy.hash(newSigningPolicy) !== item.newSigningPolicyHash) {
+        this.logger.warn(`Signing policy hash mismatch for signature of new signing policy for rewardEpochId: ${item.rewardEpochId}.`);
+        continue;
+      }
+      if (!this.newSigningPolicySignatures.has(item.rewardEpochId)) {
+        this.newSigningPolicySignatures.set(item.rewardEpochId, new Map<string, IECDSASignatureWithIndex>());
+      }
+      this.newSigningPolicySignatures.get(item.rewardEpochId)!.set(item.signer, { ...item.signature, index });
+    }
+  }
+
+  /**
+   * Relays the next signing policy to relayContractAddress, once its signatures reach the threshold of the last initialized signing policy.
+   */
+  async relayNewSigningPolicies() {
+    const pending = [...this.newSigningPolicySignatures.keys()].filter(rewardEpochId => !this.relayedSigningPolicies.has(rewardEpochId));
+    if (!this.signingPolicyRelayEnabled || pending.length === 0) {
+      return;
+    }
+    const lastInitializedRewardEpochId = await extractLastInitializedRewardEpoch(this.relayContractAddress);
+    for (const rewardEpochId of pending) {
+      if (rewardEpochId <= lastInitializedRewardEpochId) {
+        // relayed by others or before restart
+        this.relayedSigningPolicies.add(rewardEpochId);
+      }
+    }
+    const rewardEpochId = lastInitializedRewardEpochId + 1;
+    const signingPolicy = this.signingPolicies.get(lastInitializedRewardEpochId);
+    const newSigningPolicy = this.signingPolicies.get(rewardEpochId);
+    const signatures = [...(this.newSigningPolicySignatures.get(rewardEpochId)?.values() ?? [])];
+    if (!signingPolicy || !newSigningPolicy || this.relayedSigningPolicies.has(rewardEpochId)) {
+      return;
+    }
+    signatures.sort((a, b) => a.index - b.index);
+    // signatures with lowest indices, until the threshold is reached
+    const selectedSignatures: IECDSASignatureWithIndex[] = [];
+    let weight = 0;
+    for (const signature of signatures) {
+      if (Threshold.passes(weight, signingPolicy.threshold)) {
+        break;
+      }
+      selectedSignatures.push(signature);
+      weight += signingPolicy.weights[signature.index];
+    }
+    if (!Threshold.passes(weight, signingPolicy.threshold)) {
+      return;
+    }
+    try {
+      const fullData = RelayMessage.encode({ signingPolicy, newSigningPolicy, signatures: selectedSignatures }, true).slice(2);
+      const receipt = await web3.eth.sendTransaction({
+        from: this.web3.eth.accounts.privateKeyToAccount(this.privateKey).address,
+        to: this.relayContractAddress,
+        data: RELAY_SELECTOR + fullData,
+      });
+      metrics.relayTransactions.inc({ type: "signing-policy", status: "success" });
+      metrics.relayGasUsed.observe({ type: "signing-policy" }, receipt.gasUsed);
+      this.relayedSigningPolicies.add(rewardEpochId);
+      this.logger.info(`Relayed signing policy for rewardEpochId: ${rewardEpochId}`);
+    } catch (e) {
+      metrics.relayTransactions.inc({ type: "signing-policy", status: "failure" });
+      this.logger.error(`Error relaying signing policy for rewardEpochId: ${rewardEpochId}. Skipped`);
+      this.logger.error(`ERROR: ${e}`);
+    }
   }
 
   public async querySignaturePayloads(startTime: number, endTime: number): Promise<ISignaturePayload[]> {
@@ -172,18 +580,101 @@ export class MockFinalizer {
       .andWhere("tx.to_address = :contractAddress", { contractAddress: this.submissionContractAddress.slice(2).toLowerCase() })
       .andWhere("tx.function_sig = :signature", { signature: SUBMIT_SIGNATURES_SELECTOR.slice(2).toLowerCase() })
       .getMany();
+    return this.decodeNewSignaturePayloads(queryResult, startTime);
+  }
+
+  /**
+   * Decodes signature payloads of submitSignatures transactions that were not decoded before.
+   * Query windows overlap, so transactions read again are skipped. This way only real resubmissions of signatures
+   * (in new transactions) are rejected as duplicates.
+   * @param txs submitSignatures transactions
+   * @param startTime start of the query window, older transactions are forgotten as they are not queried again
+   */
+  public decodeNewSignaturePayloads(txs: TLPTransaction[], startTime: number): ISignaturePayload[] {
+    for (const [hash, timestamp] of this.processedTransactions.entries()) {
+      if (timestamp < startTime) {
+        this.processedTransactions.delete(hash);
+      }
+    }
     const result: ISignaturePayload[] = [];
-    queryResult.filter((tx) => tx.input.length > 8).forEach((tx) => {
-      SignaturePayload.decodeCalldata(tx.input).forEach((payload) => {
-        result.push(payload.payload);
-      })
-    });
+    for (const tx of txs) {
+      if (this.processedTransactions.has(tx.hash)) {
+        continue;
+      }
+      this.processedTransactions.set(tx.hash, tx.timestamp);
+      if (tx.input.length > 8) {
+        result.push(...this.decodeSignaturePayloads(tx));
+      }
+    }
     return result;
+  }
 
+  /**
+   * Removes conflicting message detection data of voting rounds before minVotingRoundId.
+   */
+  pruneSignedMessageHashes(minVotingRoundId: number) {
+    for (const votingRoundId of this.signedMessageHashes.keys()) {
+      if (votingRoundId < minVotingRoundId) {
+        this.signedMessageHashes.delete(votingRoundId);
+      }
+    }
+  }
 
+  /**
+   * Decodes signature payloads from submitSignatures transaction. Malformed payload messages are handled according to
+   * the payload decode policy, malformed signature payloads are skipped. Rejects are counted per sender.
+   */
+  public decodeSignaturePayloads(tx: TLPTransaction): ISignaturePayload[] {
+    const result: ISignaturePayload[] = [];
+    let calldata: Uint8Array | undefined;
+    let index = 0;
+    try {
+      calldata = ByteUtils.hexToBytes(tx.input);
+      for (const item of PayloadMessage.decodeStream(calldata.subarray(4), this.payloadDecodePolicy)) {
+        if (item.warning) {
+          this.recordReject(tx.from_address);
+          this.logger.warn(
+            `Skipped ${item.warning.skippedBytes} bytes (${item.warning.type}) in submitSignatures tx ${tx.hash} from ${tx.from_address}: ${item.warning.error.nestedIn("calldata", "payloads", 4).message}`
+          );
+          continue;
+        }
+        const record = item.record!;
+        const field = `payloads[${index++}]`;
+        try {
+          result.push({ ...SignaturePayload.decodeBytes(record.payload), timestamp: tx.timestamp });
+        } catch (e) {
+          if (!(e instanceof ProtocolDecodeError)) {
+            throw e;
+          }
+          this.recordReject(tx.from_address);
+          const offset = record.payload.byteOffset - calldata.byteOffset;
+          this.logger.warn(
+            `Skipped signature payload (${record.protocolId}, ${record.votingRoundId}) in tx ${tx.hash} from ${tx.from_address}: ${e.nestedIn("calldata", field, offset).message}`
+          );
+        }
+      }
+    } catch (e) {
+      if (!(e instanceof ProtocolDecodeError)) {
+        throw e;
+      }
+      // strict policy: payload boundaries are unknown, the whole transaction is skipped
+      this.recordReject(tx.from_address);
+      this.logger.warn(`Skipped submitSignatures tx ${tx.hash} from ${tx.from_address}: ${(calldata ? e.nestedIn("calldata", "payloads", 4) : e).message}`);
+      return [];
+    }
+    return result;
   }
 
-  public processSigningPolicies(newSigningPolicies: ISigningPolicy[]) {
+  recordReject(sender: string) {
+    this.rejectsBySender.set(sender, (this.rejectsBySender.get(sender) ?? 0) + 1);
+  }
+
+  /**
+   * Adds new signing policies in the order of reward epochs.
+   * @returns signing policies that were not known before
+   */
+  public processSigningPolicies(newSigningPolicies: ISigningPolicy[]): ISigningPolicy[] {
+    const added: ISigningPolicy[] = [];
     newSigningPolicies.sort((a, b) => a.rewardEpochId - b.rewardEpochId);
     for (const signingPolicy of newSigningPolicies) {
       if (!this.signingPolicies.has(signingPolicy.rewardEpochId)) {
@@ -196,6 +687,7 @@ export class MockFinalizer {
             this.minRewardEpochSigningPolicy = signingPolicy.rewardEpochId;
           }
           this.signingPolicies.set(signingPolicy.rewardEpochId, signingPolicy);
+          added.push(signingPolicy);
           this.maxRewardEpochSigningPolicy = signingPolicy.rewardEpochId;
 
           let voterToIndex = new Map<string, number>();
@@ -211,27 +703,59 @@ export class MockFinalizer {
         }
       }
     }
+    return added;
   }
 
+  /**
+   * Collects signature payloads and queues messages whose signatures reach the threshold.
+   * Each payload is evaluated independently, rejected payloads are counted by reason and voter (signing policy address).
+   */
   public processSignaturePayloads(signaturePayloads: ISignaturePayload[]) {
     for (const payload of signaturePayloads) {
+      if (!payload.message) {
+        // message is needed for relaying
+        this.logger.info(`Skipped signature payload of type ${payload.type} without message.`);
+        continue;
+      }
       const votingRoundId = payload.message.votingRoundId;
       const protocolId = payload.message.protocolId;
+      if (this.processed.get(votingRoundId)?.get(protocolId)) {
+        // already relayed, possibly before restart
+        continue;
+      }
       const matchingSigningPolicy = this.getMatchingSigningPolicy(votingRoundId);
       if (!matchingSigningPolicy) {
         this.logger.info(`No signing policy for votingRoundId: ${votingRoundId}. Expected reward epoch: ${this.epochSettings.expectedRewardEpochForVotingRoundId(votingRoundId)}`);
-        return;
+        const signer = SignatureVerificationContext.shared.recoverSigner(SignaturePayload.messageHash(payload), payload.signature);
+        this.recordPayloadReject(PayloadRejectReason.NO_SIGNING_POLICY, signer);
+        continue;
       }
-      const voterToIndexMap = this.voterToIndexMaps.get(matchingSigningPolicy!.signingPolicy.rewardEpochId!);
+      const voterToIndexMap = this.voterToIndexMaps.get(matchingSigningPolicy.signingPolicy.rewardEpochId);
       const augPayload = SignaturePayload.augment(payload, voterToIndexMap!);
-      if (augPayload.signer === undefined) {
-        this.logger.info(`Signer not in the signing policy for rewardEpochId: ${matchingSigningPolicy!.signingPolicy.rewardEpochId!}.`);
-        return;
-      }
       const messageHash = augPayload.messageHash;
       if (!messageHash) {
         throw new Error(`No message hash for payload: ${JSON.stringify(payload)}`);
       }
+      const signer = augPayload.signer;
+      if (augPayload.index === undefined) {
+        this.logger.info(`Signer not in the signing policy for rewardEpochId: ${matchingSigningPolicy.signingPolicy.rewardEpochId}.`);
+        this.recordPayloadReject(PayloadRejectReason.UNKNOWN_SIGNER, signer);
+        continue;
+      }
+      if (!this.signedMessageHashes.has(votingRoundId)) {
+        this.signedMessageHashes.set(votingRoundId, new Map<number, Map<string, string>>());
+      }
+      if (!this.signedMessageHashes.get(votingRoundId)!.has(protocolId)) {
+        this.signedMessageHashes.get(votingRoundId)!.set(protocolId, new Map<string, string>());
+      }
+      const signedMessageHash = this.signedMessageHashes.get(votingRoundId)!.get(protocolId)!.get(signer);
+      if (signedMessageHash !== undefined && signedMessageHash !== messageHash) {
+        // the first signed message hash of the voter counts
+        this.logger.info(`Signer ${signer} signed conflicting message hashes for votingRoundId: ${votingRoundId}, protocolId: ${protocolId}.`);
+        this.recordPayloadReject(PayloadRejectReason.CONFLICTING_MESSAGE_HASH, signer);
+        continue;
+      }
+      this.signedMessageHashes.get(votingRoundId)!.get(protocolId)!.set(signer, messageHash);
       if (!this.results.has(votingRoundId)) {
         this.results.set(votingRoundId, new Map<number, Map<string, ISignaturePayload[]>>());
         this.weights.set(votingRoundId, new Map<number, Map<string, number>>());
@@ -246,65 +770,207 @@ export class MockFinalizer {
       }
       let sortedList = this.results.get(votingRoundId)!.get(protocolId)!.get(messageHash)!;
       const inserted = SignaturePayload.insertInSigningPolicySortedList(sortedList, augPayload);
+      if (!inserted) {
+        this.recordPayloadReject(PayloadRejectReason.DUPLICATE, signer);
+        continue;
+      }
+      metrics.signaturesIngested.inc({ protocol_id: protocolId });
 
-      if (inserted) {
-        // check if threshold reached
-        const voterToWeightMap = this.voterToWeightMaps.get(matchingSigningPolicy!.signingPolicy.rewardEpochId!);
-        let totalWeight = 0;
-        for (const payload of sortedList) {
-          totalWeight += voterToWeightMap!.get(payload.signer!)!;
+      // check if threshold reached
+      const voterToWeightMap = this.voterToWeightMaps.get(matchingSigningPolicy.signingPolicy.rewardEpochId);
+      let totalWeight = 0;
+      for (const payload of sortedList) {
+        totalWeight += voterToWeightMap!.get(payload.signer!)!;
+      }
+      this.weights.get(votingRoundId)!.get(protocolId)!.set(messageHash, totalWeight);
+      const weightLabels = { voting_round_id: votingRoundId, protocol_id: protocolId };
+      metrics.signatureWeight.set(weightLabels, Math.max(metrics.signatureWeight.get(weightLabels), totalWeight));
+      if (Threshold.passes(totalWeight, matchingSigningPolicy.threshold)) {
+        if (!this.thresholdReached.has(votingRoundId)) {
+          this.thresholdReached.set(votingRoundId, new Map<number, Map<string, number>>());
         }
-        // this.logger.info(`Total weight: ${totalWeight} (${votingRoundId}, ${protocolId}, ${messageHash}))`);
-        this.weights.get(votingRoundId)!.get(protocolId)!.set(messageHash, totalWeight);
-        if (totalWeight > matchingSigningPolicy.threshold) {
-          if (!this.thresholdReached.has(votingRoundId)) {
-            this.thresholdReached.set(votingRoundId, new Map<number, Map<string, number>>());
-          }
-          if (!this.thresholdReached.get(votingRoundId)!.has(protocolId)) {
-            this.thresholdReached.get(votingRoundId)!.set(protocolId, new Map<string, number>());
-          }
-          if (this.thresholdReached!.get(votingRoundId)!.get(protocolId)!.has(messageHash)) {
-            // no need for entering the queue again
-            return;
-          }
-          this.thresholdReached.get(votingRoundId)!.get(protocolId)!.set(messageHash, sortedList.length);
-          this.queue.push({
-            votingRoundId,
-            protocolId,
-            messageHash
-          });
+        if (!this.thresholdReached.get(votingRoundId)!.has(protocolId)) {
+          this.thresholdReached.get(votingRoundId)!.set(protocolId, new Map<string, number>());
+        }
+        if (this.thresholdReached.get(votingRoundId)!.get(protocolId)!.has(messageHash)) {
+          // no need for entering the queue again
+          continue;
         }
+        this.thresholdReached.get(votingRoundId)!.get(protocolId)!.set(messageHash, sortedList.length);
+        metrics.thresholdDelay.observe(
+          { protocol_id: protocolId },
+          (Date.now() - this.epochSettings.votingEpochStartMs(votingRoundId + 1)) / 1000
+        );
+        this.queue.push({
+          votingRoundId,
+          protocolId,
+          messageHash,
+          notBefore: Date.now() + this.relayDelayMs(matchingSigningPolicy.signingPolicy),
+        });
+      }
+    }
+  }
+
+  recordPayloadReject(reason: PayloadRejectReason, voter: string) {
+    metrics.signaturePayloadRejects.inc({ reason });
+    this.rejectsByReason.set(reason, (this.rejectsByReason.get(reason) ?? 0) + 1);
+    if (!this.rejectsByVoter.has(voter)) {
+      this.rejectsByVoter.set(voter, new Map<PayloadRejectReason, number>());
+    }
+    const voterRejects = this.rejectsByVoter.get(voter)!;
+    voterRejects.set(reason, (voterRejects.get(reason) ?? 0) + 1);
+  }
+
+  /**
+   * Returns the status of the finalizer: signing policies, recently processed messages, relays and rejects.
+   */
+  public statusReport(): FinalizerStatusReport {
+    const votingRoundId = this.epochSettings.votingEpochForTime(Date.now());
+    const recentlyProcessed: Record<number, number[]> = {};
+    for (const [processedVotingRoundId, protocolIdToProcessed] of this.processed.entries()) {
+      if (processedVotingRoundId > votingRoundId - SUMMARY_RANGE) {
+        recentlyProcessed[processedVotingRoundId] = [...protocolIdToProcessed.entries()]
+          .filter(([, processed]) => processed)
+          .map(([protocolId]) => protocolId)
+          .sort((a, b) => a - b);
       }
     }
+    const rejectsByVoter: Record<string, Record<string, number>> = {};
+    for (const [voter, voterRejects] of this.rejectsByVoter.entries()) {
+      rejectsByVoter[voter] = Object.fromEntries(voterRejects);
+    }
+    return {
+      expectedRewardEpochId: this.epochSettings.expectedRewardEpochForVotingRoundId(votingRoundId),
+      signingPolicies: {
+        count: this.signingPolicies.size,
+        minRewardEpochId: this.minRewardEpochSigningPolicy,
+        maxRewardEpochId: this.maxRewardEpochSigningPolicy,
+      },
+      recentlyProcessed,
+      relayedSigningPolicies: [...this.relayedSigningPolicies].sort((a, b) => a - b),
+      droppedRelays: this.droppedRelays,
+      queueSize: this.queue.size,
+      rejectsByReason: Object.fromEntries(this.rejectsByReason),
+      rejectsByVoter,
+      rejectsBySender: Object.fromEntries(this.rejectsBySender),
+    };
   }
 
   public logStatus() {
-    const expectedRewardEpochId = this.epochSettings.expectedRewardEpochForVotingRoundId(this.epochSettings.votingEpochForTime(Date.now()))
-    this.logger.info("---------------------------------------")
-    this.logger.info(`Expected reward epoch: ${expectedRewardEpochId}`);
-    this.logger.info(`Signing policies: ${this.signingPolicies.size} [${this.minRewardEpochSigningPolicy}, ${this.maxRewardEpochSigningPolicy}]`);
-    this.logger.info(`${this.recentProcessedSummary(expectedRewardEpochId - SUMMARY_RANGE)}`);
+    this.logger.info(`Status: ${JSON.stringify(this.statusReport())}`);
+  }
+
+  /**
+   * Returns the timestamp of the last block stored by the indexer, or undefined if nothing is indexed yet.
+   * Also updates the indexer lag metrics.
+   */
+  public async queryIndexerTimestamp(): Promise<number | undefined> {
+    const states = await this.dataSource.getRepository(TLPState).find();
+    const lastDatabaseState = states.find(state => state.name === LAST_DATABASE_INDEX_STATE);
+    const lastChainState = states.find(state => state.name === LAST_CHAIN_INDEX_STATE);
+    if (lastDatabaseState?.block_timestamp) {
+      metrics.indexerLagSeconds.set({}, Math.max(0, Date.now() / 1000 - lastDatabaseState.block_timestamp));
+    }
+    if (lastDatabaseState && lastChainState) {
+      metrics.indexerLagBlocks.set({}, lastChainState.index - lastDatabaseState.index);
+    }
+    return lastDatabaseState?.block_timestamp || undefined;
+  }
+
+  /**
+   * Restores the progress persisted by a previous run: known signing policies and relayed voting round and protocol pairs.
+   * @returns last processed indexer timestamp, or undefined if no progress was persisted
+   */
+  public async loadState(): Promise<number | undefined> {
+    const signingPolicies = await this.stateDataSource.getRepository(FinalizerSigningPolicy).find();
+    this.processSigningPolicies(signingPolicies.map(entity => SigningPolicy.fromJSON(entity.signing_policy)));
+    for (const relay of await this.stateDataSource.getRepository(FinalizerRelay).find()) {
+      this.recordProcessed({ votingRoundId: relay.voting_round_id, protocolId: relay.protocol_id, messageHash: relay.message_hash });
+    }
+    const state = await this.stateDataSource.getRepository(FinalizerState).findOneBy({ name: FINALIZER_LAST_PROCESSED_TIMESTAMP });
+    return state?.value;
+  }
+
+  public async saveSigningPolicies(signingPolicies: ISigningPolicy[]) {
+    const entities = signingPolicies.map(signingPolicy => {
+      const entity = new FinalizerSigningPolicy();
+      entity.reward_epoch_id = signingPolicy.rewardEpochId;
+      entity.signing_policy = JSON.stringify(SigningPolicy.toJSON(signingPolicy));
+      return entity;
+    });
+    if (entities.length > 0) {
+      await retry(() => this.stateDataSource.getRepository(FinalizerSigningPolicy).save(entities));
+    }
+  }
+
+  public async saveRelay(entry: QueueEntry) {
+    const entity = new FinalizerRelay();
+    entity.voting_round_id = entry.votingRoundId;
+    entity.protocol_id = entry.protocolId;
+    entity.message_hash = entry.messageHash;
+    entity.timestamp = Math.floor(Date.now() / 1000);
+    await retry(() => this.stateDataSource.getRepository(FinalizerRelay).save(entity));
+  }
+
+  public async saveProgress(lastProcessedTimestamp: number) {
+    const state = new FinalizerState();
+    state.name = FINALIZER_LAST_PROCESSED_TIMESTAMP;
+    state.value = lastProcessedTimestamp;
+    await retry(() => this.stateDataSource.getRepository(FinalizerState).save(state));
+  }
+
+  async processRelayEvents(startTime: number, endTime: number) {
+    await this.processRelayedMessages(await this.queryRelayedMessages(startTime, endTime));
+    for (const rewardEpochId of await this.queryRelayedSigningPolicies(startTime, endTime)) {
+      this.relayedSigningPolicies.add(rewardEpochId);
+    }
   }
 
   public async run() {
     this.dataSource = await getDataSource(true);
+    this.stateDataSource = await getFinalizerDataSource(this.databaseFile);
     this.epochSettings = await extractEpochSettings(this.flareSystemsManagerAddress);
-    let endTimeSec = Math.floor(Date.now() / 1000);
-    let startTimeSec = endTimeSec - this.historySec;  // start one minute ago
+    this.thresholdIncreaseBIPS = await extractThresholdIncreaseBIPS(this.relayContractAddress);
+    this.signingPolicyRelayEnabled = await extractSigningPolicyRelayEnabled(this.relayContractAddress);
+    const lastProcessedTimestamp = await this.loadState();
+    let endTimeSec = await this.queryIndexerTimestamp();
+    while (endTimeSec === undefined) {
+      await sleep(500);
+      endTimeSec = await this.queryIndexerTimestamp();
+    }
+    // on resume, signing policies are known up to the last processed timestamp
+    let startTimeSec = lastProcessedTimestamp ?? endTimeSec - this.historySec;
     let newSigningPolicies = await this.querySigningPolicies(startTimeSec, endTimeSec);
-    this.processSigningPolicies(newSigningPolicies);
-    let signaturePayloads = await this.querySignaturePayloads(startTimeSec, endTimeSec);
+    await this.saveSigningPolicies(this.processSigningPolicies(newSigningPolicies));
+    await this.processRelayEvents(startTimeSec, endTimeSec);
+    // signatures for rounds not relayed before restart are collected again, relayed ones are skipped
+    let signaturePayloads = await this.querySignaturePayloads((lastProcessedTimestamp ?? endTimeSec) - this.historySec, endTimeSec);
+    if (this.signingPolicyRelayEnabled) {
+      this.processNewSigningPolicySignatures(
+        await this.queryNewSigningPolicySignatures((lastProcessedTimestamp ?? endTimeSec) - this.historySec, endTimeSec)
+      );
+    }
     startTimeSec = endTimeSec - this.indexerRefreshWindowSec;
     this.processSignaturePayloads(signaturePayloads);
+    await this.saveProgress(endTimeSec);
     setInterval(() => this.logStatus(), 5000)
     while (true) {
-      endTimeSec = Math.floor(Date.now() / 1000);
+      endTimeSec = (await this.queryIndexerTimestamp()) ?? endTimeSec;
       newSigningPolicies = await this.querySigningPolicies(startTimeSec, endTimeSec);
-      this.processSigningPolicies(newSigningPolicies);
+      await this.saveSigningPolicies(this.processSigningPolicies(newSigningPolicies));
+      await this.processRelayEvents(startTimeSec, endTimeSec);
       signaturePayloads = await this.querySignaturePayloads(startTimeSec, endTimeSec);
       this.processSignaturePayloads(signaturePayloads);
+      if (this.signingPolicyRelayEnabled) {
+        this.processNewSigningPolicySignatures(await this.queryNewSigningPolicySignatures(startTimeSec, endTimeSec));
+      }
       startTimeSec = endTimeSec - this.indexerRefreshWindowSec;
+      await this.relayNewSigningPolicies();
       await this.processQueue()
+      await this.saveProgress(endTimeSec);
+      const currentVotingRoundId = this.epochSettings.votingEpochForTime(Date.now());
+      metrics.signatureWeight.retain(labels => Number(labels.voting_round_id) > currentVotingRoundId - SUMMARY_RANGE);
+      this.pruneSignedMessageHashes(this.epochSettings.votingEpochForTime(Date.now() - this.historySec * 1000));
       await sleep(500);
     }
 
@@ -1,8 +1,9 @@
 import Web3 from "web3";
 import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "../protocol/ProtocolMessageMerkleRoot";
-import { ECDSASignature } from "../protocol/ECDSASignature";
 import { ISignaturePayload, SignaturePayload } from "../protocol/SignaturePayload";
 import { PayloadMessage } from "../protocol/PayloadMessage";
+import { ISigner, Signer } from "../protocol/Signer";
+import { MetricsRegistry } from "./Metrics";
 import { SUBMIT_SIGNATURES_SELECTOR } from "./mock-test-helpers";
 import { getLogger } from "../../../deployment/utils/logger";
 import { Logger } from "winston";
@@ -12,16 +13,23 @@ export interface SignDepositMessage {
   unsignedMessage: string;
 }
 
+const metrics = {
+  submissions: MetricsRegistry.shared.counter("signer_emulator_submissions_total", "submitSignatures transactions sent by signer emulators"),
+  signaturesSent: MetricsRegistry.shared.counter("signer_emulator_signatures_sent_total", "Signature payloads sent by signer emulators"),
+};
+
 export class SignerEmulator {
   logger?: Logger;
   address!: string;
+  private signer: ISigner;
   constructor(
-    private privateKey: string,
+    signer: string | ISigner,
     public web3: Web3,
     public submissionContractAddress: string,
     public loggingEnabled = true
   ) {
-    this.address = this.web3.eth.accounts.privateKeyToAccount(this.privateKey).address;
+    this.signer = Signer.from(signer);
+    this.address = this.signer.address;
     if (this.loggingEnabled) {
       this.logger = getLogger(`signer-emulator-${this.address}`)
     }
@@ -33,7 +41,7 @@ export class SignerEmulator {
       const signaturePayload = {
         type: "0x00",
         message: message.messageToSign,
-        signature: await ECDSASignature.signMessageHash(messageHash, this.privateKey),
+        signature: await this.signer.signHash(messageHash),
         unsignedMessage: message.unsignedMessage
       } as ISignaturePayload;
       return PayloadMessage.encode({
@@ -46,11 +54,18 @@ export class SignerEmulator {
   }
 
   public async sendMessages(messages: SignDepositMessage[]): Promise<any> {
-    await web3.eth.sendTransaction({
-      from: this.address,
-      to: this.submissionContractAddress,
-      data: SUBMIT_SIGNATURES_SELECTOR + (await this.signAndEncode(messages)).slice(2),
-    });
+    try {
+      await web3.eth.sendTransaction({
+        from: this.address,
+        to: this.submissionContractAddress,
+        data: SUBMIT_SIGNATURES_SELECTOR + (await this.signAndEncode(messages)).slice(2),
+      });
+    } catch (e) {
+      metrics.submissions.inc({ signer: this.address, status: "failure" });
+      throw e;
+    }
+    metrics.submissions.inc({ signer: this.address, status: "success" });
+    metrics.signaturesSent.inc({ signer: this.address }, messages.length);
     if (this.loggingEnabled) {
       this.logger!.info(`Voter ${this.address} sent:`);
       for (const message of messages) {
@@ -1,5 +1,6 @@
 import { sleep } from "../../../deployment/tasks/run-simulation";
 import { IProtocolMessageMerkleRoot } from "../protocol/ProtocolMessageMerkleRoot";
+import { ISigner } from "../protocol/Signer";
 import { SignDepositMessage, SignerEmulator } from "./SignerEmulator";
 import { extractEpochSettings } from "./mock-test-helpers";
 
@@ -11,7 +12,7 @@ export interface SignerEmulationConfig {
 
 export class SignerEmulatorManager {
   constructor(
-    public privateKeys: string[],
+    public signers: (string | ISigner)[],
     public web3: Web3,
     public submissionContractAddress: string,
     public flareSystemsManagerAddress: string,
@@ -42,7 +43,7 @@ export class SignerEmulatorManager {
   }
 
   public async run() {
-    const signerEmulators = this.privateKeys.map(privateKey => new SignerEmulator(privateKey, this.web3, this.submissionContractAddress, this.loggingEnabled));
+    const signerEmulators = this.signers.map(signer => new SignerEmulator(signer, this.web3, this.submissionContractAddress, this.loggingEnabled));
     const epochSettings = await extractEpochSettings(this.flareSystemsManagerAddress);
     while (true) {
       const signingVotingRoundId = epochSettings.votingEpochForTime(Date.now()) - 1;
@@ -1,13 +1,14 @@
 import fs from "fs";
 import { TLPEvents } from "../../../deployment/utils/indexer/Entity";
-import { FlareSystemsManagerContract, FlareSystemsManagerInstance } from "../../../typechain-truffle";
+import { FlareSystemsManagerContract, FlareSystemsManagerInstance, RelayContract } from "../../../typechain-truffle";
 import { EpochSettings } from "../../../deployment/utils/EpochSettings";
 import { ISigningPolicy } from "../protocol/SigningPolicy";
+import { Threshold } from "../protocol/Threshold";
 import { DEPLOY_ADDRESSES_FILE } from "../../../deployment/tasks/run-simulation";
 
 export const SUBMIT_SIGNATURES_SELECTOR = web3.utils.sha3("submitSignatures()")!.slice(0, 10);
 export const RELAY_SELECTOR = web3.utils.sha3("relay()")!.slice(0, 10);
-export const THRESHOLD_INCREASE_BIPS = 12000;
+export const SIGN_NEW_SIGNING_POLICY_SELECTOR = web3.utils.sha3("signNewSigningPolicy(uint24,bytes32,(uint8,bytes32,bytes32))")!.slice(0, 10);
 export function eventSignature(contractName: string, eventName: string): string {
   const contract = artifacts.require(contractName as any);
   return Object.entries(contract.events!).find((x: any) => x[1].name === eventName)![0];
@@ -34,6 +35,29 @@ export function contractAddress(contractName: string): string {
 }
 
 const FlareSystemsManager: FlareSystemsManagerContract = artifacts.require("FlareSystemsManager");
+const Relay: RelayContract = artifacts.require("Relay");
+
+export async function extractThresholdIncreaseBIPS(relayAddress: string): Promise<number> {
+  return Threshold.readIncreaseBIPS(await Relay.at(relayAddress));
+}
+
+/**
+ * Returns the merkle root relayed to Relay.sol for the protocol and voting round (zero bytes if not relayed yet).
+ */
+export async function extractRelayedMerkleRoot(relayAddress: string, protocolId: number, votingRoundId: number): Promise<string> {
+  return (await Relay.at(relayAddress)).merkleRoots(protocolId, votingRoundId);
+}
+
+/**
+ * Returns true if Relay.sol accepts relaying of new signing policies (i.e. it has no signing policy setter).
+ */
+export async function extractSigningPolicyRelayEnabled(relayAddress: string): Promise<boolean> {
+  return !(await (await Relay.at(relayAddress)).stateData()).noSigningPolicyRelay;
+}
+
+export async function extractLastInitializedRewardEpoch(relayAddress: string): Promise<number> {
+  return parseInt((await (await Relay.at(relayAddress)).lastInitializedRewardEpochData())[0].toString());
+}
 
 export async function extractEpochSettings(flareSystemsManagerAddress: string): Promise<EpochSettings> {
   const flareSystemsManager: FlareSystemsManagerInstance = await FlareSystemsManager.at(flareSystemsManagerAddress);
@@ -1,15 +1,45 @@
 import privateKeys from "../../../deployment/test-1020-accounts.json";
-import { MockFinalizer } from "./MockFinalizer";
+import { MockFinalizer, parseRelayDelayConfig } from "./MockFinalizer";
 import { contractAddress } from "./mock-test-helpers";
+import { MetricsServer } from "./Metrics";
+
+function addressFromEnv(name: string): string | undefined {
+  const value = process.env[name];
+  if (value !== undefined && !web3.utils.isAddress(value)) {
+    throw Error(`${name} environment variable is not an address: ${value}`);
+  }
+  return value;
+}
 
 const mf = new MockFinalizer(
   privateKeys[0].privateKey,
   web3, 
   contractAddress("Submission"),
-  contractAddress("Relay"),
+  // optional Relay.sol to relay to, e.g. one without signing policy setter, which accepts new signing policies (same chain)
+  addressFromEnv("RELAY_ADDRESS") ?? contractAddress("Relay"),
   contractAddress("FlareSystemsManager"),
+  {
+    // e.g. RELAY_DELAY_MODE=stake-weighted RELAY_DELAY_MAX_MS=5000 RELAY_DELAY_SIGNING_POLICY_ADDRESS=<signing policy address of the voter>
+    relayDelay: parseRelayDelayConfig(
+      process.env.RELAY_DELAY_MODE,
+      process.env.RELAY_DELAY_MAX_MS,
+      process.env.RELAY_DELAY_SIGNING_POLICY_ADDRESS
+    ),
+    // Relay.sol providing signing policies (initialized by FlareSystemsManager)
+    sourceRelayContractAddress: addressFromEnv("SOURCE_RELAY_ADDRESS") ?? contractAddress("Relay"),
+    // finalizer progress database, e.g. FINALIZER_DATABASE_FILE=./finalizer.db
+    databaseFile: process.env.FINALIZER_DATABASE_FILE,
+  }
 );
 
+// optional Prometheus metrics endpoint, e.g. METRICS_PORT=9100
+if (process.env.METRICS_PORT) {
+  new MetricsServer()
+    .start(Number(process.env.METRICS_PORT), process.env.METRICS_HOST)
+    .then(url => console.log(`Metrics on ${url}`))
+    .catch(e => console.error(e));
+}
+
 mf.run()
   .then(() => {console.log("done")})
   .catch((e) => {console.error(e); process.exit(1)});
\ No newline at end of file
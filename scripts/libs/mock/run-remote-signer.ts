@@ -0,0 +1,22 @@
+import { KeystoreSigner, RemoteSignerServer } from "../protocol/Signer";
+
+// Local stand-in for a remote signer, serving signatures by the key from an encrypted keystore file.
+// Usage: REMOTE_SIGNER_KEYSTORE=<keystore.json> REMOTE_SIGNER_PASSWORD=<password> [REMOTE_SIGNER_PORT=9000] yarn remote-signer
+
+async function main() {
+  if (!process.env.REMOTE_SIGNER_KEYSTORE) {
+    throw Error("REMOTE_SIGNER_KEYSTORE environment variable not set. Must be keystore json file path.");
+  }
+  if (process.env.REMOTE_SIGNER_PASSWORD === undefined) {
+    throw Error("REMOTE_SIGNER_PASSWORD environment variable not set.");
+  }
+  const signer = KeystoreSigner.fromFile(process.env.REMOTE_SIGNER_KEYSTORE, process.env.REMOTE_SIGNER_PASSWORD);
+  const server = new RemoteSignerServer(signer);
+  const url = await server.start(Number(process.env.REMOTE_SIGNER_PORT ?? 0));
+  console.log(`Remote signer for ${signer.address} listening on ${url}`);
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -1,5 +1,6 @@
 import { SignerEmulationConfig, SignerEmulatorManager } from "./SignerEmulatorManager";
 import { FIXED_TEST_VOTERS, contractAddress, privateKeysForAddresses } from "./mock-test-helpers";
+import { MetricsServer } from "./Metrics";
 
 const voterPrivateKeys = privateKeysForAddresses(FIXED_TEST_VOTERS)
 
@@ -21,6 +22,14 @@ const sem = new SignerEmulatorManager(
   LOGGING_ENABLED
 );
 
+// optional Prometheus metrics endpoint, e.g. METRICS_PORT=9100
+if (process.env.METRICS_PORT) {
+  new MetricsServer()
+    .start(Number(process.env.METRICS_PORT), process.env.METRICS_HOST)
+    .then(url => console.log(`Metrics on ${url}`))
+    .catch(e => console.error(e));
+}
+
 sem.run()
   .then(() => {console.log("done")})
   .catch((e) => {console.error(e); process.exit(1)});
@@ -0,0 +1,108 @@
+import { ProtocolDecodeError } from "./ProtocolDecodeError";
+
+export namespace ByteUtils {
+  const HEX_BYTES = Array.from({ length: 256 }, (_, i) => i.toString(16).padStart(2, "0"));
+  // Above this length native conversion is faster than the lookup table
+  const NATIVE_HEX_CONVERSION_THRESHOLD = 64;
+
+  /**
+   * Converts hex string (can be 0x-prefixed or not) into byte array.
+   * Throws ProtocolDecodeError if the string is not a hex string of even length.
+   * @param hexString
+   * @param codec codec name reported in the error
+   * @returns
+   */
+  export function hexToBytes(hexString: string, codec = "hex"): Uint8Array {
+    const hexStringInternal = hexString.startsWith("0x") ? hexString.slice(2) : hexString;
+    if (hexStringInternal.length % 2 !== 0) {
+      throw new ProtocolDecodeError(codec, "encoding", Math.floor(hexStringInternal.length / 2), "Invalid format - not even length");
+    }
+    // native decoding stops at the first invalid character, which is cheaper to detect than with regex
+    const bytes = Buffer.from(hexStringInternal, "hex");
+    if (bytes.length * 2 !== hexStringInternal.length) {
+      throw new ProtocolDecodeError(codec, "encoding", bytes.length, "Invalid format - not hex string");
+    }
+    return bytes;
+  }
+
+  /**
+   * Converts (part of) byte array into 0x-prefixed lower case hex string.
+   * @param bytes
+   * @param start start offset (inclusive)
+   * @param end end offset (exclusive)
+   * @returns
+   */
+  export function bytesToHex(bytes: Uint8Array, start = 0, end = bytes.length): string {
+    if (end - start > NATIVE_HEX_CONVERSION_THRESHOLD) {
+      return "0x" + Buffer.from(bytes.buffer, bytes.byteOffset + start, end - start).toString("hex");
+    }
+    let result = "0x";
+    for (let i = start; i < end; i++) {
+      result += HEX_BYTES[bytes[i]];
+    }
+    return result;
+  }
+
+  /**
+   * Writes 0x-prefixed hex string of exactly @param length bytes into byte array at given offset.
+   * @param bytes
+   * @param offset
+   * @param hexString
+   * @param length
+   */
+  export function writeHex(bytes: Uint8Array, offset: number, hexString: string, length: number) {
+    const written = Buffer.from(bytes.buffer, bytes.byteOffset + offset, length).write(hexString.slice(2), "hex");
+    if (written !== length || hexString.length !== 2 + length * 2) {
+      throw Error(`Invalid hex string of length ${length} bytes: ${hexString}`);
+    }
+  }
+
+  /**
+   * Returns DataView over the byte array, used for reading and writing big endian numbers.
+   * @param bytes
+   * @returns
+   */
+  export function dataView(bytes: Uint8Array): DataView {
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  /**
+   * Reads 3-byte big endian unsigned integer.
+   * @param view
+   * @param offset
+   * @returns
+   */
+  export function getUint24(view: DataView, offset: number): number {
+    return (view.getUint8(offset) << 16) | view.getUint16(offset + 1);
+  }
+
+  /**
+   * Writes 3-byte big endian unsigned integer.
+   * @param view
+   * @param offset
+   * @param value
+   */
+  export function setUint24(view: DataView, offset: number, value: number) {
+    view.setUint8(offset, value >>> 16);
+    view.setUint16(offset + 1, value & 0xffff);
+  }
+
+  /**
+   * Concatenates byte arrays into one byte array.
+   * @param byteArrays
+   * @returns
+   */
+  export function concatenateBytes(byteArrays: Uint8Array[]): Uint8Array {
+    let length = 0;
+    for (const byteArray of byteArrays) {
+      length += byteArray.length;
+    }
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const byteArray of byteArrays) {
+      result.set(byteArray, offset);
+      offset += byteArray.length;
+    }
+    return result;
+  }
+}
@@ -0,0 +1,277 @@
+import { ethers } from "ethers";
+import { ECDSASignature } from "./ECDSASignature";
+import { IPayloadMessage, PayloadMessage } from "./PayloadMessage";
+import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "./ProtocolMessageMerkleRoot";
+import { RelayMessage } from "./RelayMessage";
+import { ISignaturePayload, SignaturePayload } from "./SignaturePayload";
+import { ISigningPolicy, SigningPolicy } from "./SigningPolicy";
+import { Threshold } from "./Threshold";
+
+/**
+ * Functions of Submission.sol and Relay.sol, which calldata can be decoded.
+ */
+export enum CalldataFunction {
+  SUBMIT1 = "submit1",
+  SUBMIT2 = "submit2",
+  SUBMIT3 = "submit3",
+  SUBMIT_SIGNATURES = "submitSignatures",
+  RELAY = "relay",
+}
+
+/**
+ * Signing policy data used for signer recovery. If only the hash is known (e.g. read from Relay.toSigningPolicyHash),
+ * signing policies in relay calldata can still be checked against it.
+ */
+export interface ICalldataDecodeOptions {
+  signingPolicy?: ISigningPolicy;
+  signingPolicyHash?: string;
+}
+
+/**
+ * Signature payload from submitSignatures calldata with recovered signer.
+ * If signing policy is provided, index and weight of the signer in it are set.
+ */
+export interface ISignaturePayloadReport {
+  protocolId: number;
+  votingRoundId: number;
+  type: string;
+  message?: IProtocolMessageMerkleRoot; // not present in payload types carrying only the message hash
+  messageHash: string;
+  signer: string;
+  inSigningPolicy?: boolean; // set if signing policy is provided
+  index?: number;
+  weight?: number;
+  unsignedMessage: string;
+}
+
+/**
+ * Signature from relay calldata with recovered signer and the signer expected by the signing policy.
+ */
+export interface IRelaySignatureReport {
+  index: number;
+  signer: string;
+  expectedSigner?: string;
+  valid: boolean;
+  weight: number;
+}
+
+export interface INewSigningPolicyReport {
+  rewardEpochId: number;
+  startVotingRoundId: number;
+  threshold: number;
+  voters: number;
+  signingPolicyHash: string;
+}
+
+export interface IRelayReport {
+  rewardEpochId: number;
+  startVotingRoundId: number;
+  threshold: number;
+  voters: number;
+  signingPolicyHash: string;
+  signingPolicyHashMatches?: boolean; // set if signing policy or its hash is provided
+  protocolMessageMerkleRoot?: IProtocolMessageMerkleRoot;
+  newSigningPolicy?: INewSigningPolicyReport;
+  messageHash: string;
+  signatures: IRelaySignatureReport[];
+  weight: number; // weight of valid signatures
+  thresholdReached: boolean;
+}
+
+export interface ICalldataReport {
+  function: CalldataFunction;
+  selector: string;
+  payloads?: IPayloadMessage<string>[]; // submit1, submit2, submit3
+  signaturePayloads?: ISignaturePayloadReport[]; // submitSignatures
+  relay?: IRelayReport; // relay
+}
+
+export namespace CalldataDecoder {
+  export const SELECTORS: Record<string, CalldataFunction> = Object.fromEntries(
+    Object.values(CalldataFunction).map(name => [ethers.id(`${name}()`).slice(0, 10), name])
+  );
+
+  /**
+   * Detects the function from the selector of the calldata.
+   * @param calldata 0x-prefixed hex string
+   * @returns
+   */
+  export function detect(calldata: string): CalldataFunction {
+    const selector = calldata.slice(0, 10).toLowerCase();
+    const name = SELECTORS[selector];
+    if (!name) {
+      throw Error(`Unknown selector: ${selector}`);
+    }
+    return name;
+  }
+
+  /**
+   * Decodes calldata of submit1, submit2, submit3, submitSignatures (Submission.sol) or relay (Relay.sol)
+   * and recovers signers of signatures.
+   * @param calldata 0x-prefixed hex string
+   * @param options signing policy (or its hash) to match signers against
+   * @returns
+   */
+  export function decode(calldata: string, options: ICalldataDecodeOptions = {}): ICalldataReport {
+    const name = detect(calldata);
+    const report: ICalldataReport = { function: name, selector: calldata.slice(0, 10).toLowerCase() };
+    switch (name) {
+      case CalldataFunction.SUBMIT1:
+      case CalldataFunction.SUBMIT2:
+      case CalldataFunction.SUBMIT3:
+        report.payloads = PayloadMessage.decode("0x" + calldata.slice(10));
+        break;
+      case CalldataFunction.SUBMIT_SIGNATURES:
+        report.signaturePayloads = SignaturePayload.decodeCalldata(calldata).map(record =>
+          signaturePayloadReport(record, options.signingPolicy)
+        );
+        break;
+      case CalldataFunction.RELAY:
+        report.relay = relayReport("0x" + calldata.slice(10), options);
+        break;
+    }
+    return report;
+  }
+
+  function signaturePayloadReport(
+    record: IPayloadMessage<ISignaturePayload>,
+    signingPolicy?: ISigningPolicy
+  ): ISignaturePayloadReport {
+    const messageHash = SignaturePayload.messageHash(record.payload);
+    const signer = ECDSASignature.recoverSigner(messageHash, record.payload.signature);
+    const result: ISignaturePayloadReport = {
+      protocolId: record.protocolId,
+      votingRoundId: record.votingRoundId,
+      type: record.payload.type,
+      message: record.payload.message,
+      messageHash,
+      signer,
+      unsignedMessage: record.payload.unsignedMessage,
+    };
+    if (signingPolicy) {
+      const index = signingPolicy.voters.findIndex(voter => voter.toLowerCase() === signer);
+      result.inSigningPolicy = index >= 0;
+      if (index >= 0) {
+        result.index = index;
+        result.weight = signingPolicy.weights[index];
+      }
+    }
+    return result;
+  }
+
+  function relayReport(encodedMessage: string, options: ICalldataDecodeOptions): IRelayReport {
+    const message = RelayMessage.decode(encodedMessage);
+    const signingPolicy = message.signingPolicy;
+    const signingPolicyHash = SigningPolicy.hash(signingPolicy);
+    const expectedHash = options.signingPolicy ? SigningPolicy.hash(options.signingPolicy) : options.signingPolicyHash;
+    const messageHash = message.newSigningPolicy
+      ? SigningPolicy.hash(message.newSigningPolicy)
+      : ProtocolMessageMerkleRoot.hash(message.protocolMessageMerkleRoot!);
+    let weight = 0;
+    const signatures = message.signatures.map(signature => {
+      const signer = ECDSASignature.recoverSigner(messageHash, signature);
+      const expectedSigner = signingPolicy.voters[signature.index]?.toLowerCase();
+      const valid = signer === expectedSigner;
+      const signatureWeight = valid ? signingPolicy.weights[signature.index] : 0;
+      weight += signatureWeight;
+      return { index: signature.index, signer, expectedSigner, valid, weight: signatureWeight };
+    });
+    const result: IRelayReport = {
+      rewardEpochId: signingPolicy.rewardEpochId,
+      startVotingRoundId: signingPolicy.startVotingRoundId,
+      threshold: signingPolicy.threshold,
+      voters: signingPolicy.voters.length,
+      signingPolicyHash,
+      messageHash,
+      signatures,
+      weight,
+      thresholdReached: Threshold.passes(weight, signingPolicy.threshold),
+    };
+    if (expectedHash) {
+      result.signingPolicyHashMatches = expectedHash.toLowerCase() === signingPolicyHash.toLowerCase();
+    }
+    if (message.protocolMessageMerkleRoot) {
+      result.protocolMessageMerkleRoot = message.protocolMessageMerkleRoot;
+      delete result.protocolMessageMerkleRoot.encodedLength;
+    }
+    if (message.newSigningPolicy) {
+      result.newSigningPolicy = {
+        rewardEpochId: message.newSigningPolicy.rewardEpochId,
+        startVotingRoundId: message.newSigningPolicy.startVotingRoundId,
+        threshold: message.newSigningPolicy.threshold,
+        voters: message.newSigningPolicy.voters.length,
+        signingPolicyHash: messageHash,
+      };
+    }
+    return result;
+  }
+
+  /**
+   * Formats the report into human-readable text.
+   * @param report
+   * @returns
+   */
+  export function format(report: ICalldataReport): string {
+    const lines: string[] = [`Function: ${report.function} (${report.selector})`];
+    if (report.payloads) {
+      lines.push(`Payloads: ${report.payloads.length}`);
+      for (const [i, payload] of report.payloads.entries()) {
+        lines.push(
+          `  [${i}] protocolId: ${payload.protocolId}, votingRoundId: ${payload.votingRoundId}, length: ${(payload.payload.length - 2) / 2}`
+        );
+        lines.push(`      payload: ${payload.payload}`);
+      }
+    }
+    if (report.signaturePayloads) {
+      lines.push(`Signature payloads: ${report.signaturePayloads.length}`);
+      for (const [i, payload] of report.signaturePayloads.entries()) {
+        lines.push(`  [${i}] protocolId: ${payload.protocolId}, votingRoundId: ${payload.votingRoundId}, type: ${payload.type}`);
+        lines.push(
+          payload.message ? `      message: ${ProtocolMessageMerkleRoot.print(payload.message)}` : `      message hash: ${payload.messageHash}`
+        );
+        lines.push(`      signer: ${payload.signer}${signerInfo(payload)}`);
+        if (payload.unsignedMessage !== "0x") {
+          lines.push(`      unsigned message: ${payload.unsignedMessage}`);
+        }
+      }
+    }
+    if (report.relay) {
+      const relay = report.relay;
+      lines.push(
+        `Signing policy: rewardEpochId: ${relay.rewardEpochId}, startVotingRoundId: ${relay.startVotingRoundId}, ` +
+          `voters: ${relay.voters}, threshold: ${relay.threshold}`
+      );
+      lines.push(
+        `  hash: ${relay.signingPolicyHash}` +
+          (relay.signingPolicyHashMatches === undefined ? "" : relay.signingPolicyHashMatches ? " (matches)" : " (DOES NOT MATCH)")
+      );
+      if (relay.protocolMessageMerkleRoot) {
+        lines.push(`Protocol message merkle root: ${ProtocolMessageMerkleRoot.print(relay.protocolMessageMerkleRoot)}`);
+      }
+      if (relay.newSigningPolicy) {
+        const policy = relay.newSigningPolicy;
+        lines.push(
+          `New signing policy: rewardEpochId: ${policy.rewardEpochId}, startVotingRoundId: ${policy.startVotingRoundId}, ` +
+            `voters: ${policy.voters}, threshold: ${policy.threshold}`
+        );
+        lines.push(`  hash: ${policy.signingPolicyHash}`);
+      }
+      lines.push(`Signatures: ${relay.signatures.length}`);
+      for (const signature of relay.signatures) {
+        lines.push(
+          `  [${signature.index}] signer: ${signature.signer}, weight: ${signature.weight}` +
+            (signature.valid ? "" : ` (INVALID, expected ${signature.expectedSigner ?? "index in signing policy"})`)
+        );
+      }
+      lines.push(`Weight: ${relay.weight} / threshold: ${relay.threshold} (${relay.thresholdReached ? "reached" : "NOT REACHED"})`);
+    }
+    return lines.join("\n");
+  }
+
+  function signerInfo(payload: ISignaturePayloadReport): string {
+    if (payload.inSigningPolicy === undefined) {
+      return "";
+    }
+    return payload.inSigningPolicy ? ` (index: ${payload.index}, weight: ${payload.weight})` : " (NOT IN SIGNING POLICY)";
+  }
+}
@@ -1,4 +1,8 @@
 import Web3 from "web3";
+import { ByteUtils } from "./ByteUtils";
+import { ProtocolDecodeError } from "./ProtocolDecodeError";
+import { ISigner, Signer } from "./Signer";
+import { ProtocolJSON } from "./ProtocolJSON";
 export interface IECDSASignature {
   r: string;
   s: string;
@@ -7,18 +11,33 @@ export interface IECDSASignature {
 
 const web3 = new Web3();
 export namespace ECDSASignature {
+  const CODEC = "ECDSASignature";
+  export const ENCODED_BYTES = 65;
+  export const COMPACT_ENCODED_BYTES = 64;
+
   /**
    * Encodes ECDSA signature into 0x-prefixed hex string representing byte encoding
    * @param signature
    * @returns
    */
   export function encode(signature: IECDSASignature): string {
-    return (
-      "0x" +
-      signature.v.toString(16).padStart(2, "0") +
-      signature.r.slice(2) +
-      signature.s.slice(2)
-    );
+    return ByteUtils.bytesToHex(encodeBytes(signature));
+  }
+
+  /**
+   * Encodes ECDSA signature into byte encoding
+   * @param signature
+   * @returns
+   */
+  export function encodeBytes(signature: IECDSASignature): Uint8Array {
+    if (signature.v < 0 || signature.v > 2 ** 8 - 1 || signature.v % 1 !== 0) {
+      throw Error(`Invalid signature v: ${signature.v}`);
+    }
+    const bytes = new Uint8Array(ENCODED_BYTES);
+    bytes[0] = signature.v;
+    ByteUtils.writeHex(bytes, 1, signature.r, 32);
+    ByteUtils.writeHex(bytes, 33, signature.s, 32);
+    return bytes;
   }
 
   /**
@@ -27,48 +46,85 @@ export namespace ECDSASignature {
    * @returns
    */
   export function decode(encodedSignature: string): IECDSASignature {
-    const encodedSignatureInternal = (
-      encodedSignature.startsWith("0x") ? encodedSignature.slice(2) : encodedSignature
-    ).toLowerCase();
-    if (!/^[0-9a-f]*$/.test(encodedSignatureInternal)) {
-      throw Error(`Invalid format - not hex string: ${encodedSignature}`);
+    return decodeBytes(ByteUtils.hexToBytes(encodedSignature, CODEC));
+  }
+
+  /**
+   * Decodes ECDSA signature from byte encoding.
+   * @param encodedSignature
+   * @returns
+   */
+  export function decodeBytes(encodedSignature: Uint8Array): IECDSASignature {
+    if (encodedSignature.length !== ENCODED_BYTES) {
+      throw new ProtocolDecodeError(CODEC, "signature", 0, "Invalid encoded signature length", ENCODED_BYTES, encodedSignature.length);
+    }
+    return {
+      v: encodedSignature[0],
+      r: ByteUtils.bytesToHex(encodedSignature, 1, 33),
+      s: ByteUtils.bytesToHex(encodedSignature, 33, 65),
+    };
+  }
+
+  /**
+   * Encodes ECDSA signature into compact EIP-2098 byte encoding (r, followed by s with y parity in the top bit).
+   * Only signatures with v = 27 or 28 and low s (as produced by standard signers) can be compactly encoded.
+   * @param signature
+   * @returns
+   */
+  export function encodeCompactBytes(signature: IECDSASignature): Uint8Array {
+    if (signature.v !== 27 && signature.v !== 28) {
+      throw Error(`Invalid signature v for compact encoding: ${signature.v}`);
+    }
+    const bytes = new Uint8Array(COMPACT_ENCODED_BYTES);
+    ByteUtils.writeHex(bytes, 0, signature.r, 32);
+    ByteUtils.writeHex(bytes, 32, signature.s, 32);
+    if (bytes[32] & 0x80) {
+      throw Error(`Invalid signature s for compact encoding (high s): ${signature.s}`);
     }
-    if (encodedSignatureInternal.length !== 130) {
-      // (1 + 32 + 32) * 2 = 134
-      throw Error(`Invalid encoded signature length: ${encodedSignatureInternal.length}`);
+    if (signature.v === 28) {
+      bytes[32] |= 0x80;
     }
-    const v = parseInt(encodedSignatureInternal.slice(0, 2), 16);
-    const r = "0x" + encodedSignatureInternal.slice(2, 66);
-    const s = "0x" + encodedSignatureInternal.slice(66, 130);
+    return bytes;
+  }
+
+  /**
+   * Decodes ECDSA signature from compact EIP-2098 byte encoding.
+   * @param encodedSignature
+   * @returns
+   */
+  export function decodeCompactBytes(encodedSignature: Uint8Array): IECDSASignature {
+    if (encodedSignature.length !== COMPACT_ENCODED_BYTES) {
+      throw new ProtocolDecodeError(
+        CODEC,
+        "signature",
+        0,
+        "Invalid encoded compact signature length",
+        COMPACT_ENCODED_BYTES,
+        encodedSignature.length
+      );
+    }
+    const v = encodedSignature[32] & 0x80 ? 28 : 27;
+    // Buffer.slice returns a view, so mask a copy to keep the input intact
+    const s = new Uint8Array(encodedSignature.subarray(32));
+    s[0] &= 0x7f;
     return {
       v,
-      r,
-      s,
+      r: ByteUtils.bytesToHex(encodedSignature, 0, 32),
+      s: ByteUtils.bytesToHex(s),
     };
   }
 
-
   /**
-   * Signs message hash with ECDSA using private key
+   * Signs message hash with ECDSA using the signer (or private key)
    * @param messageHash 
-   * @param privateKey 
-   * @param index 
+   * @param signer 
    * @returns 
    */
   export async function signMessageHash(
     messageHash: string,
-    privateKey: string,
+    signer: string | ISigner,
   ): Promise<IECDSASignature> {
-    if (!/^0x[0-9a-f]{64}$/i.test(messageHash)) {
-      throw Error(`Invalid message hash format: ${messageHash}`);
-    }
-    const web3 = new Web3();
-    let signatureObject = web3.eth.accounts.sign(messageHash, privateKey);
-    return {
-      v: parseInt(signatureObject.v.slice(2), 16),
-      r: signatureObject.r,
-      s: signatureObject.s
-    } as IECDSASignature;
+    return Signer.from(signer).signHash(messageHash);
   }
 
   /**
@@ -81,4 +137,25 @@ export namespace ECDSASignature {
     return web3.eth.accounts.recover(messageHash, "0x" + signature.v.toString(16), signature.r, signature.s).toLowerCase();
   }
 
+  /**
+   * Converts ECDSA signature into canonical JSON object (see @see ProtocolJSON).
+   * @param signature
+   * @returns
+   */
+  export function toJSON(signature: IECDSASignature): IECDSASignature {
+    return ProtocolJSON.validate("ECDSASignature", {
+      r: ProtocolJSON.hex(signature.r),
+      s: ProtocolJSON.hex(signature.s),
+      v: signature.v,
+    });
+  }
+
+  /**
+   * Validates JSON string or object and converts it into ECDSA signature in canonical form.
+   * @param json
+   * @returns
+   */
+  export function fromJSON(json: string | object): IECDSASignature {
+    return toJSON(ProtocolJSON.validate("ECDSASignature", json));
+  }
 }
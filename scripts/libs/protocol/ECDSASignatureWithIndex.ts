@@ -1,4 +1,8 @@
 import Web3 from "web3";
+import { ByteUtils } from "./ByteUtils";
+import { ProtocolDecodeError } from "./ProtocolDecodeError";
+import { ISigner, Signer } from "./Signer";
+import { ProtocolJSON } from "./ProtocolJSON";
 
 export interface IECDSASignatureWithIndex {
   r: string;
@@ -9,6 +13,7 @@ export interface IECDSASignatureWithIndex {
 
 const web3 = new Web3();
 export namespace ECDSASignatureWithIndex {
+  const CODEC = "ECDSASignatureWithIndex";
   //////////////////////////////////////////////////////////////////////////////
   // Signature with index structure
   // 1 byte - v
@@ -17,19 +22,45 @@ export namespace ECDSASignatureWithIndex {
   // 2 byte - index in signing policy
   // Total 67 bytes
   //////////////////////////////////////////////////////////////////////////////
+  export const ENCODED_BYTES = 67;
+
   /**
    * Encodes ECDSA signature with index into 0x-prefixed hex string representing byte encoding
    * @param signature
    * @returns
    */
   export function encode(signature: IECDSASignatureWithIndex): string {
-    return (
-      "0x" +
-      signature.v.toString(16).padStart(2, "0") +
-      signature.r.slice(2) +
-      signature.s.slice(2) +
-      signature.index.toString(16).padStart(4, "0")
-    );
+    return ByteUtils.bytesToHex(encodeBytes(signature));
+  }
+
+  /**
+   * Encodes ECDSA signature with index into byte encoding
+   * @param signature
+   * @returns
+   */
+  export function encodeBytes(signature: IECDSASignatureWithIndex): Uint8Array {
+    const bytes = new Uint8Array(ENCODED_BYTES);
+    writeBytes(signature, bytes, 0);
+    return bytes;
+  }
+
+  /**
+   * Writes byte encoding of ECDSA signature with index into byte array at given offset.
+   * @param signature
+   * @param bytes
+   * @param offset
+   */
+  function writeBytes(signature: IECDSASignatureWithIndex, bytes: Uint8Array, offset: number) {
+    if (signature.v < 0 || signature.v > 2 ** 8 - 1 || signature.v % 1 !== 0) {
+      throw Error(`Invalid signature v: ${signature.v}`);
+    }
+    if (signature.index < 0 || signature.index > 2 ** 16 - 1 || signature.index % 1 !== 0) {
+      throw Error(`Invalid signature index: ${signature.index}`);
+    }
+    bytes[offset] = signature.v;
+    ByteUtils.writeHex(bytes, offset + 1, signature.r, 32);
+    ByteUtils.writeHex(bytes, offset + 33, signature.s, 32);
+    ByteUtils.dataView(bytes).setUint16(offset + 65, signature.index);
   }
 
   /**
@@ -38,25 +69,23 @@ export namespace ECDSASignatureWithIndex {
    * @returns
    */
   export function decode(encodedSignature: string): IECDSASignatureWithIndex {
-    const encodedSignatureInternal = (
-      encodedSignature.startsWith("0x") ? encodedSignature.slice(2) : encodedSignature
-    ).toLowerCase();
-    if (!/^[0-9a-f]*$/.test(encodedSignatureInternal)) {
-      throw Error(`Invalid format - not hex string: ${encodedSignature}`);
-    }
-    if (encodedSignatureInternal.length !== 134) {
-      // (1 + 32 + 32 + 2) * 2 = 134
-      throw Error(`Invalid encoded signature length: ${encodedSignatureInternal.length}`);
+    return decodeBytes(ByteUtils.hexToBytes(encodedSignature, CODEC));
+  }
+
+  /**
+   * Decodes ECDSA signature with index from byte encoding.
+   * @param encodedSignature
+   * @returns
+   */
+  export function decodeBytes(encodedSignature: Uint8Array): IECDSASignatureWithIndex {
+    if (encodedSignature.length !== ENCODED_BYTES) {
+      throw new ProtocolDecodeError(CODEC, "signature", 0, "Invalid encoded signature length", ENCODED_BYTES, encodedSignature.length);
     }
-    const v = parseInt(encodedSignatureInternal.slice(0, 2), 16);
-    const r = "0x" + encodedSignatureInternal.slice(2, 66);
-    const s = "0x" + encodedSignatureInternal.slice(66, 130);
-    const index = parseInt(encodedSignatureInternal.slice(130, 134), 16);
     return {
-      v,
-      r,
-      s,
-      index,
+      v: encodedSignature[0],
+      r: ByteUtils.bytesToHex(encodedSignature, 1, 33),
+      s: ByteUtils.bytesToHex(encodedSignature, 33, 65),
+      index: ByteUtils.dataView(encodedSignature).getUint16(65),
     };
   }
 
@@ -67,11 +96,25 @@ export namespace ECDSASignatureWithIndex {
    * @returns 
    */
   export function encodeSignatureList(signatures: IECDSASignatureWithIndex[]): string {    
-    let encoded = "0x" + signatures.length.toString(16).padStart(4, "0");
-    for (const signature of signatures) {
-      encoded += encode(signature).slice(2);
+    return ByteUtils.bytesToHex(encodeSignatureListBytes(signatures));
+  }
+
+  /**
+   * Encodes list of signatures with indices into byte encoding.
+   * First 2 bytes are number of signatures
+   * @param signatures
+   * @returns
+   */
+  export function encodeSignatureListBytes(signatures: IECDSASignatureWithIndex[]): Uint8Array {
+    if (signatures.length > 2 ** 16 - 1) {
+      throw Error(`Too many signatures: ${signatures.length}`);
+    }
+    const bytes = new Uint8Array(2 + signatures.length * ENCODED_BYTES);
+    ByteUtils.dataView(bytes).setUint16(0, signatures.length);
+    for (let i = 0; i < signatures.length; i++) {
+      writeBytes(signatures[i], bytes, 2 + i * ENCODED_BYTES);
     }
-    return encoded;
+    return bytes;
   }
 
   /**
@@ -80,47 +123,62 @@ export namespace ECDSASignatureWithIndex {
    * @returns 
    */
   export function decodeSignatureList(encoded: string): IECDSASignatureWithIndex[] {
-    const encodedInternal = encoded.startsWith("0x") ? encoded.slice(2) : encoded;
-    if(!/^[0-9a-f]*$/.test(encodedInternal)) {
-      throw Error(`Invalid format - not hex string: ${encoded}`);
-    }
-    if(encodedInternal.length < 4) {
-      throw Error(`Invalid encoded signature list length: ${encodedInternal.length}`);
+    return decodeSignatureListBytes(ByteUtils.hexToBytes(encoded, CODEC));
+  }
+
+  /**
+   * Decodes list of signatures with indices from byte encoding.
+   * @param encoded
+   * @returns
+   */
+  export function decodeSignatureListBytes(encoded: Uint8Array): IECDSASignatureWithIndex[] {
+    if(encoded.length < 2) {
+      throw new ProtocolDecodeError(CODEC, "count", 0, "Invalid encoded signature list length", 2, encoded.length);
     }
-    const count = parseInt(encodedInternal.slice(0, 4), 16);
-    if(encodedInternal.length !== 4 + count * 134) {
-      throw Error(`Invalid encoded signature list length: ${encodedInternal.length}`);
+    const count = ByteUtils.dataView(encoded).getUint16(0);
+    if(encoded.length !== 2 + count * ENCODED_BYTES) {
+      throw new ProtocolDecodeError(
+        CODEC,
+        "signatures",
+        2,
+        `Invalid encoded signature list length for ${count} signatures`,
+        count * ENCODED_BYTES,
+        encoded.length - 2
+      );
     }
+    // one native hex conversion and slicing is much faster than converting each signature separately
+    const encodedHex = ByteUtils.bytesToHex(encoded);
+    const view = ByteUtils.dataView(encoded);
     let signatures: IECDSASignatureWithIndex[] = [];
     for (let i = 0; i < count; i++) {
-      const signature = decode("0x" + encodedInternal.slice(4 + i * 134, 4 + (i + 1) * 134));
-      signatures.push(signature);
+      const start = 2 + i * ENCODED_BYTES;
+      const hexStart = 2 + start * 2;
+      signatures.push({
+        v: encoded[start],
+        r: "0x" + encodedHex.slice(hexStart + 2, hexStart + 66),
+        s: "0x" + encodedHex.slice(hexStart + 66, hexStart + 130),
+        index: view.getUint16(start + 65),
+      });
     }
     return signatures;
   }
 
   /**
-   * Signs message hash with ECDSA using private key
+   * Signs message hash with ECDSA using the signer (or private key)
    * @param messageHash 
-   * @param privateKey 
+   * @param signer 
    * @param index 
    * @returns 
    */
   export async function signMessageHash(
     messageHash: string,
-    privateKey: string,
+    signer: string | ISigner,
     index: number
   ): Promise<IECDSASignatureWithIndex> {
-    if (!/^0x[0-9a-f]{64}$/i.test(messageHash)) {
-      throw Error(`Invalid message hash format: ${messageHash}`);
-    }
-    let signatureObject = web3.eth.accounts.sign(messageHash, privateKey);
     return {
-      v: parseInt(signatureObject.v.slice(2), 16),
-      r: signatureObject.r,
-      s: signatureObject.s,
+      ...(await Signer.from(signer).signHash(messageHash)),
       index,
-    } as IECDSASignatureWithIndex;
+    };
   }
 
   /**
@@ -143,4 +201,26 @@ export namespace ECDSASignatureWithIndex {
     return a.v === b.v && a.r === b.r && a.s === b.s && a.index === b.index;
   }
 
+  /**
+   * Converts ECDSA signature with index into canonical JSON object (see @see ProtocolJSON).
+   * @param signature
+   * @returns
+   */
+  export function toJSON(signature: IECDSASignatureWithIndex): IECDSASignatureWithIndex {
+    return ProtocolJSON.validate("ECDSASignatureWithIndex", {
+      r: ProtocolJSON.hex(signature.r),
+      s: ProtocolJSON.hex(signature.s),
+      v: signature.v,
+      index: signature.index,
+    });
+  }
+
+  /**
+   * Validates JSON string or object and converts it into ECDSA signature with index in canonical form.
+   * @param json
+   * @returns
+   */
+  export function fromJSON(json: string | object): IECDSASignatureWithIndex {
+    return toJSON(ProtocolJSON.validate("ECDSASignatureWithIndex", json));
+  }
 }
@@ -0,0 +1,305 @@
+import { ethers } from "ethers";
+import { ByteUtils } from "./ByteUtils";
+import { IPayloadMessage, PayloadMessage } from "./PayloadMessage";
+import { ProtocolDecodeError } from "./ProtocolDecodeError";
+
+export interface IFtsoCommit {
+  commitHash: string;
+}
+
+export interface IFtsoReveal {
+  random: string;
+  feedValues: number[];
+}
+
+export namespace FtsoCommitReveal {
+  const COMMIT_CODEC = "FtsoCommit";
+  const REVEAL_CODEC = "FtsoReveal";
+  const SUBMIT1_CODEC = "Submit1Calldata";
+  const SUBMIT2_CODEC = "Submit2Calldata";
+
+  export const SUBMIT1_SELECTOR = ethers.id("submit1()").slice(0, 10);
+  export const SUBMIT2_SELECTOR = ethers.id("submit2()").slice(0, 10);
+
+  //////////////////////////////////////////////////////////////////////////////
+  // Commit (payload of submit1)
+  // 32 bytes - commit hash
+  //
+  // Reveal (payload of submit2)
+  // 32 bytes - random
+  // array of feed values, in the order of feeds in the reward epoch:
+  // - 4 bytes - int32 feed value
+  // Total 32 + feedValues.length * 4 bytes
+  //////////////////////////////////////////////////////////////////////////////
+  export const COMMIT_BYTES = 32;
+  export const RANDOM_BYTES = 32;
+  export const FEED_VALUE_BYTES = 4;
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+
+  /**
+   * Encodes feed values into packed byte encoding of int32 values.
+   * @param feedValues
+   * @returns
+   */
+  export function encodeFeedValuesBytes(feedValues: number[]): Uint8Array {
+    const bytes = new Uint8Array(feedValues.length * FEED_VALUE_BYTES);
+    const view = ByteUtils.dataView(bytes);
+    for (let i = 0; i < feedValues.length; i++) {
+      const value = feedValues[i];
+      if (value < -(2 ** 31) || value > 2 ** 31 - 1 || value % 1 !== 0) {
+        throw Error(`Feed value out of range: ${value}`);
+      }
+      view.setInt32(i * FEED_VALUE_BYTES, value);
+    }
+    return bytes;
+  }
+
+  /**
+   * Calculates the commit hash, as keccak256(abi.encode(voter, votingRoundId, random, feedValues)),
+   * where feedValues are packed int32 values.
+   * @param voter submit address of the voter
+   * @param votingRoundId
+   * @param random
+   * @param feedValues
+   * @returns
+   */
+  export function commitHash(voter: string, votingRoundId: number, random: string, feedValues: number[]): string {
+    if (!/^0x[0-9a-f]{40}$/i.test(voter)) {
+      throw Error(`Invalid voter address format: ${voter}`);
+    }
+    if (votingRoundId < 0 || votingRoundId > 2 ** 32 - 1 || votingRoundId % 1 !== 0) {
+      throw Error(`Voting round id out of range: ${votingRoundId}`);
+    }
+    if (!/^0x[0-9a-f]{64}$/i.test(random)) {
+      throw Error(`Invalid random format: ${random}`);
+    }
+    return ethers.keccak256(
+      coder.encode(
+        ["address", "uint32", "bytes32", "bytes"],
+        [voter.toLowerCase(), votingRoundId, random, encodeFeedValuesBytes(feedValues)]
+      )
+    );
+  }
+
+  /**
+   * Encodes commit into 0x-prefixed hex string representing byte encoding
+   * @param commit
+   * @returns
+   */
+  export function encodeCommit(commit: IFtsoCommit): string {
+    return ByteUtils.bytesToHex(encodeCommitBytes(commit));
+  }
+
+  /**
+   * Encodes commit into byte encoding.
+   * @param commit
+   * @returns
+   */
+  export function encodeCommitBytes(commit: IFtsoCommit): Uint8Array {
+    const bytes = new Uint8Array(COMMIT_BYTES);
+    ByteUtils.writeHex(bytes, 0, commit.commitHash, COMMIT_BYTES);
+    return bytes;
+  }
+
+  /**
+   * Decodes commit from hex string (can be 0x-prefixed or not).
+   * @param encodedCommit
+   * @returns
+   */
+  export function decodeCommit(encodedCommit: string): IFtsoCommit {
+    return decodeCommitBytes(ByteUtils.hexToBytes(encodedCommit, COMMIT_CODEC));
+  }
+
+  /**
+   * Decodes commit from byte encoding.
+   * @param encodedCommit
+   * @returns
+   */
+  export function decodeCommitBytes(encodedCommit: Uint8Array): IFtsoCommit {
+    if (encodedCommit.length !== COMMIT_BYTES) {
+      throw new ProtocolDecodeError(COMMIT_CODEC, "commitHash", 0, "Invalid encoded commit length", COMMIT_BYTES, encodedCommit.length);
+    }
+    return {
+      commitHash: ByteUtils.bytesToHex(encodedCommit),
+    };
+  }
+
+  /**
+   * Encodes reveal into 0x-prefixed hex string representing byte encoding
+   * @param reveal
+   * @returns
+   */
+  export function encodeReveal(reveal: IFtsoReveal): string {
+    return ByteUtils.bytesToHex(encodeRevealBytes(reveal));
+  }
+
+  /**
+   * Encodes reveal into byte encoding.
+   * @param reveal
+   * @returns
+   */
+  export function encodeRevealBytes(reveal: IFtsoReveal): Uint8Array {
+    if (!/^0x[0-9a-f]{64}$/i.test(reveal.random)) {
+      throw Error(`Invalid random format: ${reveal.random}`);
+    }
+    const bytes = new Uint8Array(RANDOM_BYTES + reveal.feedValues.length * FEED_VALUE_BYTES);
+    ByteUtils.writeHex(bytes, 0, reveal.random, RANDOM_BYTES);
+    bytes.set(encodeFeedValuesBytes(reveal.feedValues), RANDOM_BYTES);
+    return bytes;
+  }
+
+  /**
+   * Decodes reveal from hex string (can be 0x-prefixed or not).
+   * @param encodedReveal
+   * @returns
+   */
+  export function decodeReveal(encodedReveal: string): IFtsoReveal {
+    return decodeRevealBytes(ByteUtils.hexToBytes(encodedReveal, REVEAL_CODEC));
+  }
+
+  /**
+   * Decodes reveal from byte encoding.
+   * @param encodedReveal
+   * @returns
+   */
+  export function decodeRevealBytes(encodedReveal: Uint8Array): IFtsoReveal {
+    if (encodedReveal.length < RANDOM_BYTES) {
+      throw new ProtocolDecodeError(REVEAL_CODEC, "random", 0, "Invalid encoded reveal length", RANDOM_BYTES, encodedReveal.length);
+    }
+    const feedValuesLength = encodedReveal.length - RANDOM_BYTES;
+    if (feedValuesLength % FEED_VALUE_BYTES !== 0) {
+      throw new ProtocolDecodeError(
+        REVEAL_CODEC,
+        "feedValues",
+        RANDOM_BYTES,
+        "Invalid encoded feed values length",
+        feedValuesLength - (feedValuesLength % FEED_VALUE_BYTES),
+        feedValuesLength
+      );
+    }
+    const view = ByteUtils.dataView(encodedReveal);
+    const feedValues: number[] = [];
+    for (let i = RANDOM_BYTES; i < encodedReveal.length; i += FEED_VALUE_BYTES) {
+      feedValues.push(view.getInt32(i));
+    }
+    return {
+      random: ByteUtils.bytesToHex(encodedReveal, 0, RANDOM_BYTES),
+      feedValues,
+    };
+  }
+
+  /**
+   * Checks whether the reveal matches the commit of the voter in the voting round.
+   * @param commit
+   * @param voter submit address of the voter
+   * @param votingRoundId
+   * @param reveal
+   * @returns
+   */
+  export function verifyReveal(commit: IFtsoCommit, voter: string, votingRoundId: number, reveal: IFtsoReveal): boolean {
+    return commit.commitHash.toLowerCase() === commitHash(voter, votingRoundId, reveal.random, reveal.feedValues);
+  }
+
+  /**
+   * Encodes commit of the voter wrapped in payload message, ready to be concatenated into submit1 calldata.
+   * @param protocolId FTSO protocol id
+   * @param votingRoundId
+   * @param voter submit address of the voter
+   * @param reveal data to be revealed in the next voting round
+   * @returns
+   */
+  export function encodeCommitPayload(protocolId: number, votingRoundId: number, voter: string, reveal: IFtsoReveal): string {
+    return PayloadMessage.encode({
+      protocolId,
+      votingRoundId,
+      payload: encodeCommit({ commitHash: commitHash(voter, votingRoundId, reveal.random, reveal.feedValues) }),
+    });
+  }
+
+  /**
+   * Encodes reveal wrapped in payload message, ready to be concatenated into submit2 calldata.
+   * @param protocolId FTSO protocol id
+   * @param votingRoundId voting round id of the commit
+   * @param reveal
+   * @returns
+   */
+  export function encodeRevealPayload(protocolId: number, votingRoundId: number, reveal: IFtsoReveal): string {
+    return PayloadMessage.encode({
+      protocolId,
+      votingRoundId,
+      payload: encodeReveal(reveal),
+    });
+  }
+
+  /**
+   * Encodes submit1 calldata from encoded payload messages (of possibly several protocols).
+   * @param payloadMessages
+   * @returns
+   */
+  export function encodeSubmit1Calldata(payloadMessages: string[]): string {
+    return SUBMIT1_SELECTOR + PayloadMessage.concatenateHexStrings(payloadMessages).slice(2);
+  }
+
+  /**
+   * Encodes submit2 calldata from encoded payload messages (of possibly several protocols).
+   * @param payloadMessages
+   * @returns
+   */
+  export function encodeSubmit2Calldata(payloadMessages: string[]): string {
+    return SUBMIT2_SELECTOR + PayloadMessage.concatenateHexStrings(payloadMessages).slice(2);
+  }
+
+  /**
+   * Decodes FTSO commits from submit1 calldata (e.g. transaction input from indexer).
+   * Payloads of other protocols are ignored.
+   * @param calldata
+   * @param protocolId FTSO protocol id
+   * @returns
+   */
+  export function decodeCommitCalldata(calldata: string, protocolId: number): IPayloadMessage<IFtsoCommit>[] {
+    return decodeCalldataBytes(ByteUtils.hexToBytes(calldata, SUBMIT1_CODEC), SUBMIT1_SELECTOR, SUBMIT1_CODEC, protocolId, decodeCommitBytes);
+  }
+
+  /**
+   * Decodes FTSO reveals from submit2 calldata (e.g. transaction input from indexer).
+   * Payloads of other protocols are ignored.
+   * @param calldata
+   * @param protocolId FTSO protocol id
+   * @returns
+   */
+  export function decodeRevealCalldata(calldata: string, protocolId: number): IPayloadMessage<IFtsoReveal>[] {
+    return decodeCalldataBytes(ByteUtils.hexToBytes(calldata, SUBMIT2_CODEC), SUBMIT2_SELECTOR, SUBMIT2_CODEC, protocolId, decodeRevealBytes);
+  }
+
+  function decodeCalldataBytes<T>(
+    calldata: Uint8Array,
+    selector: string,
+    codec: string,
+    protocolId: number,
+    decodePayload: (payload: Uint8Array) => T
+  ): IPayloadMessage<T>[] {
+    if (calldata.length < 4) {
+      throw new ProtocolDecodeError(codec, "selector", 0, "Invalid format - too short", 4, calldata.length);
+    }
+    if (ByteUtils.bytesToHex(calldata, 0, 4) !== selector) {
+      throw new ProtocolDecodeError(codec, "selector", 0, `Invalid function selector, expected ${selector}`);
+    }
+    const records = ProtocolDecodeError.nested(codec, "payloads", 4, () => PayloadMessage.decodeBytes(calldata.subarray(4)));
+    const result: IPayloadMessage<T>[] = [];
+    for (let i = 0; i < records.length; i++) {
+      const record = records[i];
+      if (record.protocolId !== protocolId) {
+        continue;
+      }
+      // payloads are views into calldata
+      const offset = record.payload.byteOffset - calldata.byteOffset;
+      result.push({
+        protocolId: record.protocolId,
+        votingRoundId: record.votingRoundId,
+        payload: ProtocolDecodeError.nested(codec, `payloads[${i}]`, offset, () => decodePayload(record.payload)),
+      });
+    }
+    return result;
+  }
+}
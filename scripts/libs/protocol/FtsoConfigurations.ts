@@ -1,9 +1,37 @@
+import { ProtocolDecodeError } from "./ProtocolDecodeError";
+
 export interface IFeedId {
   category: number;
   name: string;
 }
 
 export namespace FtsoConfigurations {
+  const CODEC = "FtsoConfigurations";
+
+  /**
+   * Checks that the hex string (without 0x prefix) is a sequence of items of the given byte length.
+   * Throws ProtocolDecodeError otherwise.
+   * @param field
+   * @param encodedInternal
+   * @param itemBytes
+   */
+  function checkEncodedList(field: string, encodedInternal: string, itemBytes: number) {
+    const invalidCharPosition = encodedInternal.search(/[^0-9a-f]/);
+    if (invalidCharPosition >= 0) {
+      throw new ProtocolDecodeError(CODEC, field, Math.floor(invalidCharPosition / 2), "Invalid format - not hex string");
+    }
+    if (encodedInternal.length % (itemBytes * 2) != 0) {
+      const lastItemStart = Math.floor(encodedInternal.length / (itemBytes * 2)) * itemBytes;
+      throw new ProtocolDecodeError(
+        CODEC,
+        field,
+        lastItemStart,
+        "Invalid format - wrong length",
+        itemBytes,
+        Math.floor(encodedInternal.length / 2) - lastItemStart
+      );
+    }
+  }
 
   /**
    * Encodes feed id into byte encoding, represented by 0x-prefixed hex string
@@ -42,12 +70,7 @@ export namespace FtsoConfigurations {
     const encodedFeedIdsInternal = encodedFeedIds.startsWith("0x")
       ? encodedFeedIds.slice(2)
       : encodedFeedIds;
-    if (!/^[0-9a-f]*$/.test(encodedFeedIdsInternal)) {
-      throw Error(`Invalid format - not hex string: ${encodedFeedIds}`);
-    }
-    if (encodedFeedIdsInternal.length % 42 != 0) {
-      throw Error(`Invalid format - wrong length: ${encodedFeedIds}`);
-    }
+    checkEncodedList("feedIds", encodedFeedIdsInternal, 21);
     const result: IFeedId[] = [];
     for (let i = 0; i < encodedFeedIdsInternal.length / 42; i++) {
       let category = parseInt(encodedFeedIdsInternal.slice(i * 42, i * 42 + 2), 16);
@@ -85,17 +108,12 @@ export namespace FtsoConfigurations {
     const encodedSecondaryBandWidthPPMsInternal = encodedSecondaryBandWidthPPMs.startsWith("0x")
       ? encodedSecondaryBandWidthPPMs.slice(2)
       : encodedSecondaryBandWidthPPMs;
-    if (!/^[0-9a-f]*$/.test(encodedSecondaryBandWidthPPMsInternal)) {
-      throw Error(`Invalid format - not hex string: ${encodedSecondaryBandWidthPPMs}`);
-    }
-    if (encodedSecondaryBandWidthPPMsInternal.length % 6 != 0) {
-      throw Error(`Invalid format - wrong length: ${encodedSecondaryBandWidthPPMs}`);
-    }
+    checkEncodedList("secondaryBandWidthPPMs", encodedSecondaryBandWidthPPMsInternal, 3);
     const result: number[] = [];
     for (let i = 0; i < encodedSecondaryBandWidthPPMsInternal.length / 6; i++) {
       const value = parseInt(encodedSecondaryBandWidthPPMsInternal.slice(i * 6, (i + 1) * 6), 16);
       if (value < 0 || value > 1000000) {
-        throw Error(`Invalid secondary band width PPM: ${value}`);
+        throw new ProtocolDecodeError(CODEC, `secondaryBandWidthPPMs[${i}]`, i * 3, `Invalid secondary band width PPM: ${value}`);
       }
       result[i] = value;
     }
@@ -131,12 +149,7 @@ export namespace FtsoConfigurations {
     const encodedDecimalsInternal = encodedDecimals.startsWith("0x")
       ? encodedDecimals.slice(2)
       : encodedDecimals;
-    if (!/^[0-9a-f]*$/.test(encodedDecimalsInternal)) {
-      throw Error(`Invalid format - not hex string: ${encodedDecimals}`);
-    }
-    if (encodedDecimalsInternal.length % 2 != 0) {
-      throw Error(`Invalid format - wrong length: ${encodedDecimals}`);
-    }
+    checkEncodedList("decimals", encodedDecimalsInternal, 1);
     const result: number[] = [];
     for (let i = 0; i < encodedDecimalsInternal.length / 2; i++) {
       let value = parseInt(encodedDecimalsInternal.slice(i * 2, (i + 1) * 2), 16);
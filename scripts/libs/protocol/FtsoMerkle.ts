@@ -0,0 +1,246 @@
+import { ethers } from "ethers";
+import { ByteUtils } from "./ByteUtils";
+import { MerkleTree, verifyWithMerkleProof } from "./MerkleTree";
+import { ProtocolDecodeError } from "./ProtocolDecodeError";
+import { IRelayMessage } from "./RelayMessage";
+
+export interface IFeed {
+  votingRoundId: number;
+  id: string; // bytes21, see FtsoConfigurations.encodeFeedId
+  value: number;
+  turnoutBIPS: number;
+  decimals: number;
+}
+
+export interface IFeedWithProof {
+  merkleProof: string[];
+  body: IFeed;
+}
+
+export interface IRandom {
+  votingRoundId: number;
+  value: bigint;
+  isSecure: boolean;
+}
+
+export interface IFtsoMerkleData {
+  merkleRoot: string;
+  tree: MerkleTree;
+  random: IRandom;
+  feeds: IFeed[];
+  feedsWithProofs: IFeedWithProof[];
+}
+
+export namespace FtsoMerkle {
+  // Layouts of IFtsoFeedPublisher.Feed and IFtsoFeedPublisher.Random as exposed by FtsoMerkleStructs
+  export const FEED_ABI = "tuple(uint32 votingRoundId, bytes21 id, int32 value, uint16 turnoutBIPS, int8 decimals)";
+  export const RANDOM_ABI = "tuple(uint32 votingRoundId, uint256 value, bool isSecure)";
+
+  const FEED_CODEC = "FtsoMerkle.Feed";
+  const RANDOM_CODEC = "FtsoMerkle.Random";
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+
+  /**
+   * ABI encodes feed into 0x-prefixed hex string, as done by abi.encode(feed) in FtsoFeedPublisher.sol
+   * @param feed
+   * @returns
+   */
+  export function encodeFeed(feed: IFeed): string {
+    if (!feed) {
+      throw Error("Feed is undefined");
+    }
+    if (feed.votingRoundId < 0 || feed.votingRoundId > 2 ** 32 - 1 || feed.votingRoundId % 1 !== 0) {
+      throw Error(`Voting round id out of range: ${feed.votingRoundId}`);
+    }
+    if (!/^0x[0-9a-f]{42}$/i.test(feed.id)) {
+      throw Error(`Invalid feed id format: ${feed.id}`);
+    }
+    if (feed.value < -(2 ** 31) || feed.value > 2 ** 31 - 1 || feed.value % 1 !== 0) {
+      throw Error(`Feed value out of range: ${feed.value}`);
+    }
+    if (feed.turnoutBIPS < 0 || feed.turnoutBIPS > 2 ** 16 - 1 || feed.turnoutBIPS % 1 !== 0) {
+      throw Error(`Turnout BIPS out of range: ${feed.turnoutBIPS}`);
+    }
+    if (feed.decimals < -(2 ** 7) || feed.decimals > 2 ** 7 - 1 || feed.decimals % 1 !== 0) {
+      throw Error(`Decimals out of range: ${feed.decimals}`);
+    }
+    return coder.encode(
+      [FEED_ABI],
+      [[feed.votingRoundId, feed.id.toLowerCase(), feed.value, feed.turnoutBIPS, feed.decimals]]
+    );
+  }
+
+  /**
+   * Decodes ABI encoded feed from 0x-prefixed hex string.
+   * @param encodedFeed
+   * @returns
+   */
+  export function decodeFeed(encodedFeed: string): IFeed {
+    const encodedFeedBytes = ByteUtils.hexToBytes(encodedFeed, FEED_CODEC);
+    if (encodedFeedBytes.length !== 5 * 32) {
+      throw new ProtocolDecodeError(FEED_CODEC, "feed", 0, "Invalid encoded feed length", 5 * 32, encodedFeedBytes.length);
+    }
+    const [[votingRoundId, id, value, turnoutBIPS, decimals]] = coder.decode([FEED_ABI], encodedFeedBytes);
+    return {
+      votingRoundId: Number(votingRoundId),
+      id: (id as string).toLowerCase(),
+      value: Number(value),
+      turnoutBIPS: Number(turnoutBIPS),
+      decimals: Number(decimals),
+    };
+  }
+
+  /**
+   * ABI encodes random into 0x-prefixed hex string.
+   * @param random
+   * @returns
+   */
+  export function encodeRandom(random: IRandom): string {
+    if (!random) {
+      throw Error("Random is undefined");
+    }
+    if (random.votingRoundId < 0 || random.votingRoundId > 2 ** 32 - 1 || random.votingRoundId % 1 !== 0) {
+      throw Error(`Voting round id out of range: ${random.votingRoundId}`);
+    }
+    if (random.value < 0n || random.value > 2n ** 256n - 1n) {
+      throw Error(`Random value out of range: ${random.value}`);
+    }
+    return coder.encode([RANDOM_ABI], [[random.votingRoundId, random.value, random.isSecure]]);
+  }
+
+  /**
+   * Decodes ABI encoded random from 0x-prefixed hex string.
+   * @param encodedRandom
+   * @returns
+   */
+  export function decodeRandom(encodedRandom: string): IRandom {
+    const encodedRandomBytes = ByteUtils.hexToBytes(encodedRandom, RANDOM_CODEC);
+    if (encodedRandomBytes.length !== 3 * 32) {
+      throw new ProtocolDecodeError(RANDOM_CODEC, "random", 0, "Invalid encoded random length", 3 * 32, encodedRandomBytes.length);
+    }
+    const [[votingRoundId, value, isSecure]] = coder.decode([RANDOM_ABI], encodedRandomBytes);
+    return {
+      votingRoundId: Number(votingRoundId),
+      value: BigInt(value),
+      isSecure: Boolean(isSecure),
+    };
+  }
+
+  export function hashFeed(feed: IFeed): string {
+    return ethers.keccak256(encodeFeed(feed));
+  }
+
+  export function hashRandom(random: IRandom): string {
+    return ethers.keccak256(encodeRandom(random));
+  }
+
+  /**
+   * Builds the FTSO Merkle tree for a voting round. The leaves are the random and all the feeds.
+   * The root of the tree is the merkle root signed for FTSO protocol and relayed to Relay contract.
+   * The result also contains feeds with proofs, ready to be used in FtsoFeedPublisher.publish.
+   * @param random
+   * @param feeds
+   * @returns
+   */
+  export function buildTree(random: IRandom, feeds: IFeed[]): IFtsoMerkleData {
+    for (const feed of feeds) {
+      if (feed.votingRoundId !== random.votingRoundId) {
+        throw Error(`Feed voting round id ${feed.votingRoundId} does not match random voting round id ${random.votingRoundId}`);
+      }
+    }
+    const feedHashes = feeds.map(feed => hashFeed(feed));
+    const tree = new MerkleTree([hashRandom(random), ...feedHashes]);
+    const feedsWithProofs = feeds.map((feed, i) => {
+      return {
+        merkleProof: tree.getProofForHash(feedHashes[i])!,
+        body: feed,
+      } as IFeedWithProof;
+    });
+    return {
+      merkleRoot: tree.root!,
+      tree,
+      random,
+      feeds,
+      feedsWithProofs,
+    };
+  }
+
+  /**
+   * Verifies feed with proof against the merkle root.
+   * @param feedWithProof
+   * @param merkleRoot
+   * @returns
+   */
+  export function verifyFeed(feedWithProof: IFeedWithProof, merkleRoot: string): boolean {
+    return verifyWithMerkleProof(hashFeed(feedWithProof.body), feedWithProof.merkleProof, merkleRoot);
+  }
+
+  /**
+   * Verifies random against the merkle root using the provided proof.
+   * @param random
+   * @param merkleProof
+   * @param merkleRoot
+   * @returns
+   */
+  export function verifyRandom(random: IRandom, merkleProof: string[], merkleRoot: string): boolean {
+    return verifyWithMerkleProof(hashRandom(random), merkleProof, merkleRoot);
+  }
+
+  /**
+   * Extracts merkle root from (decoded) relay message and checks that it matches the FTSO protocol id
+   * and voting round id of the feed.
+   * @param relayMessage
+   * @param protocolId
+   * @param votingRoundId
+   * @returns
+   */
+  export function merkleRootFromRelayMessage(relayMessage: IRelayMessage, protocolId: number, votingRoundId: number): string {
+    const message = relayMessage.protocolMessageMerkleRoot;
+    if (!message) {
+      throw Error("Relay message does not contain protocol message merkle root");
+    }
+    if (message.protocolId !== protocolId) {
+      throw Error(`Protocol id mismatch: ${message.protocolId} vs. ${protocolId}`);
+    }
+    if (message.votingRoundId !== votingRoundId) {
+      throw Error(`Voting round id mismatch: ${message.votingRoundId} vs. ${votingRoundId}`);
+    }
+    return message.merkleRoot;
+  }
+
+  /**
+   * Verifies feed with proof against the merkle root in the relay message.
+   * @param feedWithProof
+   * @param relayMessage
+   * @param protocolId FTSO protocol id
+   * @returns
+   */
+  export function verifyFeedWithRelayMessage(
+    feedWithProof: IFeedWithProof,
+    relayMessage: IRelayMessage,
+    protocolId: number
+  ): boolean {
+    const merkleRoot = merkleRootFromRelayMessage(relayMessage, protocolId, feedWithProof.body.votingRoundId);
+    return verifyFeed(feedWithProof, merkleRoot);
+  }
+
+  /**
+   * Verifies feed with proof against the merkle root confirmed on Relay contract.
+   * @param feedWithProof
+   * @param getConfirmedMerkleRoot function that returns the result of Relay.getConfirmedMerkleRoot
+   * @param protocolId FTSO protocol id
+   * @returns
+   */
+  export async function verifyFeedWithRelay(
+    feedWithProof: IFeedWithProof,
+    getConfirmedMerkleRoot: (protocolId: number, votingRoundId: number) => Promise<string>,
+    protocolId: number
+  ): Promise<boolean> {
+    const merkleRoot = await getConfirmedMerkleRoot(protocolId, feedWithProof.body.votingRoundId);
+    if (!merkleRoot || /^0x0{64}$/.test(merkleRoot)) {
+      return false;
+    }
+    return verifyFeed(feedWithProof, merkleRoot);
+  }
+}
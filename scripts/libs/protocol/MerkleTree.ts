@@ -0,0 +1,145 @@
+import { ethers } from "ethers";
+
+/**
+ * Hashes a pair of 32-byte hashes in the order used by OpenZeppelin's MerkleProof library.
+ * The smaller hash (as hex string) is put first.
+ * @param a
+ * @param b
+ * @returns
+ */
+export function sortedHashPair(a: string, b: string): string {
+  if (a.toLowerCase() <= b.toLowerCase()) {
+    return ethers.keccak256("0x" + a.slice(2) + b.slice(2));
+  }
+  return ethers.keccak256("0x" + b.slice(2) + a.slice(2));
+}
+
+/**
+ * Verifies Merkle proof for a leaf hash against the Merkle root.
+ * Matches MerkleProof.verify(Calldata) from OpenZeppelin.
+ * @param leaf
+ * @param proof
+ * @param root
+ * @returns
+ */
+export function verifyWithMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  if (!leaf || !proof || !root) {
+    return false;
+  }
+  let hash = leaf;
+  for (const pair of proof) {
+    hash = sortedHashPair(pair, hash);
+  }
+  return hash.toLowerCase() === root.toLowerCase();
+}
+
+/**
+ * Merkle tree implementation compatible with OpenZeppelin's MerkleProof library.
+ * Leaves are 32-byte hashes, represented by 0x-prefixed hex strings. They are sorted and deduplicated
+ * before the tree is built. The tree is stored in an array, where the root is at position 0
+ * and the children of the node at position i are at positions 2i + 1 and 2i + 2.
+ * The leaves occupy the last n positions of the array.
+ */
+export class MerkleTree {
+  private _tree: string[] = [];
+
+  constructor(hashes: string[]) {
+    this.build(hashes);
+  }
+
+  /**
+   * Merkle root or undefined, if the tree is empty.
+   */
+  public get root(): string | undefined {
+    return this._tree.length === 0 ? undefined : this._tree[0];
+  }
+
+  /**
+   * Full tree as an array of hashes.
+   */
+  public get tree(): string[] {
+    return [...this._tree];
+  }
+
+  /**
+   * Number of (deduplicated) leaves in the tree.
+   */
+  public get hashCount(): number {
+    return this._tree.length === 0 ? 0 : (this._tree.length + 1) / 2;
+  }
+
+  /**
+   * Sorted and deduplicated leaves of the tree.
+   */
+  public get sortedHashes(): string[] {
+    return this._tree.slice(this.hashCount - 1);
+  }
+
+  /**
+   * Builds the tree from the given leaf hashes.
+   * @param hashes
+   */
+  private build(hashes: string[]) {
+    for (const hash of hashes) {
+      if (!/^0x[0-9a-f]{64}$/i.test(hash)) {
+        throw Error(`Invalid leaf hash format: ${hash}`);
+      }
+    }
+    const sorted = hashes.map(x => x.toLowerCase()).sort();
+    const leaves: string[] = [];
+    for (let i = 0; i < sorted.length; i++) {
+      if (i === 0 || sorted[i] !== sorted[i - 1]) {
+        leaves.push(sorted[i]);
+      }
+    }
+    const n = leaves.length;
+    this._tree = [...new Array<string>(Math.max(n - 1, 0)).fill(""), ...leaves];
+    for (let i = n - 2; i >= 0; i--) {
+      this._tree[i] = sortedHashPair(this._tree[2 * i + 1], this._tree[2 * i + 2]);
+    }
+  }
+
+  /**
+   * Returns the i-th leaf in the sorted list of leaves.
+   * @param i
+   * @returns
+   */
+  public getHash(i: number): string | undefined {
+    if (i < 0 || i >= this.hashCount) {
+      return undefined;
+    }
+    return this._tree[this._tree.length - this.hashCount + i];
+  }
+
+  /**
+   * Returns the Merkle proof for the i-th leaf in the sorted list of leaves.
+   * @param i
+   * @returns
+   */
+  public getProof(i: number): string[] | undefined {
+    if (i < 0 || i >= this.hashCount) {
+      return undefined;
+    }
+    const proof: string[] = [];
+    let pos = this._tree.length - this.hashCount + i;
+    while (pos > 0) {
+      // sibling is on the right for odd positions and on the left for even positions
+      proof.push(this._tree[pos % 2 === 1 ? pos + 1 : pos - 1]);
+      pos = Math.floor((pos - 1) / 2);
+    }
+    return proof;
+  }
+
+  /**
+   * Returns the Merkle proof for the given leaf hash or undefined, if the hash is not in the tree.
+   * @param hash
+   * @returns
+   */
+  public getProofForHash(hash: string): string[] | undefined {
+    const index = this.sortedHashes.indexOf(hash.toLowerCase());
+    if (index < 0) {
+      return undefined;
+    }
+    return this.getProof(index);
+  }
+}
@@ -1,3 +1,6 @@
+import { ByteUtils } from "./ByteUtils";
+import { ProtocolDecodeError } from "./ProtocolDecodeError";
+
 
 export interface IPayloadMessage<T> {
   protocolId: number;
@@ -5,7 +8,41 @@ export interface IPayloadMessage<T> {
   payload: T;
 }
 
+/**
+ * What the streaming decoder does on malformed data (see @see PayloadMessage.decodeStream).
+ */
+export enum PayloadMessageDecodePolicy {
+  // throw ProtocolDecodeError, as PayloadMessage.decodeBytes does
+  STRICT = "strict",
+  // report the warning and stop decoding
+  STOP = "stop",
+  // report the warning and continue from the first following offset, from which the rest of data decodes cleanly
+  RESYNC = "resync",
+}
+
+/**
+ * Malformed data found by the streaming decoder. Bytes in [offset, offset + skippedBytes) were not decoded.
+ */
+export interface IPayloadMessageDecodeWarning {
+  type: "trailing-bytes" | "length-overflow";
+  offset: number;
+  skippedBytes: number;
+  error: ProtocolDecodeError;
+}
+
+/**
+ * Item yielded by the streaming decoder: either a record starting at the offset or a warning.
+ */
+export interface IPayloadMessageStreamItem {
+  offset: number;
+  record?: IPayloadMessage<Uint8Array>;
+  warning?: IPayloadMessageDecodeWarning;
+}
+
 export namespace PayloadMessage {
+  const CODEC = "PayloadMessage";
+  export const HEADER_BYTES = 7; // 1 + 4 + 2
+
   /**
    * Encodes data in byte sequence that can be concatenated with other encoded data for use in submission functions in
    * Submission.sol contract
@@ -15,22 +52,43 @@ export namespace PayloadMessage {
    * @returns
    */
   export function encode(payloadMessage: IPayloadMessage<string>): string {
+    if (!/^0x[0-9a-f]*$/i.test(payloadMessage.payload)) {
+      throw Error(`Invalid payload format: ${payloadMessage.payload}`);
+    }
+    if (payloadMessage.payload.length % 2 !== 0) {
+      throw Error(`Invalid payload format - not even length: ${payloadMessage.payload}`);
+    }
+    return ByteUtils.bytesToHex(
+      encodeBytes({
+        protocolId: payloadMessage.protocolId,
+        votingRoundId: payloadMessage.votingRoundId,
+        payload: ByteUtils.hexToBytes(payloadMessage.payload),
+      })
+    );
+  }
+
+  /**
+   * Encodes data in byte sequence, represented by byte array. See @see encode.
+   * @param payloadMessage
+   * @returns
+   */
+  export function encodeBytes(payloadMessage: IPayloadMessage<Uint8Array>): Uint8Array {
     if (payloadMessage.protocolId < 0 || payloadMessage.protocolId > 2 ** 8 - 1) {
       throw Error(`Protocol id out of range: ${payloadMessage.protocolId}`);
     }
     if (payloadMessage.votingRoundId < 0 || payloadMessage.votingRoundId > 2 ** 32 - 1) {
       throw Error(`Voting round id out of range: ${payloadMessage.votingRoundId}`);
     }
-    if (!/^0x[0-9a-f]*$/i.test(payloadMessage.payload)) {
-      throw Error(`Invalid payload format: ${payloadMessage.payload}`);
+    if (payloadMessage.payload.length > 2 ** 16 - 1) {
+      throw Error(`Payload too long: ${payloadMessage.payload.length} bytes`);
     }
-    return (
-      "0x" +
-      payloadMessage.protocolId.toString(16).padStart(2, "0") +
-      payloadMessage.votingRoundId.toString(16).padStart(8, "0") +
-      (payloadMessage.payload.slice(2).length / 2).toString(16).padStart(4, "0") +
-      payloadMessage.payload.slice(2)
-    ).toLowerCase();
+    const bytes = new Uint8Array(HEADER_BYTES + payloadMessage.payload.length);
+    const view = ByteUtils.dataView(bytes);
+    view.setUint8(0, payloadMessage.protocolId);
+    view.setUint32(1, payloadMessage.votingRoundId);
+    view.setUint16(5, payloadMessage.payload.length);
+    bytes.set(payloadMessage.payload, HEADER_BYTES);
+    return bytes;
   }
 
   /**
@@ -39,33 +97,106 @@ export namespace PayloadMessage {
    * @returns
    */
   export function decode(message: string): IPayloadMessage<string>[] {
-    const messageInternal = message.startsWith("0x") ? message.slice(2) : message;
-    if (!/^[0-9a-f]*$/.test(messageInternal)) {
-      throw Error(`Invalid format - not hex string: ${message}`);
-    }
-    if (messageInternal.length % 2 !== 0) {
-      throw Error(`Invalid format - not even length: ${message.length}`);
-    }
+    return decodeBytes(ByteUtils.hexToBytes(message, CODEC)).map(payloadMessage => {
+      return {
+        protocolId: payloadMessage.protocolId,
+        votingRoundId: payloadMessage.votingRoundId,
+        payload: ByteUtils.bytesToHex(payloadMessage.payload),
+      };
+    });
+  }
+
+  /**
+   * Decodes data from concatenated byte sequence, represented by byte array.
+   * Payloads in the result are views into @param message and are not copied.
+   * @param message
+   * @returns
+   */
+  export function decodeBytes(message: Uint8Array): IPayloadMessage<Uint8Array>[] {
+    return Array.from(decodeStream(message, PayloadMessageDecodePolicy.STRICT), item => item.record!);
+  }
+
+  /**
+   * Decodes data from concatenated byte sequence one record at a time.
+   * Malformed data (trailing bytes shorter than the header or payload length exceeding the remaining data)
+   * is handled according to @param policy. Records before malformed data are always yielded.
+   * Payloads in the records are views into @param message and are not copied.
+   * @param message
+   * @param policy
+   * @returns
+   */
+  export function* decodeStream(
+    message: Uint8Array,
+    policy: PayloadMessageDecodePolicy = PayloadMessageDecodePolicy.STOP
+  ): Generator<IPayloadMessageStreamItem> {
+    const view = ByteUtils.dataView(message);
+    let decodesCleanly: boolean[] | undefined;
     let i = 0;
-    let result: IPayloadMessage<string>[] = [];
-    while (i < messageInternal.length) {
-      // 14 = 2 + 8 + 4
-      if (messageInternal.length - i < 14) {
-        throw Error(`Invalid format - too short. Error at ${i} of ${message.length}`);
+    while (i < message.length) {
+      let warning: IPayloadMessageDecodeWarning | undefined;
+      if (message.length - i < HEADER_BYTES) {
+        warning = {
+          type: "trailing-bytes",
+          offset: i,
+          skippedBytes: message.length - i,
+          error: new ProtocolDecodeError(CODEC, "header", i, "Invalid format - too short", HEADER_BYTES, message.length - i),
+        };
+      } else {
+        const payloadLength = view.getUint16(i + 5);
+        if (payloadLength + HEADER_BYTES > message.length - i) {
+          warning = {
+            type: "length-overflow",
+            offset: i,
+            skippedBytes: message.length - i,
+            error: new ProtocolDecodeError(
+              CODEC,
+              "payload",
+              i + HEADER_BYTES,
+              "Invalid format - too short",
+              payloadLength,
+              message.length - i - HEADER_BYTES
+            ),
+          };
+        } else {
+          yield {
+            offset: i,
+            record: {
+              protocolId: view.getUint8(i),
+              votingRoundId: view.getUint32(i + 1),
+              payload: message.subarray(i + HEADER_BYTES, i + HEADER_BYTES + payloadLength),
+            },
+          };
+          i += payloadLength + HEADER_BYTES;
+          continue;
+        }
       }
-      const protocolId = parseInt(messageInternal.slice(i, i + 2), 16);
-      const votingRoundId = parseInt(messageInternal.slice(i + 2, i + 10), 16);
-      const payloadLength = parseInt(messageInternal.slice(i + 10, i + 14), 16);
-      const payload = "0x" + messageInternal.slice(i + 14, i + 14 + payloadLength * 2);
-      if (payloadLength * 2 + 14 > messageInternal.length - i) {
-        throw Error(`Invalid format - too short: ${message.length}`);
+      if (policy === PayloadMessageDecodePolicy.STRICT) {
+        throw warning.error;
       }
-      i += payloadLength * 2 + 14;
-      result.push({
-        protocolId,
-        votingRoundId,
-        payload,
-      });
+      let next = message.length;
+      if (policy === PayloadMessageDecodePolicy.RESYNC) {
+        decodesCleanly ??= cleanDecodingOffsets(message);
+        next = i + 1;
+        while (next < message.length && !decodesCleanly[next]) {
+          next++;
+        }
+        warning.skippedBytes = next - i;
+      }
+      yield { offset: i, warning };
+      i = next;
+    }
+  }
+
+  /**
+   * Marks offsets from which the rest of the message decodes without errors.
+   */
+  function cleanDecodingOffsets(message: Uint8Array): boolean[] {
+    const view = ByteUtils.dataView(message);
+    const result = new Array<boolean>(message.length + 1).fill(false);
+    result[message.length] = true;
+    for (let i = message.length - HEADER_BYTES; i >= 0; i--) {
+      const next = i + HEADER_BYTES + view.getUint16(i + 5);
+      result[i] = next <= message.length && result[next];
     }
     return result;
   }
@@ -0,0 +1,75 @@
+/**
+ * Error thrown by protocol decoders on malformed input.
+ * It carries the codec name, the field being parsed, the byte offset of the field and, if relevant,
+ * the expected and actual length in bytes. The message is compact and never contains the whole input,
+ * so it can be safely logged for each rejected payload.
+ */
+export class ProtocolDecodeError extends Error {
+  constructor(
+    public readonly codec: string,
+    public readonly field: string,
+    public readonly offset: number,
+    public readonly reason: string,
+    public readonly expectedLength?: number,
+    public readonly actualLength?: number,
+    cause?: Error
+  ) {
+    super(ProtocolDecodeError.format(codec, field, offset, reason, expectedLength, actualLength), { cause });
+    this.name = "ProtocolDecodeError";
+  }
+
+  private static format(
+    codec: string,
+    field: string,
+    offset: number,
+    reason: string,
+    expectedLength?: number,
+    actualLength?: number
+  ): string {
+    const lengths =
+      expectedLength !== undefined || actualLength !== undefined
+        ? ` (expected ${expectedLength ?? "?"} bytes, got ${actualLength ?? "?"})`
+        : "";
+    return `${codec}.${field} at byte ${offset}: ${reason}${lengths}`;
+  }
+
+  /**
+   * Returns the error relative to the enclosing encoding, in which the decoded part starts at @param offset
+   * and represents the field @param field of the codec @param codec.
+   * @param codec
+   * @param field
+   * @param offset
+   * @returns
+   */
+  public nestedIn(codec: string, field: string, offset: number): ProtocolDecodeError {
+    return new ProtocolDecodeError(
+      codec,
+      `${field}.${this.field}`,
+      offset + this.offset,
+      this.reason,
+      this.expectedLength,
+      this.actualLength,
+      this
+    );
+  }
+
+  /**
+   * Runs decoding of an embedded part and translates decode errors relative to the enclosing encoding.
+   * See @see nestedIn.
+   * @param codec
+   * @param field
+   * @param offset
+   * @param decode
+   * @returns
+   */
+  public static nested<T>(codec: string, field: string, offset: number, decode: () => T): T {
+    try {
+      return decode();
+    } catch (e) {
+      if (e instanceof ProtocolDecodeError) {
+        throw e.nestedIn(codec, field, offset);
+      }
+      throw e;
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import Ajv from "ajv";
+import { IECDSASignature } from "./ECDSASignature";
+import { IECDSASignatureWithIndex } from "./ECDSASignatureWithIndex";
+import { IProtocolMessageMerkleRoot } from "./ProtocolMessageMerkleRoot";
+import { IRelayMessage } from "./RelayMessage";
+import { ISignaturePayload } from "./SignaturePayload";
+import { ISigningPolicy } from "./SigningPolicy";
+
+const HEX = { type: "string", pattern: "^0x([0-9a-fA-F]{2})*$" };
+const BYTES1 = { type: "string", pattern: "^0x[0-9a-fA-F]{2}$" };
+const BYTES32 = { type: "string", pattern: "^0x[0-9a-fA-F]{64}$" };
+const ADDRESS = { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" };
+
+function uint(bits: number) {
+  return { type: "integer", minimum: 0, maximum: 2 ** bits - 1 };
+}
+
+function object(properties: Record<string, object>, required: string[], extra: object = {}) {
+  return { type: "object", properties, required, additionalProperties: false, ...extra };
+}
+
+const PROTOCOL_MESSAGE_MERKLE_ROOT = object(
+  {
+    protocolId: uint(8),
+    votingRoundId: uint(32),
+    isSecureRandom: { type: "boolean" },
+    merkleRoot: BYTES32,
+  },
+  ["protocolId", "votingRoundId", "isSecureRandom", "merkleRoot"]
+);
+
+const SIGNING_POLICY = object(
+  {
+    rewardEpochId: uint(24),
+    startVotingRoundId: uint(32),
+    threshold: uint(16),
+    seed: BYTES32,
+    voters: { type: "array", items: ADDRESS, maxItems: 2 ** 16 - 1 },
+    weights: { type: "array", items: uint(16), maxItems: 2 ** 16 - 1 },
+  },
+  ["rewardEpochId", "startVotingRoundId", "threshold", "seed", "voters", "weights"]
+);
+
+const ECDSA_SIGNATURE_PROPERTIES = {
+  r: BYTES32,
+  s: BYTES32,
+  v: { type: "integer", enum: [27, 28] },
+};
+
+const ECDSA_SIGNATURE = object(ECDSA_SIGNATURE_PROPERTIES, ["r", "s", "v"]);
+
+const ECDSA_SIGNATURE_WITH_INDEX = object({ ...ECDSA_SIGNATURE_PROPERTIES, index: uint(16) }, ["r", "s", "v", "index"]);
+
+const RELAY_MESSAGE = object(
+  {
+    signingPolicy: SIGNING_POLICY,
+    protocolMessageMerkleRoot: PROTOCOL_MESSAGE_MERKLE_ROOT,
+    newSigningPolicy: SIGNING_POLICY,
+    signatures: { type: "array", items: ECDSA_SIGNATURE_WITH_INDEX },
+  },
+  ["signingPolicy", "signatures"],
+  { oneOf: [{ required: ["protocolMessageMerkleRoot"] }, { required: ["newSigningPolicy"] }] }
+);
+
+const SIGNATURE_PAYLOAD = object(
+  {
+    type: BYTES1,
+    message: PROTOCOL_MESSAGE_MERKLE_ROOT,
+    signature: ECDSA_SIGNATURE,
+    unsignedMessage: HEX,
+    signer: ADDRESS,
+    index: uint(16),
+    messageHash: BYTES32,
+    weight: uint(16),
+    timestamp: { type: "integer", minimum: 0 },
+  },
+  ["type", "signature", "unsignedMessage"],
+  { anyOf: [{ required: ["message"] }, { required: ["messageHash"] }] }
+);
+
+/**
+ * JSON schemas of the canonical JSON forms of protocol objects (see toJSON/fromJSON in the codecs).
+ * Canonical forms have fields in the order of the interfaces, lowercase hex strings and addresses,
+ * signature v as a number and no parsing metadata (e.g. encodedLength).
+ */
+export namespace ProtocolJSON {
+  /**
+   * Protocol object types by schema name.
+   */
+  export interface SchemaTypes {
+    ProtocolMessageMerkleRoot: IProtocolMessageMerkleRoot;
+    SigningPolicy: ISigningPolicy;
+    ECDSASignature: IECDSASignature;
+    ECDSASignatureWithIndex: IECDSASignatureWithIndex;
+    RelayMessage: IRelayMessage;
+    SignaturePayload: ISignaturePayload;
+  }
+
+  export type SchemaName = keyof SchemaTypes;
+
+  export const SCHEMAS: Record<SchemaName, object> = {
+    ProtocolMessageMerkleRoot: PROTOCOL_MESSAGE_MERKLE_ROOT,
+    SigningPolicy: SIGNING_POLICY,
+    ECDSASignature: ECDSA_SIGNATURE,
+    ECDSASignatureWithIndex: ECDSA_SIGNATURE_WITH_INDEX,
+    RelayMessage: RELAY_MESSAGE,
+    SignaturePayload: SIGNATURE_PAYLOAD,
+  };
+
+  const ajv = new Ajv({ allErrors: true });
+  const validators = new Map<SchemaName, Ajv.ValidateFunction>();
+
+  /**
+   * Parses (if needed) and validates JSON against the schema of the protocol object.
+   * @param name schema name
+   * @param json JSON string or already parsed object
+   * @returns parsed object of the protocol object type
+   */
+  export function validate<N extends SchemaName>(name: N, json: string | object): SchemaTypes[N] {
+    const value = typeof json === "string" ? JSON.parse(json) : json;
+    let validator = validators.get(name);
+    if (!validator) {
+      validator = ajv.compile(SCHEMAS[name]);
+      validators.set(name, validator);
+    }
+    if (!validator(value)) {
+      throw Error(`Invalid ${name} JSON: ${ajv.errorsText(validator.errors, { dataVar: name })}`);
+    }
+    return value as SchemaTypes[N];
+  }
+
+  /**
+   * Lowercases hex string or address. Other values are returned as they are and are left to schema validation.
+   * @param value
+   * @returns
+   */
+  export function hex(value: string): string {
+    return typeof value === "string" ? value.toLowerCase() : value;
+  }
+
+  /**
+   * Removes properties with undefined values, keeping the order of the remaining ones.
+   * @param value
+   * @returns
+   */
+  export function compact<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+  }
+}
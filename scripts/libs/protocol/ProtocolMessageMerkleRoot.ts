@@ -1,4 +1,7 @@
 import { ethers } from "ethers";
+import { ByteUtils } from "./ByteUtils";
+import { ProtocolDecodeError } from "./ProtocolDecodeError";
+import { ProtocolJSON } from "./ProtocolJSON";
 
 export interface IProtocolMessageMerkleRoot {
   protocolId: number;
@@ -9,6 +12,7 @@ export interface IProtocolMessageMerkleRoot {
 }
 
 export namespace ProtocolMessageMerkleRoot {
+  const CODEC = "ProtocolMessageMerkleRoot";
 
   //////////////////////////////////////////////////////////////////////////////
   // Protocol message merkle root structure
@@ -18,12 +22,23 @@ export namespace ProtocolMessageMerkleRoot {
   // 32 bytes - merkleRoot
   // Total 38 bytes
   //////////////////////////////////////////////////////////////////////////////
+  export const ENCODED_BYTES = 38;
+
   /**
    * Encode protocol message merkle root into 0x-prefixed hex string representing byte encoding
    * @param message
    * @returns
    */
   export function encode(message: IProtocolMessageMerkleRoot): string {
+    return ByteUtils.bytesToHex(encodeBytes(message));
+  }
+
+  /**
+   * Encode protocol message merkle root into byte encoding
+   * @param message
+   * @returns
+   */
+  export function encodeBytes(message: IProtocolMessageMerkleRoot): Uint8Array {
     if (!message) {
       throw Error("Signed message is undefined");
     }
@@ -39,13 +54,13 @@ export namespace ProtocolMessageMerkleRoot {
     if (message.votingRoundId < 0 || message.votingRoundId > 2 ** 32 - 1) {
       throw Error(`Voting round id out of range: ${message.votingRoundId}`);
     }
-    return (
-      "0x" +
-      message.protocolId.toString(16).padStart(2, "0") +
-      message.votingRoundId.toString(16).padStart(8, "0") +
-      (message.isSecureRandom ? 1 : 0).toString(16).padStart(2, "0") +
-      message.merkleRoot.slice(2)
-    ).toLowerCase();
+    const bytes = new Uint8Array(ENCODED_BYTES);
+    const view = ByteUtils.dataView(bytes);
+    view.setUint8(0, message.protocolId);
+    view.setUint32(1, message.votingRoundId);
+    view.setUint8(5, message.isSecureRandom ? 1 : 0);
+    ByteUtils.writeHex(bytes, 6, message.merkleRoot, 32);
+    return bytes;
   }
 
   /**
@@ -55,38 +70,44 @@ export namespace ProtocolMessageMerkleRoot {
    */
   export function decode(encodedMessage: string, exactEncoding = true): IProtocolMessageMerkleRoot {
     const encodedMessageInternal = encodedMessage.startsWith("0x") ? encodedMessage.slice(2) : encodedMessage;
-    // (1 + 4 + 1 + 32) * 2 = 38 * 2 = 76
-    if (!/^[0-9a-f]*$/.test(encodedMessageInternal)) {
-      throw Error(`Invalid format - not hex string: ${encodedMessage}`);
-    }
-    if (encodedMessageInternal.length < 76) {
-      throw Error(`Invalid encoded message length: ${encodedMessageInternal.length}`);
-    }
-    if (exactEncoding && encodedMessageInternal.length !== 76) {
-      throw Error(`Invalid encoded message length: ${encodedMessageInternal.length}. Should be exact length 76`);
-    }
-    let encodedLengthEntry = {};
+    // the excess after the first 38 bytes is ignored in non-exact decoding
+    const message = decodeBytes(
+      ByteUtils.hexToBytes(exactEncoding ? encodedMessageInternal : encodedMessageInternal.slice(0, ENCODED_BYTES * 2), CODEC)
+    );
     if (!exactEncoding) {
-      encodedLengthEntry = {encodedLength: 76};
+      message.encodedLength = 76;
+    }
+    return message;
+  }
+
+  /**
+   * Decodes signed message from byte encoding.
+   * @param encodedMessage
+   * @param exactEncoding if false, the excess bytes after the first 38 bytes are ignored
+   * @returns
+   */
+  export function decodeBytes(encodedMessage: Uint8Array, exactEncoding = true): IProtocolMessageMerkleRoot {
+    if (encodedMessage.length < ENCODED_BYTES || (exactEncoding && encodedMessage.length !== ENCODED_BYTES)) {
+      throw new ProtocolDecodeError(CODEC, "message", 0, "Invalid encoded message length", ENCODED_BYTES, encodedMessage.length);
     }
-    const protocolId = parseInt(encodedMessageInternal.slice(0, 2), 16);
-    const votingRoundId = parseInt(encodedMessageInternal.slice(2, 10), 16);
-    const encodedIsSecureRandom = encodedMessageInternal.slice(10, 12);
+    const view = ByteUtils.dataView(encodedMessage);
+    const protocolId = view.getUint8(0);
+    const votingRoundId = view.getUint32(1);
+    const encodedIsSecureRandom = view.getUint8(5);
     let isSecureRandom = false;
-    if (encodedIsSecureRandom === "00") {
+    if (encodedIsSecureRandom === 0) {
       isSecureRandom = false;
-    } else if (encodedIsSecureRandom === "01") {
+    } else if (encodedIsSecureRandom === 1) {
       isSecureRandom = true;
     } else {
-      throw Error("Invalid random quality score");
+      throw new ProtocolDecodeError(CODEC, "isSecureRandom", 5, `Invalid random quality score: ${encodedIsSecureRandom}`);
     }
-    const merkleRoot = "0x" + encodedMessageInternal.slice(12, 76);
+    const merkleRoot = ByteUtils.bytesToHex(encodedMessage, 6, ENCODED_BYTES);
     return {
       protocolId,
       votingRoundId,
       isSecureRandom,
       merkleRoot,
-      ...encodedLengthEntry
     };
   }
 
@@ -107,7 +128,7 @@ export namespace ProtocolMessageMerkleRoot {
 
 
   export function hash(message: IProtocolMessageMerkleRoot): string {
-    return ethers.keccak256(encode(message));
+    return ethers.keccak256(encodeBytes(message));
   }
   /**
    * Provides string representation of protocol message merkle root. 
@@ -118,4 +139,27 @@ export namespace ProtocolMessageMerkleRoot {
   export function print(message: IProtocolMessageMerkleRoot) {
     return `(${message.protocolId}, ${message.votingRoundId}, ${message.isSecureRandom}, ${message.merkleRoot})`
   }
+
+  /**
+   * Converts protocol message merkle root into canonical JSON object (see @see ProtocolJSON).
+   * @param message
+   * @returns
+   */
+  export function toJSON(message: IProtocolMessageMerkleRoot): IProtocolMessageMerkleRoot {
+    return ProtocolJSON.validate("ProtocolMessageMerkleRoot", {
+      protocolId: message.protocolId,
+      votingRoundId: message.votingRoundId,
+      isSecureRandom: message.isSecureRandom,
+      merkleRoot: ProtocolJSON.hex(message.merkleRoot),
+    });
+  }
+
+  /**
+   * Validates JSON string or object and converts it into protocol message merkle root in canonical form.
+   * @param json
+   * @returns
+   */
+  export function fromJSON(json: string | object): IProtocolMessageMerkleRoot {
+    return toJSON(ProtocolJSON.validate("ProtocolMessageMerkleRoot", json));
+  }
 }
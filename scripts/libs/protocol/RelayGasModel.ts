@@ -0,0 +1,186 @@
+import { ethers } from "ethers";
+import { IRelayMessage, RelayMessage } from "./RelayMessage";
+import { Threshold } from "./Threshold";
+
+/**
+ * Coefficients of the linear model of gas used by execution of Relay.relay() (without intrinsic gas).
+ */
+export interface IRelayGasCoefficients {
+  base: number; // constant part, including the storage of the merkle root
+  perVoter: number; // per voter in the signing policy (signing policy hash calculation)
+  perSignature: number; // per signature checked (signatures after the threshold is reached are not checked)
+  newSigningPolicyBase: number; // additional constant part for relaying a new signing policy
+  perNewVoter: number; // per voter in the new signing policy
+}
+
+/**
+ * Measured gas used by a relay transaction for the relay message.
+ */
+export interface IRelayGasSample {
+  message: IRelayMessage;
+  gasUsed: number;
+}
+
+/**
+ * Gas cost model of Relay.relay() transactions.
+ * Estimation consists of intrinsic gas (transaction base gas and calldata gas), which is calculated exactly,
+ * and execution gas, which is linear in the number of voters in the signing policy, the number of checked
+ * signatures and (for new signing policy relays) the number of voters in the new signing policy.
+ * Coefficients are calibrated by running Relay.sol on hardhat network, see relay-gas-calibration.ts.
+ * Estimates for protocol message merkle roots are calibrated on the random number protocol, which also updates
+ * random number state and emits an event, hence they are upper bounds for other protocols.
+ */
+export class RelayGasModel {
+  static readonly RELAY_SELECTOR = ethers.id("relay()").slice(0, 10);
+  static readonly TX_BASE_GAS = 21000;
+  static readonly ZERO_BYTE_GAS = 4;
+  static readonly NON_ZERO_BYTE_GAS = 16;
+
+  /**
+   * Coefficients obtained by relay-gas-calibration.ts (solc 0.8.20, optimizer runs 200, evm version london).
+   * Unit tests check them against the compiled Relay, so they have to be recalibrated when Relay.sol changes.
+   */
+  static readonly DEFAULT_COEFFICIENTS: IRelayGasCoefficients = {
+    base: 33576,
+    perVoter: 81,
+    perSignature: 3500,
+    newSigningPolicyBase: 21322,
+    perNewVoter: 193,
+  };
+
+  constructor(public readonly coefficients: IRelayGasCoefficients = RelayGasModel.DEFAULT_COEFFICIENTS) {}
+
+  /**
+   * Returns calldata of the relay transaction for the relay message (selector followed by the encoded message).
+   * @param message
+   * @returns
+   */
+  static calldata(message: IRelayMessage): string {
+    return RelayGasModel.RELAY_SELECTOR + RelayMessage.encode(message).slice(2);
+  }
+
+  /**
+   * Calculates intrinsic gas of the transaction with the given calldata (base gas and calldata gas, EIP-2028).
+   * @param calldata 0x-prefixed hex string
+   * @returns
+   */
+  static intrinsicGas(calldata: string): number {
+    const bytes = ethers.getBytes(calldata);
+    let gas = RelayGasModel.TX_BASE_GAS;
+    for (const byte of bytes) {
+      gas += byte === 0 ? RelayGasModel.ZERO_BYTE_GAS : RelayGasModel.NON_ZERO_BYTE_GAS;
+    }
+    return gas;
+  }
+
+  /**
+   * Returns the number of signatures Relay.relay() checks before the accumulated weight exceeds the threshold
+   * of the signing policy. If the threshold is not reached, all signatures are counted.
+   * @param message
+   * @returns
+   */
+  static checkedSignatures(message: IRelayMessage): number {
+    let weight = 0;
+    for (let i = 0; i < message.signatures.length; i++) {
+      weight += message.signingPolicy.weights[message.signatures[i].index] ?? 0;
+      if (Threshold.passes(weight, message.signingPolicy.threshold)) {
+        return i + 1;
+      }
+    }
+    return message.signatures.length;
+  }
+
+  /**
+   * Features of the relay message in the order of the coefficients in IRelayGasCoefficients.
+   * @param message
+   * @returns
+   */
+  static features(message: IRelayMessage): number[] {
+    const newVoters = message.newSigningPolicy?.voters.length;
+    return [
+      1,
+      message.signingPolicy.voters.length,
+      RelayGasModel.checkedSignatures(message),
+      newVoters === undefined ? 0 : 1,
+      newVoters ?? 0,
+    ];
+  }
+
+  /**
+   * Estimates gas used by execution of Relay.relay() for the relay message, without intrinsic gas.
+   * @param message
+   * @returns
+   */
+  executionGas(message: IRelayMessage): number {
+    const [base, voters, signatures, newSigningPolicy, newVoters] = RelayGasModel.features(message);
+    const c = this.coefficients;
+    return Math.ceil(
+      base * c.base +
+        voters * c.perVoter +
+        signatures * c.perSignature +
+        newSigningPolicy * c.newSigningPolicyBase +
+        newVoters * c.perNewVoter
+    );
+  }
+
+  /**
+   * Estimates gas used by the relay transaction for the relay message.
+   * @param message
+   * @returns
+   */
+  estimate(message: IRelayMessage): number {
+    return RelayGasModel.intrinsicGas(RelayGasModel.calldata(message)) + this.executionGas(message);
+  }
+
+  /**
+   * Fits the coefficients to the measured samples by the least squares method.
+   * Samples must include both protocol message merkle root and new signing policy relays,
+   * with different numbers of voters and signatures.
+   * @param samples
+   * @returns
+   */
+  static fit(samples: IRelayGasSample[]): RelayGasModel {
+    const n = 5;
+    // normal equations (X^T X) c = X^T y, as augmented matrix
+    const matrix: number[][] = Array.from({ length: n }, () => new Array<number>(n + 1).fill(0));
+    for (const sample of samples) {
+      const x = RelayGasModel.features(sample.message);
+      const y = sample.gasUsed - RelayGasModel.intrinsicGas(RelayGasModel.calldata(sample.message));
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+          matrix[i][j] += x[i] * x[j];
+        }
+        matrix[i][n] += x[i] * y;
+      }
+    }
+    // Gaussian elimination with partial pivoting
+    for (let col = 0; col < n; col++) {
+      let pivot = col;
+      for (let row = col + 1; row < n; row++) {
+        if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) {
+          pivot = row;
+        }
+      }
+      if (Math.abs(matrix[pivot][col]) < 1e-9) {
+        throw Error("Not enough different samples to fit the relay gas model");
+      }
+      [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+      for (let row = 0; row < n; row++) {
+        if (row !== col) {
+          const factor = matrix[row][col] / matrix[col][col];
+          for (let k = col; k <= n; k++) {
+            matrix[row][k] -= factor * matrix[col][k];
+          }
+        }
+      }
+    }
+    const c = matrix.map((row, i) => row[n] / row[i]);
+    return new RelayGasModel({
+      base: c[0],
+      perVoter: c[1],
+      perSignature: c[2],
+      newSigningPolicyBase: c[3],
+      perNewVoter: c[4],
+    });
+  }
+}
@@ -1,7 +1,11 @@
 import { ethers } from "ethers";
+import { ByteUtils } from "./ByteUtils";
+import { ProtocolDecodeError } from "./ProtocolDecodeError";
 import { ECDSASignatureWithIndex, IECDSASignatureWithIndex } from "./ECDSASignatureWithIndex";
 import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "./ProtocolMessageMerkleRoot";
 import { ISigningPolicy, SigningPolicy } from "./SigningPolicy";
+import { Threshold } from "./Threshold";
+import { ProtocolJSON } from "./ProtocolJSON";
 
 export interface IRelayMessage {
   signingPolicy: ISigningPolicy;
@@ -11,6 +15,7 @@ export interface IRelayMessage {
 }
 
 export namespace RelayMessage {
+  const CODEC = "RelayMessage";
 
   /**
    * Encodes relay message into 0x-prefixed hex string representing byte encoding.
@@ -29,6 +34,16 @@ export namespace RelayMessage {
    * @returns 
    */
   export function encode(message: IRelayMessage, verify = false): string {
+    return ByteUtils.bytesToHex(encodeBytes(message, verify));
+  }
+
+  /**
+   * Encodes relay message into byte encoding, represented by byte array. See @see encode.
+   * @param message
+   * @param verify
+   * @returns
+   */
+  export function encodeBytes(message: IRelayMessage, verify = false): Uint8Array {
     if (!message) {
       throw Error("Relay message is undefined");
     }
@@ -47,25 +62,25 @@ export namespace RelayMessage {
     if (!message.protocolMessageMerkleRoot && !message.newSigningPolicy) {
       throw Error("Invalid relay message: protocol message merkle root or new signing policy must be present");
     }
-    let encoded = SigningPolicy.encode(message.signingPolicy);
+    const parts: Uint8Array[] = [SigningPolicy.encodeBytes(message.signingPolicy)];
     let hashToSign: string;
     if (message.protocolMessageMerkleRoot) {
-      const encodedMessage = ProtocolMessageMerkleRoot.encode(message.protocolMessageMerkleRoot);
-      encoded += encodedMessage.slice(2);
+      const encodedMessage = ProtocolMessageMerkleRoot.encodeBytes(message.protocolMessageMerkleRoot);
+      parts.push(encodedMessage);
       if(verify) {
         hashToSign = ethers.keccak256(encodedMessage);
       }      
     } else {
-      encoded += "00";  // protocolId == 0 indicates new signing policy
-      const encodedNewSigningPolicy = SigningPolicy.encode(message.newSigningPolicy!);
-      encoded += encodedNewSigningPolicy.slice(2);
+      parts.push(new Uint8Array(1));  // protocolId == 0 indicates new signing policy
+      const encodedNewSigningPolicy = SigningPolicy.encodeBytes(message.newSigningPolicy!);
+      parts.push(encodedNewSigningPolicy);
       if(verify) {
-        hashToSign = SigningPolicy.hashEncoded(encodedNewSigningPolicy);
+        hashToSign = SigningPolicy.hashEncodedBytes(encodedNewSigningPolicy);
       }      
     }
     let lastObservedIndex = -1;
     let totalWeight = 0;
-    encoded += ECDSASignatureWithIndex.encodeSignatureList(message.signatures).slice(2);
+    parts.push(ECDSASignatureWithIndex.encodeSignatureListBytes(message.signatures));
     if(verify) {
       for (const signature of message.signatures) {
         if(signature.index <= lastObservedIndex) {
@@ -81,11 +96,11 @@ export namespace RelayMessage {
           totalWeight += message.signingPolicy.weights[signature.index];
         }
       }  
-      if(totalWeight <= message.signingPolicy.threshold) {
+      if(!Threshold.passes(totalWeight, message.signingPolicy.threshold)) {
         throw Error(`Invalid relay message: threshold not met`);
       }
     }
-    return encoded;
+    return ByteUtils.concatenateBytes(parts);
   }
 
   /**
@@ -94,28 +109,54 @@ export namespace RelayMessage {
    * @returns 
    */
   export function decode(encoded: string): IRelayMessage {
-    const signingPolicy = SigningPolicy.decode(encoded, false);
-    const encodedInternal = encoded.startsWith("0x") ? encoded.slice(2) : encoded;
+    const message = decodeBytes(ByteUtils.hexToBytes(encoded, CODEC));
+    // encoded lengths are in hex characters, as returned by non-exact decoding of the parts
+    message.signingPolicy.encodedLength = SigningPolicy.encodedBytesLength(message.signingPolicy) * 2;
+    if (message.newSigningPolicy) {
+      message.newSigningPolicy.encodedLength = SigningPolicy.encodedBytesLength(message.newSigningPolicy) * 2;
+    }
+    if (message.protocolMessageMerkleRoot) {
+      message.protocolMessageMerkleRoot.encodedLength = ProtocolMessageMerkleRoot.ENCODED_BYTES * 2;
+    }
+    return message;
+  }
+
+  /**
+   * Decodes relay message from byte encoding, represented by byte array.
+   * @param encoded
+   * @returns
+   */
+  export function decodeBytes(encoded: Uint8Array): IRelayMessage {
+    const signingPolicy = ProtocolDecodeError.nested(CODEC, "signingPolicy", 0, () =>
+      SigningPolicy.decodeBytes(encoded, false)
+    );
+    let offset = SigningPolicy.encodedBytesLength(signingPolicy);
     let newSigningPolicy: ISigningPolicy | undefined;
     let protocolMessageMerkleRoot: IProtocolMessageMerkleRoot | undefined;
-    if(encodedInternal.length <= signingPolicy.encodedLength!) {
-      throw Error(`Invalid relay message: too short`);
-    }
-    const protocolId = encodedInternal.slice(signingPolicy.encodedLength!, signingPolicy.encodedLength! + 2);
-    let encodedSignatures = "";
-    if(protocolId === "00") {
-      const rest = encodedInternal.slice(signingPolicy.encodedLength! + 2);
-      newSigningPolicy = SigningPolicy.decode(rest, false);
-      if(rest.length <= newSigningPolicy.encodedLength!) {
-        throw Error(`Invalid relay message: too short - missing signatures`);
+    if(encoded.length <= offset) {
+      throw new ProtocolDecodeError(CODEC, "protocolId", offset, "Invalid relay message: too short", 1, 0);
+    }
+    if(encoded[offset] === 0) {
+      offset++;
+      const newSigningPolicyOffset = offset;
+      newSigningPolicy = ProtocolDecodeError.nested(CODEC, "newSigningPolicy", newSigningPolicyOffset, () =>
+        SigningPolicy.decodeBytes(encoded.subarray(newSigningPolicyOffset), false)
+      );
+      offset += SigningPolicy.encodedBytesLength(newSigningPolicy);
+      if(encoded.length <= offset) {
+        throw new ProtocolDecodeError(CODEC, "signatures", offset, "Invalid relay message: too short - missing signatures");
       }
-      encodedSignatures = rest.slice(newSigningPolicy.encodedLength!);
     } else {
-      const rest = encodedInternal.slice(signingPolicy.encodedLength!);
-      protocolMessageMerkleRoot = ProtocolMessageMerkleRoot.decode(rest, false);
-      encodedSignatures = rest.slice(protocolMessageMerkleRoot.encodedLength!);
-    }
-    const signatures = ECDSASignatureWithIndex.decodeSignatureList(encodedSignatures);
+      const messageOffset = offset;
+      protocolMessageMerkleRoot = ProtocolDecodeError.nested(CODEC, "protocolMessageMerkleRoot", messageOffset, () =>
+        ProtocolMessageMerkleRoot.decodeBytes(encoded.subarray(messageOffset), false)
+      );
+      offset += ProtocolMessageMerkleRoot.ENCODED_BYTES;
+    }
+    const signaturesOffset = offset;
+    const signatures = ProtocolDecodeError.nested(CODEC, "signatures", signaturesOffset, () =>
+      ECDSASignatureWithIndex.decodeSignatureListBytes(encoded.subarray(signaturesOffset))
+    );
     return {
       signingPolicy,
       protocolMessageMerkleRoot,
@@ -153,4 +194,29 @@ export namespace RelayMessage {
     return false;
   }
 
-}
\ No newline at end of file
+  /**
+   * Converts relay message into canonical JSON object (see @see ProtocolJSON).
+   * @param message
+   * @returns
+   */
+  export function toJSON(message: IRelayMessage): IRelayMessage {
+    return ProtocolJSON.validate(
+      "RelayMessage",
+      ProtocolJSON.compact({
+        signingPolicy: SigningPolicy.toJSON(message.signingPolicy),
+        protocolMessageMerkleRoot: message.protocolMessageMerkleRoot && ProtocolMessageMerkleRoot.toJSON(message.protocolMessageMerkleRoot),
+        newSigningPolicy: message.newSigningPolicy && SigningPolicy.toJSON(message.newSigningPolicy),
+        signatures: message.signatures.map(ECDSASignatureWithIndex.toJSON),
+      })
+    );
+  }
+
+  /**
+   * Validates JSON string or object and converts it into relay message in canonical form.
+   * @param json
+   * @returns
+   */
+  export function fromJSON(json: string | object): IRelayMessage {
+    return toJSON(ProtocolJSON.validate("RelayMessage", json));
+  }
+}
@@ -0,0 +1,383 @@
+import { ethers } from "ethers";
+import { ECDSASignatureWithIndex } from "./ECDSASignatureWithIndex";
+import { IRelayMessage, RelayMessage } from "./RelayMessage";
+import { ISigningPolicy, SigningPolicy } from "./SigningPolicy";
+import { Threshold } from "./Threshold";
+
+/**
+ * Settings of the Relay contract that influence the acceptance of relay messages.
+ */
+export interface IRelaySettings {
+  randomNumberProtocolId: number;
+  firstRewardEpochStartVotingRoundId: number;
+  rewardEpochDurationInVotingEpochs: number;
+  thresholdIncreaseBIPS: number;
+  messageFinalizationWindowInRewardEpochs: number;
+  // true if Relay is deployed with signing policy setter (e.g. FlareSystemsManager on Flare chains)
+  noSigningPolicyRelay: boolean;
+}
+
+/**
+ * Result of relay message verification. If the message is rejected, the reason
+ * matches the revert message of Relay.sol.
+ */
+export interface IRelayVerificationResult {
+  accepted: boolean;
+  reason?: string;
+  rewardEpochId?: number;
+  protocolId?: number;
+  votingRoundId?: number;
+  merkleRoot?: string;
+  newSigningPolicyRewardEpochId?: number;
+  newSigningPolicyHash?: string;
+  threshold?: number;
+  weight?: number;
+}
+
+const MAX_VOTERS = 300;
+
+// Lengths in bytes
+const METADATA_BYTES = 11;
+const SIGNING_POLICY_PREFIX_BYTES = 43;
+const ADDRESS_AND_WEIGHT_BYTES = 22;
+const PROTOCOL_ID_BYTES = 1;
+const MESSAGE_BYTES = 38;
+const NUMBER_OF_SIGNATURES_BYTES = 2;
+const SIGNATURE_WITH_INDEX_BYTES = 67;
+
+interface ISigningPolicyMetadata {
+  numberOfVoters: number;
+  rewardEpochId: number;
+  startVotingRoundId: number;
+  threshold: number;
+}
+
+/**
+ * Offline emulation of Relay.sol. Holds the state relevant for verification (known signing policy hashes,
+ * starting voting round ids, last initialized reward epoch and relayed merkle roots) and
+ * reproduces the accept/reject decision of Relay.relay(), including the revert reasons.
+ */
+export class RelayVerifier {
+  // rewardEpochId => signing policy hash
+  private signingPolicyHashes = new Map<number, string>();
+  // rewardEpochId => start voting round id
+  private startingVotingRoundIds = new Map<number, number>();
+  // rewardEpochId => signing policy (if known)
+  private signingPolicies = new Map<number, ISigningPolicy>();
+  // protocolId => votingRoundId => merkle root
+  private merkleRoots = new Map<number, Map<number, string>>();
+  private _lastInitializedRewardEpoch: number;
+
+  /**
+   * Initializes the verifier in the same way as the constructor of Relay.sol.
+   * @param settings
+   * @param initialSigningPolicy
+   */
+  constructor(
+    public readonly settings: IRelaySettings,
+    initialSigningPolicy: ISigningPolicy
+  ) {
+    if (settings.thresholdIncreaseBIPS < Threshold.THRESHOLD_BIPS) {
+      throw Error("threshold increase too small");
+    }
+    if (
+      settings.firstRewardEpochStartVotingRoundId +
+        initialSigningPolicy.rewardEpochId * settings.rewardEpochDurationInVotingEpochs >
+      initialSigningPolicy.startVotingRoundId
+    ) {
+      throw Error("invalid initial starting voting round id");
+    }
+    this._lastInitializedRewardEpoch = initialSigningPolicy.rewardEpochId;
+    this.storeSigningPolicy(initialSigningPolicy, SigningPolicy.hash(initialSigningPolicy));
+  }
+
+  public get lastInitializedRewardEpoch(): number {
+    return this._lastInitializedRewardEpoch;
+  }
+
+  /**
+   * Returns the signing policy hash for the reward epoch, as Relay.toSigningPolicyHash.
+   * @param rewardEpochId
+   * @returns
+   */
+  public signingPolicyHash(rewardEpochId: number): string | undefined {
+    return this.signingPolicyHashes.get(rewardEpochId);
+  }
+
+  /**
+   * Returns the signing policy for the reward epoch, if known.
+   * @param rewardEpochId
+   * @returns
+   */
+  public signingPolicy(rewardEpochId: number): ISigningPolicy | undefined {
+    return this.signingPolicies.get(rewardEpochId);
+  }
+
+  /**
+   * Returns the start voting round id for the reward epoch, as Relay.startingVotingRoundIds.
+   * @param rewardEpochId
+   * @returns
+   */
+  public startingVotingRoundId(rewardEpochId: number): number | undefined {
+    return this.startingVotingRoundIds.get(rewardEpochId);
+  }
+
+  /**
+   * Returns the relayed merkle root, as Relay.merkleRoots.
+   * @param protocolId
+   * @param votingRoundId
+   * @returns
+   */
+  public merkleRoot(protocolId: number, votingRoundId: number): string | undefined {
+    return this.merkleRoots.get(protocolId)?.get(votingRoundId);
+  }
+
+  /**
+   * Records merkle root that was already relayed (e.g. read from Relay contract or events).
+   * @param protocolId
+   * @param votingRoundId
+   * @param merkleRoot
+   */
+  public setMerkleRoot(protocolId: number, votingRoundId: number, merkleRoot: string) {
+    if (!this.merkleRoots.has(protocolId)) {
+      this.merkleRoots.set(protocolId, new Map<number, string>());
+    }
+    this.merkleRoots.get(protocolId)!.set(votingRoundId, merkleRoot.toLowerCase());
+  }
+
+  /**
+   * Emulates Relay.setSigningPolicy, called by the signing policy setter (FlareSystemsManager).
+   * Returns the revert reason if the signing policy would be rejected.
+   * @param signingPolicy
+   * @returns
+   */
+  public initializeSigningPolicy(signingPolicy: ISigningPolicy): IRelayVerificationResult {
+    if (this._lastInitializedRewardEpoch + 1 !== signingPolicy.rewardEpochId) {
+      return { accepted: false, reason: "not next reward epoch" };
+    }
+    if (signingPolicy.voters.length === 0) {
+      return { accepted: false, reason: "must be non-trivial" };
+    }
+    if (signingPolicy.voters.length > MAX_VOTERS) {
+      return { accepted: false, reason: "too many voters" };
+    }
+    if (signingPolicy.voters.length !== signingPolicy.weights.length) {
+      return { accepted: false, reason: "size mismatch" };
+    }
+    const totalWeight = signingPolicy.weights.reduce((a, b) => a + b, 0);
+    const thresholdError = Threshold.checkConsistency(signingPolicy.threshold, totalWeight);
+    if (thresholdError) {
+      return { accepted: false, reason: thresholdError };
+    }
+    const newSigningPolicyHash = SigningPolicy.hash(signingPolicy);
+    this._lastInitializedRewardEpoch = signingPolicy.rewardEpochId;
+    this.storeSigningPolicy(signingPolicy, newSigningPolicyHash);
+    return {
+      accepted: true,
+      newSigningPolicyRewardEpochId: signingPolicy.rewardEpochId,
+      newSigningPolicyHash,
+    };
+  }
+
+  /**
+   * Verifies relay message object. See @see verify.
+   * @param message
+   * @param apply
+   * @returns
+   */
+  public verifyMessage(message: IRelayMessage, apply = false): IRelayVerificationResult {
+    return this.verify(RelayMessage.encode(message), apply);
+  }
+
+  /**
+   * Verifies byte encoded relay message (calldata of Relay.relay() without function selector)
+   * and returns the decision that Relay.sol would make, together with the revert reason on rejection.
+   * @param encodedRelayMessage 0x-prefixed hex string (as produced by RelayMessage.encode)
+   * @param apply if true and the message is accepted, the state is updated as Relay.sol would do
+   * @returns
+   */
+  public verify(encodedRelayMessage: string, apply = false): IRelayVerificationResult {
+    const data = (encodedRelayMessage.startsWith("0x") ? encodedRelayMessage.slice(2) : encodedRelayMessage).toLowerCase();
+    if (!/^[0-9a-f]*$/.test(data) || data.length % 2 !== 0) {
+      throw Error(`Invalid format - not byte sequence representing hex string: ${encodedRelayMessage}`);
+    }
+    const size = data.length / 2;
+
+    if (size < METADATA_BYTES) {
+      return { accepted: false, reason: "Invalid sign policy metadata" };
+    }
+    const metadata = this.decodeMetadata(data, 0);
+    const rewardEpochId = metadata.rewardEpochId;
+    const signingPolicyLength = SIGNING_POLICY_PREFIX_BYTES + metadata.numberOfVoters * ADDRESS_AND_WEIGHT_BYTES;
+    if (size < signingPolicyLength + PROTOCOL_ID_BYTES) {
+      return { accepted: false, reason: "Invalid sign policy length" };
+    }
+    const signingPolicyHash = SigningPolicy.hashEncoded(data.slice(0, signingPolicyLength * 2));
+    if (signingPolicyHash !== this.signingPolicyHashes.get(rewardEpochId)) {
+      return { accepted: false, rewardEpochId, reason: "Signing policy hash mismatch" };
+    }
+    const protocolId = parseInt(data.slice(signingPolicyLength * 2, signingPolicyLength * 2 + 2), 16);
+    let threshold = metadata.threshold;
+    let signatureStart: number;
+    let hashToSign: string;
+    let result: IRelayVerificationResult = { accepted: false, rewardEpochId, protocolId };
+
+    if (protocolId > 0) {
+      signatureStart = signingPolicyLength + MESSAGE_BYTES;
+      if (size < signatureStart) {
+        return { ...result, reason: "Too short message" };
+      }
+      const encodedMessage = data.slice(signingPolicyLength * 2, signatureStart * 2);
+      const votingRoundId = parseInt(encodedMessage.slice(2, 10), 16);
+      const merkleRoot = "0x" + encodedMessage.slice(12, 76);
+      result = { ...result, votingRoundId, merkleRoot };
+      const existingMerkleRoot = this.merkleRoot(protocolId, votingRoundId);
+      if (existingMerkleRoot && BigInt(existingMerkleRoot) > 0n) {
+        return { ...result, reason: "Already relayed" };
+      }
+      if (votingRoundId < this.settings.firstRewardEpochStartVotingRoundId) {
+        return { ...result, reason: "Invalid voting round id" };
+      }
+      const messageRewardEpochId = this.rewardEpochIdFromVotingRoundId(votingRoundId);
+      if (messageRewardEpochId < rewardEpochId) {
+        return { ...result, reason: "Wrong sign policy reward epoch" };
+      }
+      if (messageRewardEpochId + this.settings.messageFinalizationWindowInRewardEpochs < this._lastInitializedRewardEpoch) {
+        return { ...result, reason: "Message too old" };
+      }
+      if (votingRoundId < metadata.startVotingRoundId) {
+        return { ...result, reason: "Delayed sign policy" };
+      }
+      if (messageRewardEpochId > rewardEpochId) {
+        if (this._lastInitializedRewardEpoch > rewardEpochId) {
+          const nextStartingVotingRoundId = this.startingVotingRoundIds.get(rewardEpochId + 1) ?? 0;
+          if (votingRoundId + 1 > nextStartingVotingRoundId) {
+            return { ...result, reason: "Must use new sign policy" };
+          }
+        }
+        if (this._lastInitializedRewardEpoch === rewardEpochId) {
+          threshold = Threshold.increased(threshold, this.settings.thresholdIncreaseBIPS);
+        }
+      }
+      hashToSign = ethers.keccak256("0x" + encodedMessage);
+    } else {
+      if (this.settings.noSigningPolicyRelay) {
+        return { ...result, reason: "Sign policy relay disabled" };
+      }
+      const newSigningPolicyStart = signingPolicyLength + PROTOCOL_ID_BYTES;
+      if (size < newSigningPolicyStart + METADATA_BYTES) {
+        return { ...result, reason: "No new sign policy size" };
+      }
+      const newMetadata = this.decodeMetadata(data, newSigningPolicyStart);
+      if (newMetadata.numberOfVoters === 0) {
+        return { ...result, reason: "must be non-trivial" };
+      }
+      if (newMetadata.numberOfVoters > MAX_VOTERS) {
+        return { ...result, reason: "too many voters" };
+      }
+      const newSigningPolicyLength = SIGNING_POLICY_PREFIX_BYTES + newMetadata.numberOfVoters * ADDRESS_AND_WEIGHT_BYTES;
+      signatureStart = newSigningPolicyStart + newSigningPolicyLength;
+      if (size < signatureStart) {
+        return { ...result, reason: "Wrong size for new sign policy" };
+      }
+      result = { ...result, newSigningPolicyRewardEpochId: newMetadata.rewardEpochId };
+      if (this._lastInitializedRewardEpoch !== rewardEpochId) {
+        return { ...result, reason: "Not with last intialized" };
+      }
+      if (this._lastInitializedRewardEpoch + 1 !== newMetadata.rewardEpochId) {
+        return { ...result, reason: "Not next reward epoch" };
+      }
+      const encodedNewSigningPolicy = data.slice(newSigningPolicyStart * 2, signatureStart * 2);
+      let totalWeight = 0;
+      for (let i = 0; i < newMetadata.numberOfVoters; i++) {
+        const start = (SIGNING_POLICY_PREFIX_BYTES + i * ADDRESS_AND_WEIGHT_BYTES) * 2 + 40;
+        totalWeight += parseInt(encodedNewSigningPolicy.slice(start, start + 4), 16);
+      }
+      const thresholdError = Threshold.checkConsistency(newMetadata.threshold, totalWeight);
+      if (thresholdError) {
+        return { ...result, reason: thresholdError };
+      }
+      hashToSign = SigningPolicy.hashEncoded(encodedNewSigningPolicy);
+      result = { ...result, newSigningPolicyHash: hashToSign };
+    }
+
+    if (size < signatureStart + NUMBER_OF_SIGNATURES_BYTES) {
+      return { ...result, threshold, reason: "No signature count" };
+    }
+    const numberOfSignatures = parseInt(data.slice(signatureStart * 2, (signatureStart + NUMBER_OF_SIGNATURES_BYTES) * 2), 16);
+    signatureStart += NUMBER_OF_SIGNATURES_BYTES;
+    if (size < signatureStart + numberOfSignatures * SIGNATURE_WITH_INDEX_BYTES) {
+      return { ...result, threshold, reason: "Not enough signatures" };
+    }
+    let weight = 0;
+    let nextUnusedIndex = 0;
+    for (let i = 0; i < numberOfSignatures; i++) {
+      const start = (signatureStart + i * SIGNATURE_WITH_INDEX_BYTES) * 2;
+      const signature = ECDSASignatureWithIndex.decode(data.slice(start, start + SIGNATURE_WITH_INDEX_BYTES * 2));
+      if (signature.index + 1 > metadata.numberOfVoters) {
+        return { ...result, threshold, weight, reason: "Index out of range" };
+      }
+      if (signature.index < nextUnusedIndex) {
+        return { ...result, threshold, weight, reason: "Index out of order" };
+      }
+      nextUnusedIndex = signature.index + 1;
+      const voterStart = (SIGNING_POLICY_PREFIX_BYTES + signature.index * ADDRESS_AND_WEIGHT_BYTES) * 2;
+      const expectedSigner = "0x" + data.slice(voterStart, voterStart + 40);
+      let signer: string | undefined;
+      try {
+        signer = ECDSASignatureWithIndex.recoverSigner(hashToSign, signature);
+      } catch {
+        // ecrecover failure results in signer mismatch in Relay.sol
+      }
+      if (signer !== expectedSigner) {
+        return { ...result, threshold, weight, reason: "Wrong signature" };
+      }
+      weight += parseInt(data.slice(voterStart + 40, voterStart + 44), 16);
+      if (Threshold.passes(weight, threshold)) {
+        if (apply) {
+          this.applyResult(result, data, signingPolicyLength);
+        }
+        return { ...result, threshold, weight, accepted: true };
+      }
+    }
+    return { ...result, threshold, weight, reason: "Not enough weight" };
+  }
+
+  /**
+   * Calculates the expected reward epoch id for the voting round id, as in Relay.sol.
+   * @param votingRoundId
+   * @returns
+   */
+  public rewardEpochIdFromVotingRoundId(votingRoundId: number): number {
+    return Math.floor(
+      (votingRoundId - this.settings.firstRewardEpochStartVotingRoundId) / this.settings.rewardEpochDurationInVotingEpochs
+    );
+  }
+
+  private decodeMetadata(data: string, byteOffset: number): ISigningPolicyMetadata {
+    const start = byteOffset * 2;
+    return {
+      numberOfVoters: parseInt(data.slice(start, start + 4), 16),
+      rewardEpochId: parseInt(data.slice(start + 4, start + 10), 16),
+      startVotingRoundId: parseInt(data.slice(start + 10, start + 18), 16),
+      threshold: parseInt(data.slice(start + 18, start + 22), 16),
+    };
+  }
+
+  private storeSigningPolicy(signingPolicy: ISigningPolicy, signingPolicyHash: string) {
+    this.signingPolicyHashes.set(signingPolicy.rewardEpochId, signingPolicyHash);
+    this.startingVotingRoundIds.set(signingPolicy.rewardEpochId, signingPolicy.startVotingRoundId);
+    this.signingPolicies.set(signingPolicy.rewardEpochId, signingPolicy);
+  }
+
+  private applyResult(result: IRelayVerificationResult, data: string, signingPolicyLength: number) {
+    if (result.protocolId! > 0) {
+      this.setMerkleRoot(result.protocolId!, result.votingRoundId!, result.merkleRoot!);
+      return;
+    }
+    const newSigningPolicy = SigningPolicy.decode(data.slice((signingPolicyLength + PROTOCOL_ID_BYTES) * 2), false);
+    delete newSigningPolicy.encodedLength;
+    this._lastInitializedRewardEpoch = newSigningPolicy.rewardEpochId;
+    this.storeSigningPolicy(newSigningPolicy, result.newSigningPolicyHash!);
+  }
+}
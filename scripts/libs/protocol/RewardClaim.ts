@@ -0,0 +1,188 @@
+import { ethers } from "ethers";
+import { ByteUtils } from "./ByteUtils";
+import { MerkleTree, verifyWithMerkleProof } from "./MerkleTree";
+import { ProtocolDecodeError } from "./ProtocolDecodeError";
+
+/**
+ * Claim type, matching IRewardManager.ClaimType.
+ */
+export enum ClaimType {
+  DIRECT = 0,
+  FEE = 1,
+  WNAT = 2,
+  MIRROR = 3,
+  CCHAIN = 4,
+}
+
+export interface IRewardClaim {
+  rewardEpochId: number;
+  beneficiary: string; // c-chain address or node id (bytes20) in case of type MIRROR
+  amount: bigint; // in wei
+  claimType: ClaimType;
+}
+
+export interface IRewardClaimWithProof {
+  merkleProof: string[];
+  body: IRewardClaim;
+}
+
+export namespace RewardClaim {
+  // Layout of IRewardManager.RewardClaim as exposed by ProtocolMerkleStructs.rewardClaimStruct
+  export const REWARD_CLAIM_ABI = "tuple(uint24 rewardEpochId, bytes20 beneficiary, uint120 amount, uint8 claimType)";
+
+  const CODEC = "RewardClaim";
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+
+  /**
+   * ABI encodes reward claim into 0x-prefixed hex string, as done by abi.encode(rewardClaim) in RewardManager.sol
+   * @param rewardClaim
+   * @returns
+   */
+  export function encode(rewardClaim: IRewardClaim): string {
+    if (!rewardClaim) {
+      throw Error("Reward claim is undefined");
+    }
+    if (rewardClaim.rewardEpochId < 0 || rewardClaim.rewardEpochId > 2 ** 24 - 1 || rewardClaim.rewardEpochId % 1 !== 0) {
+      throw Error(`Reward epoch id out of range: ${rewardClaim.rewardEpochId}`);
+    }
+    if (!/^0x[0-9a-f]{40}$/i.test(rewardClaim.beneficiary)) {
+      throw Error(`Invalid beneficiary format: ${rewardClaim.beneficiary}`);
+    }
+    if (rewardClaim.amount < 0n || rewardClaim.amount > 2n ** 120n - 1n) {
+      throw Error(`Amount out of range: ${rewardClaim.amount}`);
+    }
+    if (ClaimType[rewardClaim.claimType] === undefined) {
+      throw Error(`Invalid claim type: ${rewardClaim.claimType}`);
+    }
+    return coder.encode(
+      [REWARD_CLAIM_ABI],
+      [[rewardClaim.rewardEpochId, rewardClaim.beneficiary.toLowerCase(), rewardClaim.amount, rewardClaim.claimType]]
+    );
+  }
+
+  /**
+   * Decodes ABI encoded reward claim from 0x-prefixed hex string.
+   * @param encodedRewardClaim
+   * @returns
+   */
+  export function decode(encodedRewardClaim: string): IRewardClaim {
+    const encodedRewardClaimBytes = ByteUtils.hexToBytes(encodedRewardClaim, CODEC);
+    if (encodedRewardClaimBytes.length !== 4 * 32) {
+      throw new ProtocolDecodeError(
+        CODEC,
+        "rewardClaim",
+        0,
+        "Invalid encoded reward claim length",
+        4 * 32,
+        encodedRewardClaimBytes.length
+      );
+    }
+    const [[rewardEpochId, beneficiary, amount, claimType]] = coder.decode([REWARD_CLAIM_ABI], encodedRewardClaimBytes);
+    return {
+      rewardEpochId: Number(rewardEpochId),
+      beneficiary: (beneficiary as string).toLowerCase(),
+      amount: BigInt(amount),
+      claimType: Number(claimType) as ClaimType,
+    };
+  }
+
+  /**
+   * Calculates the hash of the reward claim, which is used as a leaf in the rewards Merkle tree.
+   * @param rewardClaim
+   * @returns
+   */
+  export function hash(rewardClaim: IRewardClaim): string {
+    return ethers.keccak256(encode(rewardClaim));
+  }
+
+  /**
+   * Builds rewards Merkle tree from reward claims. The root of the tree is the rewards hash
+   * signed through FlareSystemsManager.signRewards.
+   * All reward claims should be for the same reward epoch.
+   * @param rewardClaims
+   * @returns
+   */
+  export function merkleTree(rewardClaims: IRewardClaim[]): MerkleTree {
+    if (rewardClaims.length > 0) {
+      const rewardEpochId = rewardClaims[0].rewardEpochId;
+      for (const rewardClaim of rewardClaims) {
+        if (rewardClaim.rewardEpochId !== rewardEpochId) {
+          throw Error(`Reward claims for different reward epochs: ${rewardEpochId}, ${rewardClaim.rewardEpochId}`);
+        }
+      }
+    }
+    return new MerkleTree(rewardClaims.map(rewardClaim => hash(rewardClaim)));
+  }
+
+  /**
+   * Calculates Merkle root of the reward claims.
+   * @param rewardClaims
+   * @returns
+   */
+  export function merkleRoot(rewardClaims: IRewardClaim[]): string | undefined {
+    return merkleTree(rewardClaims).root;
+  }
+
+  /**
+   * Produces reward claims with Merkle proofs for the given beneficiary and (optionally) claim type.
+   * The result can be used directly in RewardManager.claim and RewardManager.initialiseWeightBasedClaims.
+   * @param rewardClaims all reward claims in the reward epoch
+   * @param beneficiary
+   * @param claimType if not provided, all claim types of the beneficiary are included
+   * @param tree if provided, it must be the tree built from @param rewardClaims
+   * @returns
+   */
+  export function proofsFor(
+    rewardClaims: IRewardClaim[],
+    beneficiary: string,
+    claimType?: ClaimType,
+    tree?: MerkleTree
+  ): IRewardClaimWithProof[] {
+    const rewardsTree = tree ?? merkleTree(rewardClaims);
+    const result: IRewardClaimWithProof[] = [];
+    const included = new Set<string>();
+    for (const rewardClaim of rewardClaims) {
+      if (rewardClaim.beneficiary.toLowerCase() !== beneficiary.toLowerCase()) {
+        continue;
+      }
+      if (claimType !== undefined && rewardClaim.claimType !== claimType) {
+        continue;
+      }
+      const leaf = hash(rewardClaim);
+      if (included.has(leaf)) {
+        continue;
+      }
+      const merkleProof = rewardsTree.getProofForHash(leaf);
+      if (!merkleProof) {
+        throw Error(`Reward claim not in the tree: ${print(rewardClaim)}`);
+      }
+      included.add(leaf);
+      result.push({
+        merkleProof,
+        body: rewardClaim,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Verifies reward claim with proof against the rewards hash (Merkle root).
+   * @param rewardClaimWithProof
+   * @param rewardsHash
+   * @returns
+   */
+  export function verify(rewardClaimWithProof: IRewardClaimWithProof, rewardsHash: string): boolean {
+    return verifyWithMerkleProof(hash(rewardClaimWithProof.body), rewardClaimWithProof.merkleProof, rewardsHash);
+  }
+
+  /**
+   * Provides string representation of reward claim.
+   * Can be used for e.g. logging.
+   * @param rewardClaim
+   * @returns
+   */
+  export function print(rewardClaim: IRewardClaim) {
+    return `(${rewardClaim.rewardEpochId}, ${rewardClaim.beneficiary}, ${rewardClaim.amount}, ${ClaimType[rewardClaim.claimType]})`;
+  }
+}
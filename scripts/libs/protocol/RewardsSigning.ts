@@ -0,0 +1,151 @@
+import { ethers } from "ethers";
+import { ECDSASignature, IECDSASignature } from "./ECDSASignature";
+import { ClaimType, IRewardClaim, RewardClaim } from "./RewardClaim";
+import { ISigner } from "./Signer";
+
+/**
+ * Number of weight based claims per reward manager, matching IFlareSystemsManager.NumberOfWeightBasedClaims.
+ */
+export interface INumberOfWeightBasedClaims {
+  rewardManagerId: number;
+  noOfWeightBasedClaims: number;
+}
+
+/**
+ * Arguments of FlareSystemsManager.signRewards.
+ */
+export interface IRewardsSigningData {
+  rewardEpochId: number;
+  noOfWeightBasedClaims: INumberOfWeightBasedClaims[];
+  rewardsHash: string;
+  signature: IECDSASignature;
+}
+
+export namespace RewardsSigning {
+  export const NUMBER_OF_WEIGHT_BASED_CLAIMS_ABI = "tuple(uint256 rewardManagerId, uint256 noOfWeightBasedClaims)[]";
+
+  const WEIGHT_BASED_CLAIM_TYPES = new Set([ClaimType.WNAT, ClaimType.MIRROR, ClaimType.CCHAIN]);
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+
+  /**
+   * Checks whether the claim type is weight based (WNAT, MIRROR, CCHAIN), i.e. it needs to be initialised
+   * through RewardManager.initialiseWeightBasedClaims.
+   * @param claimType
+   * @returns
+   */
+  export function isWeightBased(claimType: ClaimType): boolean {
+    return WEIGHT_BASED_CLAIM_TYPES.has(claimType);
+  }
+
+  /**
+   * Calculates the rewards hash, which is the Merkle root of the reward claims.
+   * @param rewardClaims all reward claims in the reward epoch
+   * @returns
+   */
+  export function rewardsHash(rewardClaims: IRewardClaim[]): string {
+    const merkleRoot = RewardClaim.merkleRoot(rewardClaims);
+    if (!merkleRoot) {
+      throw Error("No reward claims");
+    }
+    return merkleRoot;
+  }
+
+  /**
+   * Counts weight based claims in the reward claim list of the reward manager.
+   * @param rewardClaims all reward claims in the reward epoch
+   * @param rewardManagerId id of the reward manager the claims are for
+   * @returns
+   */
+  export function noOfWeightBasedClaims(rewardClaims: IRewardClaim[], rewardManagerId: number): INumberOfWeightBasedClaims[] {
+    let count = 0;
+    for (const rewardClaim of rewardClaims) {
+      if (isWeightBased(rewardClaim.claimType)) {
+        count++;
+      }
+    }
+    return [{ rewardManagerId, noOfWeightBasedClaims: count }];
+  }
+
+  /**
+   * Calculates keccak256(abi.encode(noOfWeightBasedClaims)), as done in FlareSystemsManager.signRewards.
+   * @param noOfWeightBasedClaims
+   * @returns
+   */
+  export function noOfWeightBasedClaimsHash(noOfWeightBasedClaims: INumberOfWeightBasedClaims[]): string {
+    return ethers.keccak256(
+      coder.encode(
+        [NUMBER_OF_WEIGHT_BASED_CLAIMS_ABI],
+        [noOfWeightBasedClaims.map(x => [x.rewardManagerId, x.noOfWeightBasedClaims])]
+      )
+    );
+  }
+
+  /**
+   * Calculates the message hash to be signed for FlareSystemsManager.signRewards,
+   * as keccak256(abi.encode(rewardEpochId, keccak256(abi.encode(noOfWeightBasedClaims)), rewardsHash)).
+   * @param rewardEpochId
+   * @param noOfWeightBasedClaims
+   * @param rewardsHash
+   * @returns
+   */
+  export function messageHash(
+    rewardEpochId: number,
+    noOfWeightBasedClaims: INumberOfWeightBasedClaims[],
+    rewardsHash: string
+  ): string {
+    if (rewardEpochId < 0 || rewardEpochId > 2 ** 24 - 1 || rewardEpochId % 1 !== 0) {
+      throw Error(`Reward epoch id out of range: ${rewardEpochId}`);
+    }
+    if (!/^0x[0-9a-f]{64}$/i.test(rewardsHash)) {
+      throw Error(`Invalid rewards hash format: ${rewardsHash}`);
+    }
+    return ethers.keccak256(
+      coder.encode(
+        ["uint24", "bytes32", "bytes32"],
+        [rewardEpochId, noOfWeightBasedClaimsHash(noOfWeightBasedClaims), rewardsHash]
+      )
+    );
+  }
+
+  /**
+   * Produces the signature for FlareSystemsManager.signRewards.
+   * @param rewardEpochId
+   * @param noOfWeightBasedClaims
+   * @param rewardsHash
+   * @param signer signer (or private key) of the signing policy address of the voter
+   * @returns
+   */
+  export async function signRewards(
+    rewardEpochId: number,
+    noOfWeightBasedClaims: INumberOfWeightBasedClaims[],
+    rewardsHash: string,
+    signer: string | ISigner
+  ): Promise<IECDSASignature> {
+    return ECDSASignature.signMessageHash(messageHash(rewardEpochId, noOfWeightBasedClaims, rewardsHash), signer);
+  }
+
+  /**
+   * Calculates the rewards hash and the number of weight based claims from reward claims and signs them.
+   * The result contains all the arguments for FlareSystemsManager.signRewards.
+   * @param rewardClaims all reward claims in the reward epoch
+   * @param rewardManagerId id of the reward manager the claims are for
+   * @param signer signer (or private key) of the signing policy address of the voter
+   * @returns
+   */
+  export async function signRewardClaims(
+    rewardClaims: IRewardClaim[],
+    rewardManagerId: number,
+    signer: string | ISigner
+  ): Promise<IRewardsSigningData> {
+    const hash = rewardsHash(rewardClaims);
+    const rewardEpochId = rewardClaims[0].rewardEpochId;
+    const noOfClaims = noOfWeightBasedClaims(rewardClaims, rewardManagerId);
+    return {
+      rewardEpochId,
+      noOfWeightBasedClaims: noOfClaims,
+      rewardsHash: hash,
+      signature: await signRewards(rewardEpochId, noOfClaims, hash, signer),
+    };
+  }
+}
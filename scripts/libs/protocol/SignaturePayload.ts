@@ -1,20 +1,49 @@
-import Web3 from "web3";
+import { ByteUtils } from "./ByteUtils";
+import { ProtocolDecodeError } from "./ProtocolDecodeError";
 import { ECDSASignature, IECDSASignature } from "./ECDSASignature";
 import { IPayloadMessage, PayloadMessage } from "./PayloadMessage";
 import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "./ProtocolMessageMerkleRoot";
 import { ISigningPolicy } from "./SigningPolicy";
 import { ECDSASignatureWithIndex, IECDSASignatureWithIndex } from "./ECDSASignatureWithIndex";
+import { SignatureVerificationContext } from "./SignatureVerificationContext";
+import { Threshold } from "./Threshold";
+import { ProtocolJSON } from "./ProtocolJSON";
 
 
 export interface ISignaturePayload {
   type: string;
-  message: IProtocolMessageMerkleRoot;
+  message?: IProtocolMessageMerkleRoot; // not present in payload types carrying only the message hash
   signature: IECDSASignature;
   unsignedMessage: string;
   signer?: string;
   index?: number;
-  messageHash?: string;
+  messageHash?: string; // set by decoding of payload types carrying only the message hash, or by augment
   weight?: number;
+  timestamp?: number; // submission time, if known (e.g. from indexer)
+}
+
+/**
+ * Strategies for selecting signatures to be included into relay calldata.
+ */
+export enum SignatureSelectionStrategy {
+  // as few signatures as possible, heaviest first
+  FEWEST_SIGNATURES = "fewest",
+  // signatures that arrived first
+  EARLIEST_ARRIVAL = "earliest",
+  // signatures with lowest indices in signing policy
+  LOWEST_INDEX = "index",
+}
+
+/**
+ * Byte layout of a signature payload type, registered by @see SignaturePayload.registerType.
+ * Encodings include the leading type byte. Decoders should throw ProtocolDecodeError with
+ * the codec "SignaturePayload" and offsets relative to the start of the payload (the type byte).
+ */
+export interface ISignaturePayloadLayout {
+  type: string; // 0x-prefixed 1 byte hex string
+  description: string;
+  encodeBytes(signaturePayload: ISignaturePayload): Uint8Array;
+  decodeBytes(encodedSignaturePayload: Uint8Array): ISignaturePayload;
 }
 
 export interface DepositSignatureData {
@@ -23,21 +52,93 @@ export interface DepositSignatureData {
 }
 
 export namespace SignaturePayload {
+  const CODEC = "SignaturePayload";
+  const CALLDATA_CODEC = "SubmitSignaturesCalldata";
+  // message, ECDSA signature (v, r, s), unsigned message
+  export const TYPE_MESSAGE = "0x00";
+  // message hash, ECDSA signature (v, r, s), unsigned message
+  export const TYPE_MESSAGE_HASH = "0x01";
+  // message, compact EIP-2098 signature, unsigned message
+  export const TYPE_COMPACT_SIGNATURE = "0x02";
+  const MESSAGE_HASH_BYTES = 32;
+
+  const layouts = new Map<string, ISignaturePayloadLayout>();
+
+  /**
+   * Registers byte layout of a signature payload type.
+   * @param layout
+   * @param replace if true, the layout of already registered type is replaced, otherwise an error is thrown
+   */
+  export function registerType(layout: ISignaturePayloadLayout, replace = false) {
+    if (!/^0x[0-9a-f]{2}$/.test(layout.type)) {
+      throw Error(`Invalid signature payload type: ${layout.type}. Must be lower case 0x-prefixed 1 byte hex string`);
+    }
+    if (layouts.has(layout.type) && !replace) {
+      throw Error(`Signature payload type ${layout.type} already registered`);
+    }
+    layouts.set(layout.type, layout);
+  }
+
+  /**
+   * Removes the layout of a signature payload type.
+   * @param type
+   * @returns true if the type was registered
+   */
+  export function unregisterType(type: string): boolean {
+    return layouts.delete(type.toLowerCase());
+  }
+
+  /**
+   * Returns registered signature payload types, sorted.
+   * @returns
+   */
+  export function registeredTypes(): string[] {
+    return [...layouts.keys()].sort();
+  }
+
+  /**
+   * Returns the hash of the signed message, either from the message or, if the payload carries only the hash,
+   * from the message hash.
+   * @param signaturePayload
+   * @returns
+   */
+  export function messageHash(signaturePayload: ISignaturePayload): string {
+    if (signaturePayload.message) {
+      return ProtocolMessageMerkleRoot.hash(signaturePayload.message);
+    }
+    if (!signaturePayload.messageHash) {
+      throw Error("Invalid signature payload: no message or message hash");
+    }
+    return signaturePayload.messageHash;
+  }
+
   /**
    * Endodes signature payload into byte encoding, represented by 0x-prefixed hex string
    * @param signaturePayload
    * @returns
    */
   export function encode(signaturePayload: ISignaturePayload): string {
-    const message = ProtocolMessageMerkleRoot.encode(signaturePayload.message);
-    const signature = ECDSASignature.encode(signaturePayload.signature);
-    return (
-      "0x" +
-      signaturePayload.type.slice(2) +
-      message.slice(2) +
-      signature.slice(2) +
-      signaturePayload.unsignedMessage.slice(2)
-    ).toLowerCase();
+    return ByteUtils.bytesToHex(encodeBytes(signaturePayload));
+  }
+
+  /**
+   * Endodes signature payload into byte encoding, represented by byte array.
+   * The layout is determined by the type of the payload.
+   * @param signaturePayload
+   * @returns
+   */
+  export function encodeBytes(signaturePayload: ISignaturePayload): Uint8Array {
+    if (!/^0x[0-9a-f]{2}$/i.test(signaturePayload.type)) {
+      throw Error(`Invalid signature payload type: ${signaturePayload.type}`);
+    }
+    const layout = layouts.get(signaturePayload.type.toLowerCase());
+    if (!layout) {
+      throw Error(`Unknown signature payload type: ${signaturePayload.type}`);
+    }
+    if (!/^0x([0-9a-f][0-9a-f])*$/i.test(signaturePayload.unsignedMessage)) {
+      throw Error(`Invalid unsigned message format: ${signaturePayload.unsignedMessage}`);
+    }
+    return layout.encodeBytes(signaturePayload);
   }
 
   /**
@@ -46,47 +147,169 @@ export namespace SignaturePayload {
    * @returns
    */
   export function decode(encodedSignaturePayload: string): ISignaturePayload {
-    const encodedSignaturePayloadInternal = encodedSignaturePayload.startsWith("0x")
-      ? encodedSignaturePayload.slice(2)
-      : encodedSignaturePayload;
-    if (!/^[0-9a-f]*$/.test(encodedSignaturePayloadInternal)) {
-      throw Error(`Invalid format - not hex string: ${encodedSignaturePayload}`);
-    }
-    if (encodedSignaturePayloadInternal.length < 2 + 38 * 2 + 65 * 2) {
-      throw Error(`Invalid format - too short: ${encodedSignaturePayload}`);
-    }
-    const type = "0x" + encodedSignaturePayloadInternal.slice(0, 2);
-    const message = "0x" + encodedSignaturePayloadInternal.slice(2, 2 + 38 * 2);
-    const signature = "0x" + encodedSignaturePayloadInternal.slice(2 + 38 * 2, 2 + 38 * 2 + 65 * 2);
-    const unsignedMessage = "0x" + encodedSignaturePayloadInternal.slice(2 + 38 * 2 + 65 * 2);
+    return decodeBytes(ByteUtils.hexToBytes(encodedSignaturePayload, CODEC));
+  }
+
+  /**
+   * Decodes signature payload from byte encoding, represented by byte array.
+   * The layout is determined by the first (type) byte. Unknown types are rejected.
+   * @param encodedSignaturePayload
+   * @returns
+   */
+  export function decodeBytes(encodedSignaturePayload: Uint8Array): ISignaturePayload {
+    if (encodedSignaturePayload.length === 0) {
+      throw new ProtocolDecodeError(CODEC, "type", 0, "Invalid format - too short", 1, 0);
+    }
+    const type = ByteUtils.bytesToHex(encodedSignaturePayload, 0, 1);
+    const layout = layouts.get(type);
+    if (!layout) {
+      throw new ProtocolDecodeError(
+        CODEC,
+        "type",
+        0,
+        `Unknown signature payload type ${type} (registered types: ${registeredTypes().join(", ")})`
+      );
+    }
+    return layout.decodeBytes(encodedSignaturePayload);
+  }
+
+  /**
+   * Decodes a layout consisting of the type byte, a fixed length part and the unsigned message (the rest).
+   */
+  function decodeFixedLayout<T>(
+    encodedSignaturePayload: Uint8Array,
+    fixedBytes: number,
+    decodeFixed: () => T
+  ): T & { type: string; unsignedMessage: string } {
+    const unsignedMessageStart = 1 + fixedBytes;
+    if (encodedSignaturePayload.length < unsignedMessageStart) {
+      throw new ProtocolDecodeError(
+        CODEC,
+        "payload",
+        0,
+        "Invalid format - too short",
+        unsignedMessageStart,
+        encodedSignaturePayload.length
+      );
+    }
     return {
-      type,
-      message: ProtocolMessageMerkleRoot.decode(message),
-      signature: ECDSASignature.decode(signature),
-      unsignedMessage,
+      type: ByteUtils.bytesToHex(encodedSignaturePayload, 0, 1),
+      ...decodeFixed(),
+      unsignedMessage: ByteUtils.bytesToHex(encodedSignaturePayload, unsignedMessageStart),
     };
   }
 
+  function requireMessage(signaturePayload: ISignaturePayload): IProtocolMessageMerkleRoot {
+    if (!signaturePayload.message) {
+      throw Error(`Invalid signature payload of type ${signaturePayload.type}: no message`);
+    }
+    return signaturePayload.message;
+  }
+
+  registerType({
+    type: TYPE_MESSAGE,
+    description: "message, signature, unsigned message",
+    encodeBytes: signaturePayload =>
+      ByteUtils.concatenateBytes([
+        ByteUtils.hexToBytes(TYPE_MESSAGE),
+        ProtocolMessageMerkleRoot.encodeBytes(requireMessage(signaturePayload)),
+        ECDSASignature.encodeBytes(signaturePayload.signature),
+        ByteUtils.hexToBytes(signaturePayload.unsignedMessage),
+      ]),
+    decodeBytes: encoded => {
+      const signatureStart = 1 + ProtocolMessageMerkleRoot.ENCODED_BYTES;
+      const signatureEnd = signatureStart + ECDSASignature.ENCODED_BYTES;
+      return decodeFixedLayout(encoded, signatureEnd - 1, () => ({
+        message: ProtocolDecodeError.nested(CODEC, "message", 1, () =>
+          ProtocolMessageMerkleRoot.decodeBytes(encoded.subarray(1, signatureStart))
+        ),
+        signature: ProtocolDecodeError.nested(CODEC, "signature", signatureStart, () =>
+          ECDSASignature.decodeBytes(encoded.subarray(signatureStart, signatureEnd))
+        ),
+      }));
+    },
+  });
+
+  registerType({
+    type: TYPE_MESSAGE_HASH,
+    description: "message hash, signature, unsigned message",
+    encodeBytes: signaturePayload => {
+      const hash = new Uint8Array(MESSAGE_HASH_BYTES);
+      ByteUtils.writeHex(hash, 0, messageHash(signaturePayload), MESSAGE_HASH_BYTES);
+      return ByteUtils.concatenateBytes([
+        ByteUtils.hexToBytes(TYPE_MESSAGE_HASH),
+        hash,
+        ECDSASignature.encodeBytes(signaturePayload.signature),
+        ByteUtils.hexToBytes(signaturePayload.unsignedMessage),
+      ]);
+    },
+    decodeBytes: encoded => {
+      const signatureStart = 1 + MESSAGE_HASH_BYTES;
+      const signatureEnd = signatureStart + ECDSASignature.ENCODED_BYTES;
+      return decodeFixedLayout(encoded, signatureEnd - 1, () => ({
+        messageHash: ByteUtils.bytesToHex(encoded, 1, signatureStart),
+        signature: ProtocolDecodeError.nested(CODEC, "signature", signatureStart, () =>
+          ECDSASignature.decodeBytes(encoded.subarray(signatureStart, signatureEnd))
+        ),
+      }));
+    },
+  });
+
+  registerType({
+    type: TYPE_COMPACT_SIGNATURE,
+    description: "message, compact EIP-2098 signature, unsigned message",
+    encodeBytes: signaturePayload =>
+      ByteUtils.concatenateBytes([
+        ByteUtils.hexToBytes(TYPE_COMPACT_SIGNATURE),
+        ProtocolMessageMerkleRoot.encodeBytes(requireMessage(signaturePayload)),
+        ECDSASignature.encodeCompactBytes(signaturePayload.signature),
+        ByteUtils.hexToBytes(signaturePayload.unsignedMessage),
+      ]),
+    decodeBytes: encoded => {
+      const signatureStart = 1 + ProtocolMessageMerkleRoot.ENCODED_BYTES;
+      const signatureEnd = signatureStart + ECDSASignature.COMPACT_ENCODED_BYTES;
+      return decodeFixedLayout(encoded, signatureEnd - 1, () => ({
+        message: ProtocolDecodeError.nested(CODEC, "message", 1, () =>
+          ProtocolMessageMerkleRoot.decodeBytes(encoded.subarray(1, signatureStart))
+        ),
+        signature: ProtocolDecodeError.nested(CODEC, "signature", signatureStart, () =>
+          ECDSASignature.decodeCompactBytes(encoded.subarray(signatureStart, signatureEnd))
+        ),
+      }));
+    },
+  });
+
   /**
    * Decodes properly formated signature calldata into array of payloads with signatures
    * @param calldata
    */
   export function decodeCalldata(calldata: string): IPayloadMessage<ISignaturePayload>[] {
-    const calldataInternal = calldata.startsWith("0x") ? calldata.slice(2) : calldata;
-    if (!(/^[0-9a-f]*$/.test(calldataInternal) && calldataInternal.length % 2 === 0)) {
-      throw Error(`Invalid format - not byte sequence representing hex string: ${calldata}`);
-    }
-    if (calldataInternal.length < 8) {
-      throw Error(`Invalid format - too short: ${calldata}`);
+    return decodeCalldataBytes(ByteUtils.hexToBytes(calldata, CALLDATA_CODEC));
+  }
+
+  /**
+   * Decodes properly formated signature calldata, represented by byte array, into array of payloads with signatures
+   * @param calldata
+   */
+  export function decodeCalldataBytes(calldata: Uint8Array): IPayloadMessage<ISignaturePayload>[] {
+    if (calldata.length < 4) {
+      throw new ProtocolDecodeError(CALLDATA_CODEC, "selector", 0, "Invalid format - too short", 4, calldata.length);
     }
-    const strippedCalldata = "0x" + calldataInternal.slice(8);
-    const signatureRecords = PayloadMessage.decode(strippedCalldata);
+    // skip function selector
+    const signatureRecords = ProtocolDecodeError.nested(CALLDATA_CODEC, "payloads", 4, () =>
+      PayloadMessage.decodeBytes(calldata.subarray(4))
+    );
     const result: IPayloadMessage<ISignaturePayload>[] = [];
-    for (let record of signatureRecords) {
+    for (let i = 0; i < signatureRecords.length; i++) {
+      const record = signatureRecords[i];
+      // payloads are views into calldata
+      const offset = record.payload.byteOffset - calldata.byteOffset;
       result.push({
         protocolId: record.protocolId,
         votingRoundId: record.votingRoundId,
-        payload: SignaturePayload.decode(record.payload),
+        payload: ProtocolDecodeError.nested(CALLDATA_CODEC, `payloads[${i}]`, offset, () =>
+          SignaturePayload.decodeBytes(record.payload)
+        ),
       });
     }
     return result;
@@ -95,19 +318,21 @@ export namespace SignaturePayload {
   /**
    * Verifies signatures against message hash and signing policy.
    * The signatures have to be from signing policy and sorted according to signing policy.
+   * Their total weight has to pass the signing policy threshold (see @see Threshold.passes).
    * @param signaturePayloads
    * @param signingPolicy
+   * @param context signer recovery cache
    * @returns
    */
   export function verifySignatures(
     messageHash: string,
     signatures: IECDSASignature[],
-    signingPolicy: ISigningPolicy
+    signingPolicy: ISigningPolicy,
+    context: SignatureVerificationContext = SignatureVerificationContext.shared
   ): boolean {
     if (signatures.length === 0) {
       return false;
     }
-    const web3 = new Web3();
     const weightMap: Map<string, number> = new Map<string, number>();
     const signerIndex: Map<string, number> = new Map<string, number>();
     for (let i = 0; i < signingPolicy.voters.length; i++) {
@@ -117,12 +342,7 @@ export namespace SignaturePayload {
     let totalWeight = 0;
     let nextAllowedSignerIndex = 0;
     for (let signature of signatures) {
-      const signer = web3.eth.accounts.recover(
-        messageHash,
-        "0x" + signature.v.toString(16),
-        signature.r,
-        signature.s
-      ).toLowerCase();
+      const signer = context.recoverSigner(messageHash, signature);
       const index = signerIndex.get(signer);
       if (index === undefined) {
         throw Error(`Invalid signer: ${signer}. Not in signing policy`);
@@ -136,7 +356,7 @@ export namespace SignaturePayload {
         throw Error(`Invalid signer: ${signer}. Not in signing policy`);
       }
       totalWeight += weight;
-      if (totalWeight >= signingPolicy.threshold) {
+      if (Threshold.passes(totalWeight, signingPolicy.threshold)) {
         return true;
       }
     }
@@ -149,26 +369,26 @@ export namespace SignaturePayload {
    * are sorted according to signing policy.
    * @param signaturePayloads
    * @param signingPolicy
+   * @param context signer recovery cache
    * @returns
    */
   export function verifySignaturePayloads(
     signaturePayloads: IPayloadMessage<ISignaturePayload>[],
-    signingPolicy: ISigningPolicy
+    signingPolicy: ISigningPolicy,
+    context: SignatureVerificationContext = SignatureVerificationContext.shared
   ): boolean {
     if (signaturePayloads.length === 0) {
       return false;
     }
-    const web3 = new Web3();
-    const message: IProtocolMessageMerkleRoot = signaturePayloads[0].payload.message;
-    const messageHash = web3.utils.keccak256(ProtocolMessageMerkleRoot.encode(message));
+    const hash = messageHash(signaturePayloads[0].payload);
     const signatures: IECDSASignature[] = [];
     for (let payload of signaturePayloads) {
-      if (!ProtocolMessageMerkleRoot.equals(payload.payload.message, message)) {
+      if (messageHash(payload.payload) !== hash) {
         throw Error(`Invalid payload message`);
       }
       signatures.push(payload.payload.signature);
     }
-    return verifySignatures(messageHash, signatures, signingPolicy);
+    return verifySignatures(hash, signatures, signingPolicy, context);
   }
 
   /**
@@ -176,27 +396,57 @@ export namespace SignaturePayload {
    * Also adds message hash.
    * @param signaturePayload 
    * @param signerIndices 
+   * @param context signer recovery cache
    * @returns 
    */
   export function augment(
     signaturePayload: ISignaturePayload,
-    signerIndices: Map<string, number>
+    signerIndices: Map<string, number>,
+    context: SignatureVerificationContext = SignatureVerificationContext.shared
   ) {
-    const web3 = new Web3();
-    const messageHash = web3.utils.keccak256(ProtocolMessageMerkleRoot.encode(signaturePayload.message));
-    const signer = web3.eth.accounts.recover(
-      messageHash,
-      "0x" + signaturePayload.signature.v.toString(16),
-      signaturePayload.signature.r,
-      signaturePayload.signature.s
-    ).toLowerCase();
+    const hash = messageHash(signaturePayload);
+    const signer = context.recoverSigner(hash, signaturePayload.signature);
     const index = signerIndices.get(signer);
     return {
       ...signaturePayload,
       signer,
       index,
-      messageHash
+      messageHash: hash
+    }
+  }
+
+  /**
+   * Recovers signers of a batch of signature payloads (possibly for different messages) and augments
+   * the payloads with signer, index and weight in signing policy and message hash.
+   * Index and weight are not set for signers not in signing policy.
+   * @param signaturePayloads
+   * @param signingPolicy
+   * @param context signer recovery cache
+   * @returns
+   */
+  export function verifyBatch(
+    signaturePayloads: ISignaturePayload[],
+    signingPolicy: ISigningPolicy,
+    context: SignatureVerificationContext = SignatureVerificationContext.shared
+  ): ISignaturePayload[] {
+    const signerIndex = new Map<string, number>();
+    for (let i = 0; i < signingPolicy.voters.length; i++) {
+      signerIndex.set(signingPolicy.voters[i].toLowerCase(), i);
     }
+    const hashes = signaturePayloads.map(payload => messageHash(payload));
+    const signers = context.recoverSigners(
+      signaturePayloads.map((payload, i) => ({ messageHash: hashes[i], signature: payload.signature }))
+    );
+    return signaturePayloads.map((payload, i) => {
+      const index = signerIndex.get(signers[i]);
+      return {
+        ...payload,
+        signer: signers[i],
+        index,
+        weight: index === undefined ? undefined : signingPolicy.weights[index],
+        messageHash: hashes[i],
+      };
+    });
   }
 
   export function insertInSigningPolicySortedList(
@@ -264,6 +514,60 @@ export namespace SignaturePayload {
     return signatures;
   }
 
+  /**
+   * Selects a subset of signature payloads, which total weight exceeds the threshold, as required by Relay.sol.
+   * Payloads have to be augmented with signing policy indices (see @see augment) and have the same message.
+   * Duplicates (by index) are ignored. The result is sorted by signing policy index, as needed for @see encodeForRelay.
+   * @param signaturePayloads
+   * @param signingPolicy signing policy, which provides weights
+   * @param threshold threshold to exceed (may differ from the signing policy threshold, e.g. if the next signing policy is late)
+   * @param strategy
+   * @returns
+   */
+  export function selectForRelay(
+    signaturePayloads: ISignaturePayload[],
+    signingPolicy: ISigningPolicy,
+    threshold: number,
+    strategy = SignatureSelectionStrategy.FEWEST_SIGNATURES
+  ): ISignaturePayload[] {
+    const candidates: ISignaturePayload[] = [];
+    const indices = new Set<number>();
+    for (const payload of signaturePayloads) {
+      if (payload.index === undefined || payload.index < 0 || payload.index >= signingPolicy.weights.length) {
+        throw Error(`Payload does not have a valid signing policy index: ${payload.index}`);
+      }
+      if (!indices.has(payload.index)) {
+        indices.add(payload.index);
+        candidates.push(payload);
+      }
+    }
+    const weight = (payload: ISignaturePayload) => signingPolicy.weights[payload.index!];
+    switch (strategy) {
+      case SignatureSelectionStrategy.FEWEST_SIGNATURES:
+        candidates.sort((a, b) => weight(b) - weight(a) || a.index! - b.index!);
+        break;
+      case SignatureSelectionStrategy.EARLIEST_ARRIVAL:
+        // stable sort, payloads with unknown arrival time keep their order at the end
+        candidates.sort((a, b) => (a.timestamp ?? Number.MAX_SAFE_INTEGER) - (b.timestamp ?? Number.MAX_SAFE_INTEGER));
+        break;
+      case SignatureSelectionStrategy.LOWEST_INDEX:
+        candidates.sort((a, b) => a.index! - b.index!);
+        break;
+      default:
+        throw Error(`Unknown signature selection strategy: ${strategy}`);
+    }
+    const selected: ISignaturePayload[] = [];
+    let totalWeight = 0;
+    for (const payload of candidates) {
+      selected.push(payload);
+      totalWeight += weight(payload);
+      if (Threshold.passes(totalWeight, threshold)) {
+        return selected.sort((a, b) => a.index! - b.index!);
+      }
+    }
+    throw Error(`Threshold not reached: ${totalWeight} <= ${threshold}`);
+  }
+
   /**
    * Sorts signature payloads according to signing policy.
    * It assumes signature payloads have the same message.
@@ -271,13 +575,14 @@ export namespace SignaturePayload {
    * It also removes the duplicates.
    * @param signaturePayloads
    * @param signingPolicy
+   * @param context signer recovery cache
    */
   export function sortedSignaturePayloadsBySigner(
     signaturePayloads: IPayloadMessage<ISignaturePayload>[],
-    signingPolicy: ISigningPolicy
+    signingPolicy: ISigningPolicy,
+    context: SignatureVerificationContext = SignatureVerificationContext.shared
   ) {
     const signerIndex: Map<string, number> = new Map<string, number>();
-    const web3 = new Web3();
 
     for (let i = 0; i < signingPolicy.voters.length; i++) {
       signerIndex.set(signingPolicy.voters[i].toLowerCase(), i);
@@ -286,19 +591,14 @@ export namespace SignaturePayload {
       return [];
     }
 
+    const hash = messageHash(signaturePayloads[0].payload);
     for (let payload of signaturePayloads) {
-      if (!ProtocolMessageMerkleRoot.equals(payload.payload.message, signaturePayloads[0].payload.message)) {
+      if (messageHash(payload.payload) !== hash) {
         throw Error(`Invalid payload message`);
       }
     }
-    const messageHash = web3.utils.keccak256(ProtocolMessageMerkleRoot.encode(signaturePayloads[0].payload.message));
     let newSignaturePayloads = signaturePayloads.map((value) => {
-      const signer = web3.eth.accounts.recover(
-        messageHash,
-        "0x" + value.payload.signature.v.toString(16),
-        value.payload.signature.r,
-        value.payload.signature.s
-      ).toLowerCase();
+      const signer = context.recoverSigner(hash, value.payload.signature);
       if (signer === undefined) {
         throw Error(`Undefined signer.`);
       }
@@ -334,6 +634,9 @@ export namespace SignaturePayload {
     // votingRoundId => protocolId => SignaturePayload[]
     const result = new Map<number, Map<number, ISignaturePayload[]>>();
     for (let payload of signaturePayloads) {
+      if (!payload.message) {
+        throw Error(`Signature payload of type ${payload.type} has no message`);
+      }
       if (!result.has(payload.message.votingRoundId)) {
         result.set(payload.message.votingRoundId, new Map<number, ISignaturePayload[]>());
       }
@@ -345,4 +648,35 @@ export namespace SignaturePayload {
     }
     return result;
   }
+
+  /**
+   * Converts signature payload into canonical JSON object (see @see ProtocolJSON).
+   * @param signaturePayload
+   * @returns
+   */
+  export function toJSON(signaturePayload: ISignaturePayload): ISignaturePayload {
+    return ProtocolJSON.validate(
+      "SignaturePayload",
+      ProtocolJSON.compact({
+        type: ProtocolJSON.hex(signaturePayload.type),
+        message: signaturePayload.message && ProtocolMessageMerkleRoot.toJSON(signaturePayload.message),
+        signature: ECDSASignature.toJSON(signaturePayload.signature),
+        unsignedMessage: ProtocolJSON.hex(signaturePayload.unsignedMessage),
+        signer: signaturePayload.signer && ProtocolJSON.hex(signaturePayload.signer),
+        index: signaturePayload.index,
+        messageHash: signaturePayload.messageHash && ProtocolJSON.hex(signaturePayload.messageHash),
+        weight: signaturePayload.weight,
+        timestamp: signaturePayload.timestamp,
+      })
+    );
+  }
+
+  /**
+   * Validates JSON string or object and converts it into signature payload in canonical form.
+   * @param json
+   * @returns
+   */
+  export function fromJSON(json: string | object): ISignaturePayload {
+    return toJSON(ProtocolJSON.validate("SignaturePayload", json));
+  }
 }
@@ -0,0 +1,83 @@
+import { ECDSASignature, IECDSASignature } from "./ECDSASignature";
+
+/**
+ * Message hash and signature, whose signer is to be recovered.
+ */
+export interface ISignedMessageHash {
+  messageHash: string;
+  signature: IECDSASignature;
+}
+
+/**
+ * Cache of signers recovered from (message hash, signature) pairs.
+ * Recovery is done by ECDSASignature.recoverSigner, which uses a single module-level crypto backend.
+ * The same signature is usually recovered several times (verification, augmentation, sorting for relay),
+ * hence the cache removes most of the recovery cost on rounds with many voters and sub-protocols.
+ * Least recently used entries are evicted when the cache is full.
+ */
+export class SignatureVerificationContext {
+  /**
+   * Context used by SignaturePayload functions, if no other is given.
+   */
+  static readonly shared = new SignatureVerificationContext();
+
+  private readonly signers = new Map<string, string>();
+  hits = 0;
+  misses = 0;
+
+  /**
+   * @param maxEntries maximal number of cached signers
+   */
+  constructor(public readonly maxEntries: number = 100000) {
+    if (maxEntries < 1) {
+      throw Error(`Invalid max entries: ${maxEntries}`);
+    }
+  }
+
+  get size(): number {
+    return this.signers.size;
+  }
+
+  /**
+   * Recovers signer address (lowercase) from message hash and signature, using the cache.
+   * @param messageHash
+   * @param signature
+   * @returns
+   */
+  recoverSigner(messageHash: string, signature: IECDSASignature): string {
+    const key = `${messageHash}${signature.r.slice(2)}${signature.s.slice(2)}${signature.v}`.toLowerCase();
+    const cached = this.signers.get(key);
+    if (cached !== undefined) {
+      this.hits++;
+      // refresh the position for LRU eviction
+      this.signers.delete(key);
+      this.signers.set(key, cached);
+      return cached;
+    }
+    this.misses++;
+    const signer = ECDSASignature.recoverSigner(messageHash, signature);
+    this.signers.set(key, signer);
+    if (this.signers.size > this.maxEntries) {
+      this.signers.delete(this.signers.keys().next().value!);
+    }
+    return signer;
+  }
+
+  /**
+   * Recovers signers of a batch of signed message hashes.
+   * @param batch
+   * @returns signers (lowercase) in the order of the batch
+   */
+  recoverSigners(batch: ISignedMessageHash[]): string[] {
+    return batch.map(item => this.recoverSigner(item.messageHash, item.signature));
+  }
+
+  /**
+   * Clears the cache and statistics.
+   */
+  clear() {
+    this.signers.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+}
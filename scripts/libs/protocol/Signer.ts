@@ -0,0 +1,252 @@
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import Web3 from "web3";
+import { EncryptedKeystoreV3Json } from "web3-core";
+import { IECDSASignature } from "./ECDSASignature";
+
+/**
+ * Signer of message hashes. The message hash is signed as Ethereum signed message
+ * (prefixed with "\x19Ethereum Signed Message:\n32"), as expected by Relay.sol, VoterRegistry.sol etc.
+ * Implementations differ in where the private key is kept, so code that signs should not need the private key itself.
+ */
+export interface ISigner {
+  readonly address: string;
+  signHash(messageHash: string): Promise<IECDSASignature>;
+}
+
+const web3 = new Web3();
+
+function checkMessageHash(messageHash: string) {
+  if (!/^0x[0-9a-f]{64}$/i.test(messageHash)) {
+    throw Error(`Invalid message hash format: ${messageHash}`);
+  }
+}
+
+/**
+ * Response of the remote signer to GET <url>/address.
+ */
+interface IRemoteSignerAddressResponse {
+  address: string;
+}
+
+/**
+ * Response of the remote signer to POST <url>/sign.
+ */
+interface IRemoteSignerSignResponse {
+  v: number;
+  r: string;
+  s: string;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isAddressResponse(response: unknown): response is IRemoteSignerAddressResponse {
+  return isObject(response) && typeof response.address === "string" && /^0x[0-9a-f]{40}$/i.test(response.address);
+}
+
+function isSignResponse(response: unknown): response is IRemoteSignerSignResponse {
+  return (
+    isObject(response) &&
+    (response.v === 27 || response.v === 28) &&
+    typeof response.r === "string" &&
+    /^0x[0-9a-f]{64}$/i.test(response.r) &&
+    typeof response.s === "string" &&
+    /^0x[0-9a-f]{64}$/i.test(response.s)
+  );
+}
+
+/**
+ * Signer using a plaintext private key. Intended for tests and local simulations only.
+ */
+export class PrivateKeySigner implements ISigner {
+  readonly address: string;
+
+  constructor(private readonly privateKey: string) {
+    this.address = web3.eth.accounts.privateKeyToAccount(privateKey).address;
+  }
+
+  async signHash(messageHash: string): Promise<IECDSASignature> {
+    checkMessageHash(messageHash);
+    const signatureObject = web3.eth.accounts.sign(messageHash, this.privateKey);
+    return {
+      v: parseInt(signatureObject.v.slice(2), 16),
+      r: signatureObject.r,
+      s: signatureObject.s,
+    };
+  }
+}
+
+/**
+ * Signer using an encrypted web3 keystore (V3 keystore json, as produced by web3.eth.accounts.encrypt or geth).
+ * The private key is decrypted into memory only and never written anywhere.
+ */
+export class KeystoreSigner implements ISigner {
+  readonly address: string;
+  private readonly signer: PrivateKeySigner;
+
+  /**
+   * @param keystore keystore json (string or parsed object)
+   * @param password keystore password
+   */
+  constructor(keystore: string | EncryptedKeystoreV3Json, password: string) {
+    const keystoreObject: EncryptedKeystoreV3Json = typeof keystore === "string" ? JSON.parse(keystore) : keystore;
+    this.signer = new PrivateKeySigner(web3.eth.accounts.decrypt(keystoreObject, password).privateKey);
+    this.address = this.signer.address;
+  }
+
+  /**
+   * Reads and decrypts the keystore file.
+   * @param filePath path to the keystore json file
+   * @param password keystore password
+   * @returns
+   */
+  static fromFile(filePath: string, password: string): KeystoreSigner {
+    if (!fs.existsSync(filePath)) {
+      throw Error(`Keystore file not found: ${filePath}`);
+    }
+    return new KeystoreSigner(fs.readFileSync(filePath, "utf8"), password);
+  }
+
+  signHash(messageHash: string): Promise<IECDSASignature> {
+    return this.signer.signHash(messageHash);
+  }
+}
+
+/**
+ * Signer delegating signing to a remote signer over HTTP. The remote signer must implement:
+ * - GET  <url>/address -> { "address": "0x..." }
+ * - POST <url>/sign    { "messageHash": "0x..." } -> { "v": 27, "r": "0x...", "s": "0x..." }
+ * Responses are checked for shape and signatures against the signer address, so a misconfigured remote signer is detected immediately.
+ * The API has no authentication, so the remote signer (e.g. RemoteSignerServer) must only be reachable from localhost
+ * (or over an authenticated tunnel).
+ */
+export class RemoteSigner implements ISigner {
+  private constructor(
+    public readonly url: string,
+    public readonly address: string
+  ) {}
+
+  /**
+   * Connects to the remote signer and reads its address.
+   * @param url base url of the remote signer
+   * @param expectedAddress if set, the address of the remote signer must match it
+   * @returns
+   */
+  static async connect(url: string, expectedAddress?: string): Promise<RemoteSigner> {
+    const baseUrl = url.replace(/\/+$/, "");
+    const response = await RemoteSigner.request(`${baseUrl}/address`);
+    if (!isAddressResponse(response)) {
+      throw Error(`Invalid address from remote signer ${baseUrl}: ${JSON.stringify(response)}`);
+    }
+    if (expectedAddress && expectedAddress.toLowerCase() !== response.address.toLowerCase()) {
+      throw Error(`Remote signer ${baseUrl} address ${response.address} does not match expected ${expectedAddress}`);
+    }
+    return new RemoteSigner(baseUrl, response.address);
+  }
+
+  async signHash(messageHash: string): Promise<IECDSASignature> {
+    checkMessageHash(messageHash);
+    const response = await RemoteSigner.request(`${this.url}/sign`, { messageHash });
+    if (!isSignResponse(response)) {
+      throw Error(`Invalid signature from remote signer ${this.url}: ${JSON.stringify(response)}`);
+    }
+    const signature: IECDSASignature = { v: response.v, r: response.r, s: response.s };
+    const signer = web3.eth.accounts.recover(messageHash, "0x" + signature.v.toString(16), signature.r, signature.s);
+    if (signer.toLowerCase() !== this.address.toLowerCase()) {
+      throw Error(`Signature from remote signer ${this.url} is signed by ${signer} instead of ${this.address}`);
+    }
+    return signature;
+  }
+
+  private static async request(url: string, body?: object): Promise<unknown> {
+    const response = await fetch(url, {
+      method: body ? "POST" : "GET",
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+      throw Error(`Remote signer request ${url} failed: ${response.status} ${await response.text()}`);
+    }
+    return response.json();
+  }
+}
+
+/**
+ * Local stand-in for a remote signer. Serves the RemoteSigner HTTP API for the given signer,
+ * e.g. a KeystoreSigner on a separate machine, or a PrivateKeySigner in tests.
+ * The server has no authentication (anyone who can connect gets signatures), so it must stay bound to localhost.
+ */
+export class RemoteSignerServer {
+  private server?: http.Server;
+
+  constructor(public readonly signer: ISigner) {}
+
+  /**
+   * Starts listening.
+   * @param port port to listen on (0 for a random free port)
+   * @param host host to listen on, by default only local connections are accepted
+   * @returns base url of the server
+   */
+  async start(port: number = 0, host: string = "127.0.0.1"): Promise<string> {
+    if (this.server) {
+      throw Error("Remote signer server already started");
+    }
+    const server = http.createServer((request, response) => void this.handle(request, response));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+    return `http://${host}:${(server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Stops the server.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse) {
+    const reply = (status: number, body: object) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    };
+    try {
+      if (request.method === "GET" && request.url === "/address") {
+        reply(200, { address: this.signer.address });
+      } else if (request.method === "POST" && request.url === "/sign") {
+        let data = "";
+        for await (const chunk of request) {
+          data += chunk;
+        }
+        const { messageHash } = JSON.parse(data);
+        reply(200, await this.signer.signHash(messageHash));
+      } else {
+        reply(404, { error: `Not found: ${request.method} ${request.url}` });
+      }
+    } catch (e) {
+      reply(400, { error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+}
+
+export namespace Signer {
+  /**
+   * Returns the signer for the private key, or the signer itself.
+   * Plaintext private keys are accepted for backward compatibility and tests.
+   * @param signer private key or signer
+   * @returns
+   */
+  export function from(signer: string | ISigner): ISigner {
+    return typeof signer === "string" ? new PrivateKeySigner(signer) : signer;
+  }
+}
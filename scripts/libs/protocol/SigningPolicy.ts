@@ -1,6 +1,9 @@
 
 
 import { ethers } from "ethers";
+import { ByteUtils } from "./ByteUtils";
+import { ProtocolDecodeError } from "./ProtocolDecodeError";
+import { ProtocolJSON } from "./ProtocolJSON";
 
 export interface ISigningPolicy {
   rewardEpochId: number;
@@ -13,6 +16,7 @@ export interface ISigningPolicy {
 }
 
 export namespace SigningPolicy {
+  const CODEC = "SigningPolicy";
 
   //////////////////////////////////////////////////////////////////////////////
   // Signing policy byte encoding structure
@@ -26,12 +30,33 @@ export namespace SigningPolicy {
   // - 2 bytes weight
   // Total 43 + size * (20 + 2) bytes
   //////////////////////////////////////////////////////////////////////////////
+  export const METADATA_BYTES = 43; // 2 + 3 + 4 + 2 + 32
+  export const VOTER_BYTES = 22; // 20 + 2
+
+  /**
+   * Returns the length of byte encoding of the signing policy.
+   * @param policy
+   * @returns
+   */
+  export function encodedBytesLength(policy: ISigningPolicy): number {
+    return METADATA_BYTES + policy.voters.length * VOTER_BYTES;
+  }
+
   /**
    * Encodes signing policy into 0x-prefixed hex string representing byte encoding
    * @param policy
    * @returns
    */
   export function encode(policy: ISigningPolicy) {
+    return ByteUtils.bytesToHex(encodeBytes(policy));
+  }
+
+  /**
+   * Encodes signing policy into byte encoding.
+   * @param policy
+   * @returns
+   */
+  export function encodeBytes(policy: ISigningPolicy): Uint8Array {
     if (!policy) {
       throw Error("Signing policy is undefined");
     }
@@ -41,7 +66,6 @@ export namespace SigningPolicy {
     if (policy.voters.length !== policy.weights.length) {
       throw Error("Invalid signing policy");
     }
-    let signersAndWeights = "";
     const size = policy.voters.length;
     if (size > 2 ** 16 - 1) {
       throw Error("Too many signers");
@@ -54,9 +78,6 @@ export namespace SigningPolicy {
         throw Error(`Invalid signer weight: ${policy.weights[i]}`);
       }
     }
-    for (let i = 0; i < size; i++) {
-      signersAndWeights += policy.voters[i].slice(2) + policy.weights[i].toString(16).padStart(4, "0");
-    }
     if (!/^0x[0-9a-f]{64}$/i.test(policy.seed)) {
       throw Error(`Invalid random seed format: ${policy.seed}`);
     }
@@ -69,15 +90,19 @@ export namespace SigningPolicy {
     if (policy.threshold < 0 || policy.threshold > 2 ** 16 - 1 || policy.threshold % 1 !== 0) {
       throw Error(`Threshold out of range: ${policy.threshold}`);
     }
-    return (
-      "0x" +
-      size.toString(16).padStart(4, "0") +
-      policy.rewardEpochId.toString(16).padStart(6, "0") +
-      policy.startVotingRoundId.toString(16).padStart(8, "0") +
-      policy.threshold.toString(16).padStart(4, "0") +
-      policy.seed.slice(2) +
-      signersAndWeights
-    ).toLowerCase();
+    const bytes = new Uint8Array(encodedBytesLength(policy));
+    const view = ByteUtils.dataView(bytes);
+    view.setUint16(0, size);
+    ByteUtils.setUint24(view, 2, policy.rewardEpochId);
+    view.setUint32(5, policy.startVotingRoundId);
+    view.setUint16(9, policy.threshold);
+    ByteUtils.writeHex(bytes, 11, policy.seed, 32);
+    for (let i = 0; i < size; i++) {
+      const start = METADATA_BYTES + i * VOTER_BYTES;
+      ByteUtils.writeHex(bytes, start, policy.voters[i], 20);
+      view.setUint16(start + 20, policy.weights[i]);
+    }
+    return bytes;
   }
 
   /**
@@ -90,39 +115,58 @@ export namespace SigningPolicy {
    * @returns
    */
   export function decode(encodedPolicy: string, exactEncoding = true): ISigningPolicy {
-    const encodedPolicyInternal = (encodedPolicy.startsWith("0x") ? encodedPolicy.slice(2) : encodedPolicy).toLowerCase();
-    if (!/^[0-9a-f]*$/.test(encodedPolicyInternal)) {
-      throw Error(`Invalid format - not hex string: ${encodedPolicy}`);
-    }
-    if (encodedPolicyInternal.length % 2 !== 0) {
-      throw Error(`Invalid format - not even length: ${encodedPolicy.length}`);
+    const policy = decodeBytes(ByteUtils.hexToBytes(encodedPolicy, CODEC), exactEncoding);
+    if (!exactEncoding) {
+      policy.encodedLength = encodedBytesLength(policy) * 2;
     }
-    if (encodedPolicyInternal.length < 4) {
-      throw Error("Too short encoded signing policy");
+    return policy;
+  }
+
+  /**
+   * Decodes signing policy from byte encoding.
+   * @param encodedPolicy
+   * @param exactEncoding - if true, then encoded policy length must be exactly 43 + size * (20 + 2) bytes
+   *                       if false, then encoded policy length must be at least that size and the excess bytes are ignored
+   *                       (this is used when parsing signing policy encoded into Relay message).
+   *                       Use @see encodedBytesLength to get the length of the encoded policy.
+   * @returns
+   */
+  export function decodeBytes(encodedPolicy: Uint8Array, exactEncoding = true): ISigningPolicy {
+    if (encodedPolicy.length < METADATA_BYTES) {
+      throw new ProtocolDecodeError(CODEC, "metadata", 0, "Too short encoded signing policy", METADATA_BYTES, encodedPolicy.length);
     }
-    const size = parseInt(encodedPolicyInternal.slice(0, 4), 16);
-    const expectedLength = 86 + size * (20 + 2) * 2; //(2 + 3 + 4 + 2 + 32) * 2 = 86
-    if (exactEncoding && encodedPolicyInternal.length !== expectedLength) {
-      throw Error(`Invalid encoded signing policy length: size = ${size}, length = ${encodedPolicyInternal.length}`);
+    const view = ByteUtils.dataView(encodedPolicy);
+    const size = view.getUint16(0);
+    const expectedLength = METADATA_BYTES + size * VOTER_BYTES;
+    if (encodedPolicy.length < expectedLength || (exactEncoding && encodedPolicy.length !== expectedLength)) {
+      throw new ProtocolDecodeError(
+        CODEC,
+        "voters",
+        METADATA_BYTES,
+        `Invalid encoded signing policy length for size ${size}`,
+        expectedLength - METADATA_BYTES,
+        encodedPolicy.length - METADATA_BYTES
+      );
     }
-    const rewardEpochId = parseInt(encodedPolicyInternal.slice(4, 10), 16);
-    const startingVotingRoundId = parseInt(encodedPolicyInternal.slice(10, 18), 16);
-    const threshold = parseInt(encodedPolicyInternal.slice(18, 22), 16);
-    const randomSeed = "0x" + encodedPolicyInternal.slice(22, 86);
+    const rewardEpochId = ByteUtils.getUint24(view, 2);
+    const startingVotingRoundId = view.getUint32(5);
+    const threshold = view.getUint16(9);
+    const randomSeed = ByteUtils.bytesToHex(encodedPolicy, 11, METADATA_BYTES);
+    // one native hex conversion and slicing is much faster than converting each address separately
+    const encodedVoters = ByteUtils.bytesToHex(encodedPolicy, METADATA_BYTES, expectedLength);
     const signers: string[] = [];
     const weights: number[] = [];
     let totalWeight = 0;
     for (let i = 0; i < size; i++) {
-      const start = 86 + i * 44; // 20 (address) + 2 (weight) = 44
-      signers.push("0x" + encodedPolicyInternal.slice(start, start + 40));
-      const weight = parseInt(encodedPolicyInternal.slice(start + 40, start + 44), 16);
+      const start = METADATA_BYTES + i * VOTER_BYTES;
+      signers.push("0x" + encodedVoters.slice(2 + i * VOTER_BYTES * 2, 2 + i * VOTER_BYTES * 2 + 40));
+      const weight = view.getUint16(start + 20);
       weights.push(weight);
       totalWeight += weight;
     }
     if (totalWeight > 2 ** 16 - 1) {
-      throw Error(`Total weight exceeds 16-byte value: ${totalWeight}`);
+      throw new ProtocolDecodeError(CODEC, "weights", METADATA_BYTES, `Total weight exceeds 16-bit value: ${totalWeight}`);
     }
-    const encodedLengthEntry = exactEncoding ? {} : {encodedLength: expectedLength};
     return {
       rewardEpochId,
       startVotingRoundId: startingVotingRoundId,
@@ -130,7 +174,6 @@ export namespace SigningPolicy {
       seed: randomSeed,
       voters: signers,
       weights,
-      ...encodedLengthEntry,
     };
   }
 
@@ -142,11 +185,27 @@ export namespace SigningPolicy {
    * @returns
    */
   export function hashEncoded(signingPolicy: string) {
-    const signingPolicyInternal = signingPolicy.startsWith("0x") ? signingPolicy.slice(2) : signingPolicy;
-    const splitted = signingPolicyInternal.match(/.{1,64}/g)!.map(x => x.padEnd(64, "0"))!;
-    let hash: string = ethers.keccak256("0x" + splitted[0] + splitted[1])!;
-    for (let i = 2; i < splitted!.length; i++) {
-      hash = ethers.keccak256("0x" + hash.slice(2) + splitted[i])!;
+    return hashEncodedBytes(ByteUtils.hexToBytes(signingPolicy));
+  }
+
+  /**
+   * Calculates signing policy hash from byte encoded signing policy. See @see hashEncoded.
+   * @param signingPolicy
+   * @returns
+   */
+  export function hashEncodedBytes(signingPolicy: Uint8Array): string {
+    if (signingPolicy.length <= 32) {
+      throw Error("Too short encoded signing policy");
+    }
+    const padded = new Uint8Array(Math.ceil(signingPolicy.length / 32) * 32);
+    padded.set(signingPolicy);
+    // first 32 bytes hold the last hash, the next 32 bytes the next chunk
+    const buffer = padded.slice(0, 64);
+    let hash = ethers.keccak256(buffer);
+    for (let i = 64; i < padded.length; i += 32) {
+      ByteUtils.writeHex(buffer, 0, hash, 32);
+      buffer.set(padded.subarray(i, i + 32), 32);
+      hash = ethers.keccak256(buffer);
     }
     return hash;
   }
@@ -166,7 +225,7 @@ export namespace SigningPolicy {
    * @returns 
    */
   export function hash(signingPolicy: ISigningPolicy) {
-    return SigningPolicy.hashEncoded(SigningPolicy.encode(signingPolicy));
+    return SigningPolicy.hashEncodedBytes(SigningPolicy.encodeBytes(signingPolicy));
   }
 
   /**
@@ -195,4 +254,32 @@ export namespace SigningPolicy {
     return true;
   }
 
+  /**
+   * Converts signing policy into canonical JSON object (see @see ProtocolJSON).
+   * @param signingPolicy
+   * @returns
+   */
+  export function toJSON(signingPolicy: ISigningPolicy): ISigningPolicy {
+    const result: ISigningPolicy = ProtocolJSON.validate("SigningPolicy", {
+      rewardEpochId: signingPolicy.rewardEpochId,
+      startVotingRoundId: signingPolicy.startVotingRoundId,
+      threshold: signingPolicy.threshold,
+      seed: ProtocolJSON.hex(signingPolicy.seed),
+      voters: signingPolicy.voters?.map(ProtocolJSON.hex),
+      weights: signingPolicy.weights?.slice(),
+    });
+    if (result.voters.length !== result.weights.length) {
+      throw Error(`Invalid SigningPolicy JSON: ${result.voters.length} voters and ${result.weights.length} weights`);
+    }
+    return result;
+  }
+
+  /**
+   * Validates JSON string or object and converts it into signing policy in canonical form.
+   * @param json
+   * @returns
+   */
+  export function fromJSON(json: string | object): ISigningPolicy {
+    return toJSON(ProtocolJSON.validate("SigningPolicy", json));
+  }
 }
@@ -0,0 +1,174 @@
+import { ISigningPolicy } from "./SigningPolicy";
+import { Threshold } from "./Threshold";
+
+export interface IVoterWithWeight {
+  voter: string;
+  index: number;
+  weight: number;
+}
+
+export interface IVoterWeightChange {
+  voter: string;
+  previousWeight: number;
+  weight: number;
+}
+
+export interface IVoterIndexChange {
+  voter: string;
+  previousIndex: number;
+  index: number;
+}
+
+/**
+ * Differences between two signing policies. Voters are matched by (lower case) signing policy address.
+ */
+export interface ISigningPolicyDiff {
+  previousRewardEpochId: number;
+  rewardEpochId: number;
+  addedVoters: IVoterWithWeight[];
+  removedVoters: IVoterWithWeight[];
+  weightChanges: IVoterWeightChange[];
+  indexChanges: IVoterIndexChange[];
+  previousThreshold: number;
+  threshold: number;
+  previousStartVotingRoundId: number;
+  startVotingRoundId: number;
+  seedChanged: boolean;
+}
+
+/**
+ * Concentration metrics of a signing policy.
+ */
+export interface ISigningPolicyMetrics {
+  rewardEpochId: number;
+  startVotingRoundId: number;
+  voterCount: number;
+  totalWeight: number;
+  threshold: number;
+  thresholdPPM: number; // threshold relative to total weight
+  maxWeight: number;
+  maxWeightPPM: number; // max weight relative to total weight
+  minVotersToReachThreshold: number; // min number of voters, which total weight exceeds the threshold
+  herfindahlIndexPPM: number; // sum of squared weight shares
+}
+
+export namespace SigningPolicyAnalytics {
+  const PPM_MAX = 1000000;
+
+  function votersByAddress(signingPolicy: ISigningPolicy): Map<string, IVoterWithWeight> {
+    const result = new Map<string, IVoterWithWeight>();
+    for (let i = 0; i < signingPolicy.voters.length; i++) {
+      const voter = signingPolicy.voters[i].toLowerCase();
+      if (result.has(voter)) {
+        throw Error(`Duplicate voter ${voter} in signing policy for reward epoch ${signingPolicy.rewardEpochId}`);
+      }
+      result.set(voter, { voter, index: i, weight: signingPolicy.weights[i] });
+    }
+    return result;
+  }
+
+  /**
+   * Compares two (usually consecutive) signing policies.
+   * @param previous
+   * @param current
+   * @returns
+   */
+  export function diff(previous: ISigningPolicy, current: ISigningPolicy): ISigningPolicyDiff {
+    const previousVoters = votersByAddress(previous);
+    const currentVoters = votersByAddress(current);
+    const result: ISigningPolicyDiff = {
+      previousRewardEpochId: previous.rewardEpochId,
+      rewardEpochId: current.rewardEpochId,
+      addedVoters: [],
+      removedVoters: [],
+      weightChanges: [],
+      indexChanges: [],
+      previousThreshold: previous.threshold,
+      threshold: current.threshold,
+      previousStartVotingRoundId: previous.startVotingRoundId,
+      startVotingRoundId: current.startVotingRoundId,
+      seedChanged: previous.seed.toLowerCase() !== current.seed.toLowerCase(),
+    };
+    for (const [voter, previousVoter] of previousVoters) {
+      if (!currentVoters.has(voter)) {
+        result.removedVoters.push(previousVoter);
+      }
+    }
+    for (const [voter, currentVoter] of currentVoters) {
+      const previousVoter = previousVoters.get(voter);
+      if (!previousVoter) {
+        result.addedVoters.push(currentVoter);
+        continue;
+      }
+      if (previousVoter.weight !== currentVoter.weight) {
+        result.weightChanges.push({ voter, previousWeight: previousVoter.weight, weight: currentVoter.weight });
+      }
+      if (previousVoter.index !== currentVoter.index) {
+        result.indexChanges.push({ voter, previousIndex: previousVoter.index, index: currentVoter.index });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Calculates the minimal number of voters, which total weight is above the threshold
+   * (as required by Relay.sol for confirmation), or 0 if the threshold can not be reached.
+   * @param signingPolicy
+   * @returns
+   */
+  export function minVotersToReachThreshold(signingPolicy: ISigningPolicy): number {
+    const weights = [...signingPolicy.weights].sort((a, b) => b - a);
+    let weight = 0;
+    for (let i = 0; i < weights.length; i++) {
+      weight += weights[i];
+      if (Threshold.passes(weight, signingPolicy.threshold)) {
+        return i + 1;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Calculates concentration metrics of the signing policy.
+   * @param signingPolicy
+   * @returns
+   */
+  export function metrics(signingPolicy: ISigningPolicy): ISigningPolicyMetrics {
+    const totalWeight = signingPolicy.weights.reduce((a, b) => a + b, 0);
+    const maxWeight = signingPolicy.weights.reduce((a, b) => Math.max(a, b), 0);
+    const share = (weight: number) => (totalWeight > 0 ? weight / totalWeight : 0);
+    const herfindahlIndex = signingPolicy.weights.reduce((a, weight) => a + share(weight) ** 2, 0);
+    return {
+      rewardEpochId: signingPolicy.rewardEpochId,
+      startVotingRoundId: signingPolicy.startVotingRoundId,
+      voterCount: signingPolicy.voters.length,
+      totalWeight,
+      threshold: signingPolicy.threshold,
+      thresholdPPM: Math.round(share(signingPolicy.threshold) * PPM_MAX),
+      maxWeight,
+      maxWeightPPM: Math.round(share(maxWeight) * PPM_MAX),
+      minVotersToReachThreshold: minVotersToReachThreshold(signingPolicy),
+      herfindahlIndexPPM: Math.round(herfindahlIndex * PPM_MAX),
+    };
+  }
+
+  /**
+   * Calculates metrics of all signing policies and diffs between consecutive ones.
+   * Signing policies are sorted by reward epoch id and only consecutive reward epochs are compared.
+   * @param signingPolicies
+   * @returns
+   */
+  export function analyze(signingPolicies: ISigningPolicy[]): { metrics: ISigningPolicyMetrics[]; diffs: ISigningPolicyDiff[] } {
+    const sorted = [...signingPolicies].sort((a, b) => a.rewardEpochId - b.rewardEpochId);
+    const diffs: ISigningPolicyDiff[] = [];
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].rewardEpochId === sorted[i - 1].rewardEpochId + 1) {
+        diffs.push(diff(sorted[i - 1], sorted[i]));
+      }
+    }
+    return {
+      metrics: sorted.map(signingPolicy => metrics(signingPolicy)),
+      diffs,
+    };
+  }
+}
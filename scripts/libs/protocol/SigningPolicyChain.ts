@@ -0,0 +1,192 @@
+import { ethers } from "ethers";
+import { ECDSASignatureWithIndex } from "./ECDSASignatureWithIndex";
+import { RelayMessage } from "./RelayMessage";
+import { ISigningPolicy, SigningPolicy } from "./SigningPolicy";
+import { Threshold } from "./Threshold";
+
+const RELAY_SELECTOR = ethers.id("relay()").slice(0, 10);
+const MAX_VOTERS = 300;
+
+/**
+ * Checks the new signing policy as Relay.sol does before accepting it.
+ * @param signingPolicy
+ * @returns revert reason of Relay.sol, or undefined if the signing policy is valid
+ */
+function checkNewSigningPolicy(signingPolicy: ISigningPolicy): string | undefined {
+  if (signingPolicy.voters.length === 0) {
+    return "must be non-trivial";
+  }
+  if (signingPolicy.voters.length > MAX_VOTERS) {
+    return "too many voters";
+  }
+  const totalWeight = signingPolicy.weights.reduce((a, b) => a + b, 0);
+  return Threshold.checkConsistency(signingPolicy.threshold, totalWeight);
+}
+
+export interface ISigningPolicyChainLink {
+  rewardEpochId: number;
+  signingPolicyHash: string;
+  signingPolicy: ISigningPolicy;
+}
+
+/**
+ * Light-client validator of the signing policy chain.
+ * Starting from a trusted initial signing policy, it follows the new signing policies relayed through
+ * Relay.relay() (protocolId 0) and accepts a new signing policy only if it is for the next reward epoch
+ * and it is signed by more than the threshold of the weight of the previous (last accepted) signing policy.
+ * The new signing policy itself must pass the same checks as in Relay.sol (number of voters, total weight and threshold).
+ */
+export class SigningPolicyChain {
+  // rewardEpochId => chain link
+  private links = new Map<number, ISigningPolicyChainLink>();
+  private _firstRewardEpochId: number;
+  private _lastRewardEpochId: number;
+
+  constructor(trustedSigningPolicy: ISigningPolicy) {
+    const signingPolicy = SigningPolicy.normalizeAddresses({ ...trustedSigningPolicy });
+    delete signingPolicy.encodedLength;
+    this._firstRewardEpochId = signingPolicy.rewardEpochId;
+    this._lastRewardEpochId = signingPolicy.rewardEpochId;
+    this.links.set(signingPolicy.rewardEpochId, {
+      rewardEpochId: signingPolicy.rewardEpochId,
+      signingPolicyHash: SigningPolicy.hash(signingPolicy),
+      signingPolicy,
+    });
+  }
+
+  public get firstRewardEpochId(): number {
+    return this._firstRewardEpochId;
+  }
+
+  public get lastRewardEpochId(): number {
+    return this._lastRewardEpochId;
+  }
+
+  /**
+   * The last verified signing policy.
+   */
+  public get latest(): ISigningPolicyChainLink {
+    return this.links.get(this._lastRewardEpochId)!;
+  }
+
+  /**
+   * Returns the verified chain link for the reward epoch, if it exists.
+   * @param rewardEpochId
+   * @returns
+   */
+  public link(rewardEpochId: number): ISigningPolicyChainLink | undefined {
+    return this.links.get(rewardEpochId);
+  }
+
+  /**
+   * Returns the verified signing policy hash for the reward epoch, if it exists.
+   * @param rewardEpochId
+   * @returns
+   */
+  public signingPolicyHash(rewardEpochId: number): string | undefined {
+    return this.links.get(rewardEpochId)?.signingPolicyHash;
+  }
+
+  /**
+   * Returns the verified chain of signing policy hashes, ordered by reward epoch id.
+   * @returns
+   */
+  public verifiedHashes(): { rewardEpochId: number; signingPolicyHash: string }[] {
+    const result: { rewardEpochId: number; signingPolicyHash: string }[] = [];
+    for (let rewardEpochId = this._firstRewardEpochId; rewardEpochId <= this._lastRewardEpochId; rewardEpochId++) {
+      const link = this.links.get(rewardEpochId)!;
+      result.push({ rewardEpochId, signingPolicyHash: link.signingPolicyHash });
+    }
+    return result;
+  }
+
+  /**
+   * Processes calldata of a Relay.relay() call. Calldata carrying a protocol message merkle root is ignored.
+   * Calldata carrying a new signing policy is verified against the last verified signing policy and,
+   * if valid, the new signing policy is appended to the chain. If the new signing policy is already in the chain
+   * (e.g. relayed twice), the calldata is ignored.
+   * Throws an error if the calldata carries a new signing policy that cannot be verified.
+   * @param calldata 0x-prefixed hex string, including the function selector
+   * @returns true if the chain was extended
+   */
+  public processRelayCalldata(calldata: string): boolean {
+    if (!calldata.toLowerCase().startsWith(RELAY_SELECTOR)) {
+      throw Error(`Invalid relay calldata - wrong selector: ${calldata.slice(0, 10)}`);
+    }
+    const relayMessage = RelayMessage.decode("0x" + calldata.slice(10));
+    if (!relayMessage.newSigningPolicy) {
+      return false;
+    }
+    const signingPolicy = relayMessage.signingPolicy;
+    const newSigningPolicy = SigningPolicy.normalizeAddresses(relayMessage.newSigningPolicy);
+    delete newSigningPolicy.encodedLength;
+    delete signingPolicy.encodedLength;
+    const newSigningPolicyHash = SigningPolicy.hash(newSigningPolicy);
+    const existing = this.links.get(newSigningPolicy.rewardEpochId);
+    if (existing) {
+      if (existing.signingPolicyHash !== newSigningPolicyHash) {
+        throw Error(
+          `Conflicting signing policy for reward epoch ${newSigningPolicy.rewardEpochId}: ${newSigningPolicyHash} vs. ${existing.signingPolicyHash}`
+        );
+      }
+      return false;
+    }
+    const previous = this.latest;
+    if (newSigningPolicy.rewardEpochId !== previous.rewardEpochId + 1) {
+      throw Error(
+        `New signing policy for reward epoch ${newSigningPolicy.rewardEpochId} does not follow the last verified reward epoch ${previous.rewardEpochId}`
+      );
+    }
+    if (signingPolicy.rewardEpochId !== previous.rewardEpochId || SigningPolicy.hash(signingPolicy) !== previous.signingPolicyHash) {
+      throw Error(`Signing policy for reward epoch ${signingPolicy.rewardEpochId} does not match the verified one`);
+    }
+    const newSigningPolicyError = checkNewSigningPolicy(newSigningPolicy);
+    if (newSigningPolicyError) {
+      throw Error(`Invalid new signing policy for reward epoch ${newSigningPolicy.rewardEpochId}: ${newSigningPolicyError}`);
+    }
+    let totalWeight = 0;
+    let nextUnusedIndex = 0;
+    for (const signature of relayMessage.signatures) {
+      if (signature.index >= previous.signingPolicy.voters.length) {
+        throw Error(`Invalid signature: index ${signature.index} out of range`);
+      }
+      if (signature.index < nextUnusedIndex) {
+        throw Error(`Invalid signature: indices must be in ascending order`);
+      }
+      nextUnusedIndex = signature.index + 1;
+      const signer = ECDSASignatureWithIndex.recoverSigner(newSigningPolicyHash, signature);
+      const expectedSigner = previous.signingPolicy.voters[signature.index];
+      if (signer !== expectedSigner) {
+        throw Error(`Invalid signature: signer ${signer} does not match signing policy ${expectedSigner}`);
+      }
+      totalWeight += previous.signingPolicy.weights[signature.index];
+      if (Threshold.passes(totalWeight, previous.signingPolicy.threshold)) {
+        this.links.set(newSigningPolicy.rewardEpochId, {
+          rewardEpochId: newSigningPolicy.rewardEpochId,
+          signingPolicyHash: newSigningPolicyHash,
+          signingPolicy: newSigningPolicy,
+        });
+        this._lastRewardEpochId = newSigningPolicy.rewardEpochId;
+        return true;
+      }
+    }
+    throw Error(
+      `Threshold not met for signing policy of reward epoch ${newSigningPolicy.rewardEpochId}: ${totalWeight} <= ${previous.signingPolicy.threshold}`
+    );
+  }
+
+  /**
+   * Processes a sequence of Relay.relay() calldata in the given order. See @see processRelayCalldata.
+   * @param calldataList
+   * @returns number of signing policies added to the chain
+   */
+  public processRelayCalldataList(calldataList: string[]): number {
+    let added = 0;
+    for (const calldata of calldataList) {
+      if (this.processRelayCalldata(calldata)) {
+        added++;
+      }
+    }
+    return added;
+  }
+}
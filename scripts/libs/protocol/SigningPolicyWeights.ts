@@ -0,0 +1,271 @@
+import { ISigningPolicy } from "./SigningPolicy";
+
+/**
+ * Parameters used in weight calculation, named as in ChainParameters (so chain parameters can be passed directly).
+ */
+export interface ISigningPolicyWeightParameters {
+  wNatCapPPM: number;
+  signingPolicyThresholdPPM: number;
+  maxVotersPerRewardEpoch: number;
+  pChainStakeEnabled?: boolean; // default true; when false, P-chain stake mirror is not set and node weights are 0
+}
+
+/**
+ * P-chain stake of a node of the voter, at the vote power block.
+ */
+export interface INodeStake {
+  nodeId: string;
+  weight: bigint; // PChainStakeMirror.votePowerOfAt
+  chilled?: boolean; // node id is chilled for the reward epoch
+}
+
+/**
+ * Raw stake data of a voter at the vote power block of the reward epoch.
+ */
+export interface IVoterStakeData {
+  voter: string; // identity address
+  signingPolicyAddress: string;
+  wNatVotePower: bigint; // WNat vote power of the delegation address
+  delegationAddressChilled?: boolean; // delegation address is chilled for the reward epoch
+  delegationFeeBIPS?: number; // WNatDelegationFee.getVoterFeePercentage for the reward epoch
+  nodes: INodeStake[];
+}
+
+/**
+ * Registration weight of a voter with its parts, as emitted in VoterRegistrationInfo event.
+ */
+export interface IRegistrationWeight {
+  voter: string;
+  signingPolicyAddress: string;
+  wNatWeight: bigint;
+  wNatCappedWeight: bigint;
+  delegationFeeBIPS?: number;
+  nodeWeights: bigint[];
+  registrationWeight: bigint;
+}
+
+/**
+ * Prediction of the signing policy voters, weights and threshold.
+ * Voters are in the order of the signing policy.
+ */
+export interface ISigningPolicyWeights {
+  voters: string[];
+  signingPolicyAddresses: string[];
+  registrationWeights: bigint[];
+  normalisedWeights: number[];
+  normalisedWeightsSum: number;
+  threshold: number;
+  rejectedVoters: string[]; // voters that were kicked out or could not register due to the max number of voters
+}
+
+export interface IWeightChange {
+  signingPolicyAddress: string;
+  previousWeight: number;
+  weight: number;
+}
+
+/**
+ * Emulation of weight calculations in FlareSystemsCalculator, VoterRegistry and FlareSystemsManager.
+ * It can be used to predict the signing policy of the next reward epoch from the stake data at the vote power block.
+ */
+export namespace SigningPolicyWeights {
+  export const PPM_MAX = 1000000n;
+  export const UINT16_MAX = 2n ** 16n - 1n;
+
+  /**
+   * Integer square root, exactly as FlareSystemsCalculator._sqrt.
+   * @param x
+   * @returns
+   */
+  export function sqrt(x: bigint): bigint {
+    if (x < 0n) {
+      throw Error(`Negative value: ${x}`);
+    }
+    if (x === 0n) {
+      return 0n;
+    }
+    let xx = x;
+    let r = 1n;
+    for (const [threshold, shift] of [
+      [2n ** 128n, 128n],
+      [2n ** 64n, 64n],
+      [2n ** 32n, 32n],
+      [2n ** 16n, 16n],
+      [2n ** 8n, 8n],
+      [2n ** 4n, 4n],
+    ]) {
+      if (xx >= threshold) {
+        xx >>= shift;
+        r <<= shift / 2n;
+      }
+    }
+    if (xx >= 4n) {
+      r <<= 1n;
+    }
+    for (let i = 0; i < 7; i++) {
+      r = (r + x / r) >> 1n;
+    }
+    const r1 = x / r;
+    return r < r1 ? r : r1;
+  }
+
+  /**
+   * Calculates the registration weight of the voter, as FlareSystemsCalculator.calculateRegistrationWeight.
+   * Weight is the sum of P-chain node stakes and the WNat vote power of the delegation address, capped by
+   * wNatCapPPM of the total WNat vote power (chilled nodes and delegation address do not count).
+   * The registration weight is then (integer) sqrt(weight) * sqrt(sqrt(weight)).
+   * If P-chain stake mirror is disabled, node weights are 0 (as FlareSystemsCalculator without the mirror set).
+   * The delegation fee is only passed through (it is emitted in VoterRegistrationInfo, but does not affect the weight).
+   * Out of scope: C-chain stakes, which are not included in the registration weight by FlareSystemsCalculator.
+   * @param voterData
+   * @param totalWNatVotePower total WNat vote power at the vote power block
+   * @param wNatCapPPM
+   * @param pChainStakeEnabled
+   * @returns
+   */
+  export function registrationWeight(
+    voterData: IVoterStakeData,
+    totalWNatVotePower: bigint,
+    wNatCapPPM: number,
+    pChainStakeEnabled: boolean = true
+  ): IRegistrationWeight {
+    let weight = 0n;
+    const nodeWeights = voterData.nodes.map(node => (node.chilled || !pChainStakeEnabled ? 0n : node.weight));
+    for (const nodeWeight of nodeWeights) {
+      weight += nodeWeight;
+    }
+    let wNatWeight = 0n;
+    let wNatCappedWeight = 0n;
+    if (!voterData.delegationAddressChilled) {
+      const wNatWeightCap = (totalWNatVotePower * BigInt(wNatCapPPM)) / PPM_MAX;
+      wNatWeight = voterData.wNatVotePower;
+      wNatCappedWeight = wNatWeight < wNatWeightCap ? wNatWeight : wNatWeightCap;
+      weight += wNatCappedWeight;
+    }
+    const weightSqrt = sqrt(weight);
+    return {
+      voter: voterData.voter.toLowerCase(),
+      signingPolicyAddress: voterData.signingPolicyAddress.toLowerCase(),
+      wNatWeight,
+      wNatCappedWeight,
+      delegationFeeBIPS: voterData.delegationFeeBIPS,
+      nodeWeights,
+      registrationWeight: weightSqrt * sqrt(weightSqrt),
+    };
+  }
+
+  /**
+   * Calculates normalised weights, as VoterRegistry.createSigningPolicySnapshot.
+   * @param weights registration weights
+   * @returns
+   */
+  export function normaliseWeights(weights: bigint[]): number[] {
+    let weightsSum = 0n;
+    for (const weight of weights) {
+      weightsSum += weight;
+    }
+    if (weightsSum === 0n) {
+      throw Error("Weights sum is zero");
+    }
+    return weights.map(weight => Number((weight * UINT16_MAX) / weightsSum));
+  }
+
+  /**
+   * Calculates the signing policy threshold from the sum of normalised weights, as FlareSystemsManager
+   * (rounded up).
+   * @param normalisedWeightsSum
+   * @param signingPolicyThresholdPPM
+   * @returns
+   */
+  export function threshold(normalisedWeightsSum: number, signingPolicyThresholdPPM: number): number {
+    const product = BigInt(normalisedWeightsSum) * BigInt(signingPolicyThresholdPPM);
+    return Number((product + PPM_MAX - 1n) / PPM_MAX);
+  }
+
+  /**
+   * Predicts the signing policy weights from stake data of voters.
+   * Registrations are processed in the given order as in VoterRegistry: voters with zero weight are not registered,
+   * and when the max number of voters is reached, the voter with the lowest weight is replaced in place,
+   * if it has lower weight than the registering voter.
+   * @param votersData stake data of voters in registration order
+   * @param totalWNatVotePower total WNat vote power at the vote power block
+   * @param parameters
+   * @returns
+   */
+  export function predict(
+    votersData: IVoterStakeData[],
+    totalWNatVotePower: bigint,
+    parameters: ISigningPolicyWeightParameters
+  ): ISigningPolicyWeights {
+    const registered: IRegistrationWeight[] = [];
+    const rejectedVoters: string[] = [];
+    for (const voterData of votersData) {
+      const weight = registrationWeight(
+        voterData,
+        totalWNatVotePower,
+        parameters.wNatCapPPM,
+        parameters.pChainStakeEnabled ?? true
+      );
+      if (weight.registrationWeight === 0n) {
+        rejectedVoters.push(weight.voter);
+        continue;
+      }
+      if (registered.find(x => x.voter === weight.voter)) {
+        throw Error(`Voter ${weight.voter} already registered`);
+      }
+      if (registered.length < parameters.maxVotersPerRewardEpoch) {
+        registered.push(weight);
+        continue;
+      }
+      let minIndex = 0;
+      for (let i = 1; i < registered.length; i++) {
+        if (registered[i].registrationWeight < registered[minIndex].registrationWeight) {
+          minIndex = i;
+        }
+      }
+      if (registered[minIndex].registrationWeight >= weight.registrationWeight) {
+        rejectedVoters.push(weight.voter);
+        continue;
+      }
+      rejectedVoters.push(registered[minIndex].voter);
+      registered[minIndex] = weight;
+    }
+    if (registered.length === 0) {
+      throw Error("No voters registered");
+    }
+    const registrationWeights = registered.map(x => x.registrationWeight);
+    const normalisedWeights = normaliseWeights(registrationWeights);
+    const normalisedWeightsSum = normalisedWeights.reduce((a, b) => a + b, 0);
+    return {
+      voters: registered.map(x => x.voter),
+      signingPolicyAddresses: registered.map(x => x.signingPolicyAddress),
+      registrationWeights,
+      normalisedWeights,
+      normalisedWeightsSum,
+      threshold: threshold(normalisedWeightsSum, parameters.signingPolicyThresholdPPM),
+      rejectedVoters,
+    };
+  }
+
+  /**
+   * Compares normalised weights of the (current) signing policy and the prediction, by signing policy address.
+   * Signing policy addresses missing in one of them have weight 0 there.
+   * @param signingPolicy
+   * @param prediction
+   * @returns changes for all signing policy addresses, which weights changed
+   */
+  export function weightChanges(signingPolicy: ISigningPolicy, prediction: ISigningPolicyWeights): IWeightChange[] {
+    const weights = new Map<string, IWeightChange>();
+    for (let i = 0; i < signingPolicy.voters.length; i++) {
+      const signingPolicyAddress = signingPolicy.voters[i].toLowerCase();
+      weights.set(signingPolicyAddress, { signingPolicyAddress, previousWeight: signingPolicy.weights[i], weight: 0 });
+    }
+    for (let i = 0; i < prediction.signingPolicyAddresses.length; i++) {
+      const signingPolicyAddress = prediction.signingPolicyAddresses[i];
+      const change = weights.get(signingPolicyAddress) ?? { signingPolicyAddress, previousWeight: 0, weight: 0 };
+      change.weight = prediction.normalisedWeights[i];
+      weights.set(signingPolicyAddress, change);
+    }
+    return [...weights.values()].filter(x => x.previousWeight !== x.weight);
+  }
+}
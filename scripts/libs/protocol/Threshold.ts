@@ -0,0 +1,109 @@
+import { ISigningPolicy } from "./SigningPolicy";
+
+/**
+ * Source of the Relay state data, e.g. truffle or ethers instance of Relay.sol.
+ */
+export interface IRelayStateDataReader {
+  stateData(): Promise<{ thresholdIncreaseBIPS: number | bigint | { toString(): string } }>;
+}
+
+/**
+ * Threshold semantics of Relay.sol. All signature weight checks in the library should go through this module.
+ */
+export namespace Threshold {
+  export const THRESHOLD_BIPS = 10000;
+  export const MIN_THRESHOLD_BIPS = 5000;
+  export const MAX_THRESHOLD_BIPS = 6600;
+
+  /**
+   * Checks whether the accumulated weight of signatures passes the threshold.
+   * Relay.sol accepts a message only if the weight is strictly greater than the threshold.
+   * @param weight
+   * @param threshold
+   * @returns
+   */
+  export function passes(weight: number, threshold: number): boolean {
+    return weight > threshold;
+  }
+
+  /**
+   * Calculates the increased threshold used by Relay.sol when a message is signed with the previous signing policy,
+   * since the signing policy of the message reward epoch is not initialized yet.
+   * @param threshold threshold of the signing policy
+   * @param thresholdIncreaseBIPS threshold increase in BIPS (at least 10000)
+   * @returns
+   */
+  export function increased(threshold: number, thresholdIncreaseBIPS: number): number {
+    checkThresholdIncreaseBIPS(thresholdIncreaseBIPS);
+    return Math.floor((threshold * thresholdIncreaseBIPS) / THRESHOLD_BIPS);
+  }
+
+  /**
+   * Calculates the threshold Relay.sol uses for a protocol message signed with the signing policy.
+   * The increased threshold applies if the message belongs to a later reward epoch than the signing policy and
+   * the signing policy is the last initialized one (otherwise the message is either rejected by Relay.sol,
+   * or it belongs to the reward epoch of the signing policy).
+   * @param signingPolicy signing policy used for signing
+   * @param messageRewardEpochId reward epoch id of the message voting round
+   * @param lastInitializedRewardEpochId last reward epoch id, for which the signing policy is initialized in Relay.sol
+   * @param thresholdIncreaseBIPS threshold increase in BIPS
+   * @returns
+   */
+  export function forMessage(
+    signingPolicy: ISigningPolicy,
+    messageRewardEpochId: number,
+    lastInitializedRewardEpochId: number,
+    thresholdIncreaseBIPS: number
+  ): number {
+    if (messageRewardEpochId > signingPolicy.rewardEpochId && lastInitializedRewardEpochId === signingPolicy.rewardEpochId) {
+      return increased(signingPolicy.threshold, thresholdIncreaseBIPS);
+    }
+    return signingPolicy.threshold;
+  }
+
+  /**
+   * Checks the threshold of a new signing policy against its total weight, as done by Relay.sol.
+   * @param threshold
+   * @param totalWeight
+   * @returns revert reason of Relay.sol, or undefined if the threshold is consistent
+   */
+  export function checkConsistency(threshold: number, totalWeight: number): string | undefined {
+    if (totalWeight > 2 ** 16 - 1) {
+      return "total weight too big";
+    }
+    if (threshold * THRESHOLD_BIPS < totalWeight * MIN_THRESHOLD_BIPS) {
+      return "too small threshold";
+    }
+    if (threshold * THRESHOLD_BIPS > totalWeight * MAX_THRESHOLD_BIPS) {
+      return "too big threshold";
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the threshold increase from chain parameters (deployment/chain-config).
+   * @param parameters
+   * @returns
+   */
+  export function increaseBIPSFromChainParameters(parameters: { relayThresholdIncreaseBIPS: number }): number {
+    checkThresholdIncreaseBIPS(parameters.relayThresholdIncreaseBIPS);
+    return parameters.relayThresholdIncreaseBIPS;
+  }
+
+  /**
+   * Reads the threshold increase from Relay.sol.
+   * @param relay
+   * @returns
+   */
+  export async function readIncreaseBIPS(relay: IRelayStateDataReader): Promise<number> {
+    const thresholdIncreaseBIPS = Number((await relay.stateData()).thresholdIncreaseBIPS.toString());
+    checkThresholdIncreaseBIPS(thresholdIncreaseBIPS);
+    return thresholdIncreaseBIPS;
+  }
+
+  function checkThresholdIncreaseBIPS(thresholdIncreaseBIPS: number) {
+    if (!Number.isInteger(thresholdIncreaseBIPS) || thresholdIncreaseBIPS < THRESHOLD_BIPS || thresholdIncreaseBIPS > 2 ** 16 - 1) {
+      throw Error(`Invalid threshold increase BIPS: ${thresholdIncreaseBIPS}`);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { ethers } from "ethers";
+import { ECDSASignature, IECDSASignature } from "./ECDSASignature";
+import { ISigner } from "./Signer";
+
+export namespace UptimeVote {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+
+  function checkRewardEpochId(rewardEpochId: number) {
+    if (rewardEpochId < 0 || rewardEpochId > 2 ** 24 - 1 || rewardEpochId % 1 !== 0) {
+      throw Error(`Reward epoch id out of range: ${rewardEpochId}`);
+    }
+  }
+
+  function checkNodeIds(nodeIds: string[]) {
+    for (const nodeId of nodeIds) {
+      if (!/^0x[0-9a-f]{40}$/i.test(nodeId)) {
+        throw Error(`Invalid node id format: ${nodeId}`);
+      }
+    }
+  }
+
+  /**
+   * Calculates the message hash to be signed for FlareSystemsManager.submitUptimeVote,
+   * as keccak256(abi.encode(rewardEpochId, nodeIds)).
+   * @param rewardEpochId
+   * @param nodeIds node ids (bytes20) in the order they are submitted
+   * @returns
+   */
+  export function submitUptimeVoteHash(rewardEpochId: number, nodeIds: string[]): string {
+    checkRewardEpochId(rewardEpochId);
+    checkNodeIds(nodeIds);
+    return ethers.keccak256(coder.encode(["uint24", "bytes20[]"], [rewardEpochId, nodeIds.map(x => x.toLowerCase())]));
+  }
+
+  /**
+   * Calculates the uptime vote hash from node ids, which are considered sufficiently up in the reward epoch.
+   * Node ids are sorted, so that the hash does not depend on the order of node ids,
+   * and the hash is calculated as keccak256(abi.encode(sortedNodeIds)).
+   * @param nodeIds node ids (bytes20)
+   * @returns
+   */
+  export function uptimeVoteHash(nodeIds: string[]): string {
+    checkNodeIds(nodeIds);
+    const sortedNodeIds = nodeIds.map(x => x.toLowerCase()).sort();
+    return ethers.keccak256(coder.encode(["bytes20[]"], [sortedNodeIds]));
+  }
+
+  /**
+   * Calculates the message hash to be signed for FlareSystemsManager.signUptimeVote,
+   * as keccak256(abi.encode(rewardEpochId, uptimeVoteHash)).
+   * @param rewardEpochId
+   * @param uptimeVoteHash
+   * @returns
+   */
+  export function signUptimeVoteHash(rewardEpochId: number, uptimeVoteHash: string): string {
+    checkRewardEpochId(rewardEpochId);
+    if (!/^0x[0-9a-f]{64}$/i.test(uptimeVoteHash)) {
+      throw Error(`Invalid uptime vote hash format: ${uptimeVoteHash}`);
+    }
+    return ethers.keccak256(coder.encode(["uint24", "bytes32"], [rewardEpochId, uptimeVoteHash]));
+  }
+
+  /**
+   * Produces the signature for FlareSystemsManager.submitUptimeVote.
+   * @param rewardEpochId
+   * @param nodeIds
+   * @param signer signer (or private key) of the signing policy address of the voter
+   * @returns
+   */
+  export async function signSubmitUptimeVote(
+    rewardEpochId: number,
+    nodeIds: string[],
+    signer: string | ISigner
+  ): Promise<IECDSASignature> {
+    return ECDSASignature.signMessageHash(submitUptimeVoteHash(rewardEpochId, nodeIds), signer);
+  }
+
+  /**
+   * Produces the signature for FlareSystemsManager.signUptimeVote.
+   * @param rewardEpochId
+   * @param uptimeVoteHash
+   * @param signer signer (or private key) of the signing policy address of the voter
+   * @returns
+   */
+  export async function signUptimeVote(
+    rewardEpochId: number,
+    uptimeVoteHash: string,
+    signer: string | ISigner
+  ): Promise<IECDSASignature> {
+    return ECDSASignature.signMessageHash(signUptimeVoteHash(rewardEpochId, uptimeVoteHash), signer);
+  }
+}
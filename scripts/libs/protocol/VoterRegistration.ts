@@ -0,0 +1,64 @@
+import { ethers } from "ethers";
+import { ECDSASignature, IECDSASignature } from "./ECDSASignature";
+import { ISigner } from "./Signer";
+
+/**
+ * Voter addresses, matching IEntityManager.VoterAddresses.
+ */
+export interface IVoterAddresses {
+  submitAddress: string;
+  submitSignaturesAddress: string;
+  signingPolicyAddress: string;
+}
+
+export namespace VoterRegistration {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+
+  /**
+   * Calculates the message hash to be signed for VoterRegistry.registerVoter,
+   * as keccak256(abi.encode(rewardEpochId, voter)).
+   * @param rewardEpochId reward epoch id the voter is registering for (next reward epoch)
+   * @param voter identity address of the voter
+   * @returns
+   */
+  export function messageHash(rewardEpochId: number, voter: string): string {
+    if (rewardEpochId < 0 || rewardEpochId > 2 ** 24 - 1 || rewardEpochId % 1 !== 0) {
+      throw Error(`Reward epoch id out of range: ${rewardEpochId}`);
+    }
+    if (!/^0x[0-9a-f]{40}$/i.test(voter)) {
+      throw Error(`Invalid voter address format: ${voter}`);
+    }
+    return ethers.keccak256(coder.encode(["uint24", "address"], [rewardEpochId, voter]));
+  }
+
+  /**
+   * Produces the signature for VoterRegistry.registerVoter.
+   * @param rewardEpochId reward epoch id the voter is registering for (next reward epoch)
+   * @param voter identity address of the voter
+   * @param signer signer (or private key) of the signing policy address of the voter
+   * @returns
+   */
+  export async function sign(rewardEpochId: number, voter: string, signer: string | ISigner): Promise<IECDSASignature> {
+    return ECDSASignature.signMessageHash(messageHash(rewardEpochId, voter), signer);
+  }
+
+  /**
+   * Checks the registration signature against voter addresses, as assigned in EntityManager at the
+   * block when the new signing policy initialization started (EntityManager.getVoterAddressesAt).
+   * This is the same check as done in VoterRegistry.registerVoter.
+   * @param rewardEpochId reward epoch id the voter is registering for (next reward epoch)
+   * @param voter identity address of the voter
+   * @param signature
+   * @param voterAddresses
+   * @returns
+   */
+  export function verifySignature(
+    rewardEpochId: number,
+    voter: string,
+    signature: IECDSASignature,
+    voterAddresses: IVoterAddresses
+  ): boolean {
+    const signer = ECDSASignature.recoverSigner(messageHash(rewardEpochId, voter), signature);
+    return signer === voterAddresses.signingPolicyAddress.toLowerCase();
+  }
+}
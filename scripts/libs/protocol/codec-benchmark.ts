@@ -0,0 +1,163 @@
+import { ethers } from "ethers";
+import { ECDSASignatureWithIndex, IECDSASignatureWithIndex } from "./ECDSASignatureWithIndex";
+import { PayloadMessage } from "./PayloadMessage";
+import { IProtocolMessageMerkleRoot } from "./ProtocolMessageMerkleRoot";
+import { IRelayMessage, RelayMessage } from "./RelayMessage";
+import { ISignaturePayload, SignaturePayload } from "./SignaturePayload";
+import { ISigningPolicy, SigningPolicy } from "./SigningPolicy";
+import { ByteUtils } from "./ByteUtils";
+
+// Compares hex string codecs (thin wrappers over byte codecs) with byte codecs on large signing policies.
+// For reference, the string slicing decoding of signing policy, which was used before the byte codecs,
+// is measured as well.
+// Usage: yarn ts-node scripts/libs/protocol/codec-benchmark.ts [voters] [iterations]
+// The default number of voters is the maximum accepted by Relay.sol (MAX_VOTERS).
+
+const VOTERS = Number(process.argv[2] ?? 300);
+const ITERATIONS = Number(process.argv[3] ?? 200);
+const SUBMIT_SIGNATURES_SELECTOR = ethers.id("submitSignatures()").slice(0, 10);
+
+function legacyDecodeSigningPolicy(encodedPolicy: string): ISigningPolicy {
+  const encodedPolicyInternal = (encodedPolicy.startsWith("0x") ? encodedPolicy.slice(2) : encodedPolicy).toLowerCase();
+  if (!/^[0-9a-f]*$/.test(encodedPolicyInternal)) {
+    throw Error(`Invalid format - not hex string: ${encodedPolicy}`);
+  }
+  const size = parseInt(encodedPolicyInternal.slice(0, 4), 16);
+  const voters: string[] = [];
+  const weights: number[] = [];
+  for (let i = 0; i < size; i++) {
+    const start = 86 + i * 44;
+    voters.push("0x" + encodedPolicyInternal.slice(start, start + 40));
+    weights.push(parseInt(encodedPolicyInternal.slice(start + 40, start + 44), 16));
+  }
+  return {
+    rewardEpochId: parseInt(encodedPolicyInternal.slice(4, 10), 16),
+    startVotingRoundId: parseInt(encodedPolicyInternal.slice(10, 18), 16),
+    threshold: parseInt(encodedPolicyInternal.slice(18, 22), 16),
+    seed: "0x" + encodedPolicyInternal.slice(22, 86),
+    voters,
+    weights,
+  };
+}
+
+function legacyHashEncoded(signingPolicy: string): string {
+  const signingPolicyInternal = signingPolicy.startsWith("0x") ? signingPolicy.slice(2) : signingPolicy;
+  const splitted = signingPolicyInternal.match(/.{1,64}/g)!.map(x => x.padEnd(64, "0"));
+  let hash = ethers.keccak256("0x" + splitted[0] + splitted[1]);
+  for (let i = 2; i < splitted.length; i++) {
+    hash = ethers.keccak256("0x" + hash.slice(2) + splitted[i]);
+  }
+  return hash;
+}
+
+function measure(name: string, fn: () => unknown): number {
+  // warm up
+  for (let i = 0; i < Math.min(10, ITERATIONS); i++) {
+    fn();
+  }
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < ITERATIONS; i++) {
+    fn();
+  }
+  const microsPerIteration = Number(process.hrtime.bigint() - start) / 1000 / ITERATIONS;
+  console.log(`${name.padEnd(48)} ${microsPerIteration.toFixed(1).padStart(12)} us/op`);
+  return microsPerIteration;
+}
+
+function speedup(name: string, before: number, after: number) {
+  console.log(`${("  speedup " + name).padEnd(48)} ${(before / after).toFixed(2).padStart(12)} x`);
+}
+
+function randomSignature(index: number): IECDSASignatureWithIndex {
+  return {
+    v: 27 + (index % 2),
+    r: ethers.hexlify(ethers.randomBytes(32)),
+    s: ethers.hexlify(ethers.randomBytes(32)),
+    index,
+  };
+}
+
+function main() {
+  const signingPolicy: ISigningPolicy = {
+    rewardEpochId: 1234,
+    startVotingRoundId: 5678,
+    threshold: Math.ceil(VOTERS / 2),
+    seed: ethers.hexlify(ethers.randomBytes(32)),
+    voters: [],
+    weights: [],
+  };
+  for (let i = 0; i < VOTERS; i++) {
+    signingPolicy.voters.push(ethers.hexlify(ethers.randomBytes(20)));
+    signingPolicy.weights.push(1);
+  }
+  const protocolMessageMerkleRoot: IProtocolMessageMerkleRoot = {
+    protocolId: 100,
+    votingRoundId: 5679,
+    isSecureRandom: true,
+    merkleRoot: ethers.hexlify(ethers.randomBytes(32)),
+  };
+  const relayMessage: IRelayMessage = {
+    signingPolicy,
+    protocolMessageMerkleRoot,
+    signatures: signingPolicy.voters.map((_, i) => randomSignature(i)),
+  };
+  // submitSignatures calldata with one signature payload per voter
+  const payloads: string[] = [];
+  for (let i = 0; i < VOTERS; i++) {
+    const signature = randomSignature(i);
+    const signaturePayload: ISignaturePayload = {
+      type: "0x00",
+      message: protocolMessageMerkleRoot,
+      signature: { v: signature.v, r: signature.r, s: signature.s },
+      unsignedMessage: "0x",
+    };
+    payloads.push(
+      PayloadMessage.encode({
+        protocolId: protocolMessageMerkleRoot.protocolId,
+        votingRoundId: protocolMessageMerkleRoot.votingRoundId,
+        payload: SignaturePayload.encode(signaturePayload),
+      })
+    );
+  }
+  const calldata = SUBMIT_SIGNATURES_SELECTOR + PayloadMessage.concatenateHexStrings(payloads).slice(2);
+
+  const encodedPolicy = SigningPolicy.encode(signingPolicy);
+  const encodedPolicyBytes = SigningPolicy.encodeBytes(signingPolicy);
+  const encodedRelayMessage = RelayMessage.encode(relayMessage);
+  const encodedRelayMessageBytes = RelayMessage.encodeBytes(relayMessage);
+  const calldataBytes = ByteUtils.hexToBytes(calldata);
+
+  console.log(`Signing policy with ${VOTERS} voters, ${ITERATIONS} iterations\n`);
+
+  const legacyDecode = measure("SigningPolicy decode (string slicing)", () => legacyDecodeSigningPolicy(encodedPolicy));
+  const hexDecode = measure("SigningPolicy.decode", () => SigningPolicy.decode(encodedPolicy));
+  const bytesDecode = measure("SigningPolicy.decodeBytes", () => SigningPolicy.decodeBytes(encodedPolicyBytes));
+  speedup("string slicing -> decode", legacyDecode, hexDecode);
+  speedup("string slicing -> decodeBytes", legacyDecode, bytesDecode);
+
+  const legacyHash = measure("SigningPolicy hash (string chunks)", () => legacyHashEncoded(encodedPolicy));
+  const bytesHash = measure("SigningPolicy.hashEncodedBytes", () => SigningPolicy.hashEncodedBytes(encodedPolicyBytes));
+  speedup("string chunks -> hashEncodedBytes", legacyHash, bytesHash);
+
+  measure("SigningPolicy.encode", () => SigningPolicy.encode(signingPolicy));
+  measure("SigningPolicy.encodeBytes", () => SigningPolicy.encodeBytes(signingPolicy));
+
+  const relayHexDecode = measure("RelayMessage.decode", () => RelayMessage.decode(encodedRelayMessage));
+  const relayBytesDecode = measure("RelayMessage.decodeBytes", () => RelayMessage.decodeBytes(encodedRelayMessageBytes));
+  speedup("decode -> decodeBytes", relayHexDecode, relayBytesDecode);
+
+  const signatureListHex = ECDSASignatureWithIndex.encodeSignatureList(relayMessage.signatures);
+  const signatureListBytes = ECDSASignatureWithIndex.encodeSignatureListBytes(relayMessage.signatures);
+  measure("ECDSASignatureWithIndex.decodeSignatureList", () => ECDSASignatureWithIndex.decodeSignatureList(signatureListHex));
+  measure("ECDSASignatureWithIndex.decodeSignatureListBytes", () =>
+    ECDSASignatureWithIndex.decodeSignatureListBytes(signatureListBytes)
+  );
+
+  const calldataHexDecode = measure("SignaturePayload.decodeCalldata", () => SignaturePayload.decodeCalldata(calldata));
+  const calldataBytesDecode = measure("SignaturePayload.decodeCalldataBytes", () =>
+    SignaturePayload.decodeCalldataBytes(calldataBytes)
+  );
+  speedup("decodeCalldata -> decodeCalldataBytes", calldataHexDecode, calldataBytesDecode);
+}
+
+main();
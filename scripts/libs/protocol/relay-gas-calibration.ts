@@ -0,0 +1,154 @@
+import { ethers } from "ethers";
+import privateKeys from "../../../deployment/test-1020-accounts.json";
+import { RelayContract } from "../../../typechain-truffle/contracts/protocol/implementation/Relay";
+import { ECDSASignatureWithIndex, IECDSASignatureWithIndex } from "./ECDSASignatureWithIndex";
+import { ProtocolMessageMerkleRoot } from "./ProtocolMessageMerkleRoot";
+import { IRelayMessage } from "./RelayMessage";
+import { IRelayGasSample, RelayGasModel } from "./RelayGasModel";
+import { ISigningPolicy, SigningPolicy } from "./SigningPolicy";
+
+// Calibrates RelayGasModel by relaying protocol message merkle roots and new signing policies of different sizes
+// on a fresh Relay contract (deployed with signing policy relay enabled) and fitting the measured gas.
+// The resulting coefficients should be copied to RelayGasModel.DEFAULT_COEFFICIENTS.
+// Usage: yarn calibrate-relay-gas
+
+const VOTERS = [10, 50, 100, 200, 300]; // 300 is the max number of voters supported by Relay
+const NEW_VOTERS = [10, 150, 300];
+const FIRST_VOTING_ROUND_START_TS = 1636070400;
+const VOTING_EPOCH_DURATION_SECONDS = 90;
+const FIRST_REWARD_EPOCH_START_VOTING_ROUND_ID = 1000;
+const REWARD_EPOCH_DURATION_IN_VOTING_EPOCHS = 3360;
+const REWARD_EPOCH_ID = 1;
+const RANDOM_NUMBER_PROTOCOL_ID = 15;
+const THRESHOLD_INCREASE_BIPS = 12000;
+const MESSAGE_FINALIZATION_WINDOW_IN_REWARD_EPOCHS = 3;
+
+const Relay: RelayContract = artifacts.require("Relay");
+
+function startVotingRoundId(rewardEpochId: number): number {
+  return FIRST_REWARD_EPOCH_START_VOTING_ROUND_ID + rewardEpochId * REWARD_EPOCH_DURATION_IN_VOTING_EPOCHS;
+}
+
+/**
+ * Signing policy with the given number of voters, where exactly the first `signatures` voters are needed
+ * to exceed the threshold.
+ */
+function signingPolicyRequiringSignatures(voters: number, signatures: number): ISigningPolicy {
+  const weight = Math.floor((2 ** 16 - 1 - (voters - signatures)) / signatures);
+  return {
+    rewardEpochId: REWARD_EPOCH_ID,
+    startVotingRoundId: startVotingRoundId(REWARD_EPOCH_ID),
+    threshold: signatures * weight - 1,
+    seed: ethers.hexlify(ethers.randomBytes(32)),
+    voters: privateKeys.slice(0, voters).map(x => new ethers.Wallet(x.privateKey).address),
+    weights: Array.from({ length: voters }, (_, i) => (i < signatures ? weight : 1)),
+  };
+}
+
+/**
+ * Signing policy for the next reward epoch with the given number of voters with equal weights.
+ */
+function newSigningPolicy(voters: number): ISigningPolicy {
+  const weight = Math.floor((2 ** 16 - 1) / voters);
+  return {
+    rewardEpochId: REWARD_EPOCH_ID + 1,
+    startVotingRoundId: startVotingRoundId(REWARD_EPOCH_ID + 1),
+    threshold: Math.floor(voters * weight * 0.6),
+    seed: ethers.hexlify(ethers.randomBytes(32)),
+    voters: privateKeys.slice(privateKeys.length - voters).map(x => new ethers.Wallet(x.privateKey).address),
+    weights: new Array<number>(voters).fill(weight),
+  };
+}
+
+async function sign(messageHash: string, signatures: number): Promise<IECDSASignatureWithIndex[]> {
+  const result: IECDSASignatureWithIndex[] = [];
+  for (let i = 0; i < signatures; i++) {
+    result.push(await ECDSASignatureWithIndex.signMessageHash(messageHash, privateKeys[i].privateKey, i));
+  }
+  return result;
+}
+
+async function measure(message: IRelayMessage, from: string): Promise<IRelayGasSample> {
+  const relay = await Relay.new(
+    ethers.ZeroAddress,
+    message.signingPolicy.rewardEpochId,
+    message.signingPolicy.startVotingRoundId,
+    SigningPolicy.hash(message.signingPolicy),
+    RANDOM_NUMBER_PROTOCOL_ID,
+    FIRST_VOTING_ROUND_START_TS,
+    VOTING_EPOCH_DURATION_SECONDS,
+    FIRST_REWARD_EPOCH_START_VOTING_ROUND_ID,
+    REWARD_EPOCH_DURATION_IN_VOTING_EPOCHS,
+    THRESHOLD_INCREASE_BIPS,
+    MESSAGE_FINALIZATION_WINDOW_IN_REWARD_EPOCHS
+  );
+  const receipt = await web3.eth.sendTransaction({
+    from,
+    to: relay.address,
+    data: RelayGasModel.calldata(message),
+  });
+  return { message, gasUsed: Number(receipt.gasUsed) };
+}
+
+async function main() {
+  const [from] = await web3.eth.getAccounts();
+  const samples: IRelayGasSample[] = [];
+  for (const voters of VOTERS) {
+    for (const signatures of new Set([1, Math.ceil(voters / 2), voters])) {
+      const signingPolicy = signingPolicyRequiringSignatures(voters, signatures);
+      const protocolMessageMerkleRoot = {
+        protocolId: RANDOM_NUMBER_PROTOCOL_ID,
+        votingRoundId: signingPolicy.startVotingRoundId,
+        isSecureRandom: true,
+        merkleRoot: ethers.hexlify(ethers.randomBytes(32)),
+      };
+      const message: IRelayMessage = {
+        signingPolicy,
+        protocolMessageMerkleRoot,
+        signatures: await sign(ProtocolMessageMerkleRoot.hash(protocolMessageMerkleRoot), signatures),
+      };
+      samples.push(await measure(message, from));
+    }
+    for (const newVoters of NEW_VOTERS) {
+      const signingPolicy = signingPolicyRequiringSignatures(voters, Math.ceil(voters / 2));
+      const message: IRelayMessage = {
+        signingPolicy,
+        newSigningPolicy: newSigningPolicy(newVoters),
+        signatures: [],
+      };
+      message.signatures = await sign(SigningPolicy.hash(message.newSigningPolicy!), Math.ceil(voters / 2));
+      samples.push(await measure(message, from));
+    }
+  }
+
+  const model = RelayGasModel.fit(samples);
+  const rounded = Object.fromEntries(Object.entries(model.coefficients).map(([key, value]) => [key, Math.round(value)]));
+  console.log("Coefficients:");
+  console.log(JSON.stringify(rounded, null, 2));
+
+  console.log("\nSamples (voters, checked signatures, new voters, gas used, estimate, error):");
+  let maxError = 0;
+  for (const sample of samples) {
+    const estimate = model.estimate(sample.message);
+    const error = estimate - sample.gasUsed;
+    maxError = Math.max(maxError, Math.abs(error));
+    console.log(
+      [
+        sample.message.signingPolicy.voters.length,
+        RelayGasModel.checkedSignatures(sample.message),
+        sample.message.newSigningPolicy?.voters.length ?? "-",
+        sample.gasUsed,
+        estimate,
+        error,
+      ].join("\t")
+    );
+  }
+  console.log(`Max absolute error: ${maxError}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(e => {
+    console.error(e);
+    process.exit(1);
+  });
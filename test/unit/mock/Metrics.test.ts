@@ -0,0 +1,61 @@
+import { MetricsRegistry, MetricsServer } from "../../../scripts/libs/mock/Metrics";
+import { getTestFile } from "../../utils/constants";
+
+contract(`Metrics; ${getTestFile(__filename)}`, async () => {
+  it("Should render counters, gauges and histograms in Prometheus text format", async () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter("test_requests_total", "Requests");
+    counter.inc();
+    counter.inc({}, 2);
+    counter.inc({ status: "fail", path: '/a"b' });
+    const gauge = registry.gauge("test_weight", "Weight");
+    gauge.set({ voting_round_id: 10 }, 5);
+    gauge.set({ voting_round_id: 11 }, 7);
+    gauge.set({ voting_round_id: 10 }, 6);
+    gauge.retain(labels => Number(labels.voting_round_id) > 10);
+    const histogram = registry.histogram("test_delay_seconds", "Delay", [1, 5]);
+    histogram.observe({ protocol_id: 100 }, 0.5);
+    histogram.observe({ protocol_id: 100 }, 3);
+    histogram.observe({ protocol_id: 100 }, 10);
+
+    expect(registry.render()).to.equal(
+      [
+        "# HELP test_requests_total Requests",
+        "# TYPE test_requests_total counter",
+        "test_requests_total 3",
+        'test_requests_total{status="fail",path="/a\\"b"} 1',
+        "# HELP test_weight Weight",
+        "# TYPE test_weight gauge",
+        'test_weight{voting_round_id="11"} 7',
+        "# HELP test_delay_seconds Delay",
+        "# TYPE test_delay_seconds histogram",
+        'test_delay_seconds_bucket{protocol_id="100",le="1"} 1',
+        'test_delay_seconds_bucket{protocol_id="100",le="5"} 2',
+        'test_delay_seconds_bucket{protocol_id="100",le="+Inf"} 3',
+        'test_delay_seconds_sum{protocol_id="100"} 13.5',
+        'test_delay_seconds_count{protocol_id="100"} 3',
+        "",
+      ].join("\n")
+    );
+    expect(counter.get({ path: '/a"b', status: "fail" })).to.equal(1);
+    expect(registry.counter("test_requests_total", "Requests")).to.equal(counter);
+    expect(() => registry.gauge("test_requests_total", "Requests")).to.throw("already registered as counter");
+    expect(() => registry.counter("test-invalid", "Invalid")).to.throw("Invalid metric name");
+    expect(() => counter.inc({}, -1)).to.throw("can not be decreased");
+  });
+
+  it("Should serve metrics over HTTP", async () => {
+    const registry = new MetricsRegistry();
+    registry.counter("test_requests_total", "Requests").inc();
+    const server = new MetricsServer(registry);
+    const url = await server.start();
+    try {
+      const response = await fetch(url);
+      expect(response.status).to.equal(200);
+      expect(await response.text()).to.equal(registry.render());
+      expect((await fetch(url.replace("/metrics", "/other"))).status).to.equal(404);
+    } finally {
+      await server.stop();
+    }
+  });
+});
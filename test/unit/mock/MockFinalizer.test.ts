@@ -0,0 +1,307 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { constants } from "@openzeppelin/test-helpers";
+import { artifacts, config, ethers, web3 } from "hardhat";
+import { HardhatNetworkAccountConfig } from "hardhat/types";
+import { EpochSettings } from "../../../deployment/utils/EpochSettings";
+import { TLPTransaction } from "../../../deployment/utils/indexer/Entity";
+import { getFinalizerDataSource } from "../../../deployment/utils/indexer/data-source";
+import {
+  MockFinalizer,
+  NewSigningPolicySignature,
+  PayloadRejectReason,
+  RelayDelayMode,
+  parseRelayDelayConfig,
+} from "../../../scripts/libs/mock/MockFinalizer";
+import { SUBMIT_SIGNATURES_SELECTOR, extractSigningPolicyRelayEnabled } from "../../../scripts/libs/mock/mock-test-helpers";
+import { ECDSASignature } from "../../../scripts/libs/protocol/ECDSASignature";
+import { PayloadMessage } from "../../../scripts/libs/protocol/PayloadMessage";
+import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "../../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
+import { SignaturePayload } from "../../../scripts/libs/protocol/SignaturePayload";
+import { RelayMessage } from "../../../scripts/libs/protocol/RelayMessage";
+import { ISigningPolicy, SigningPolicy } from "../../../scripts/libs/protocol/SigningPolicy";
+import { RelayContract } from "../../../typechain-truffle";
+import { getTestFile } from "../../utils/constants";
+import { defaultTestSigningPolicy } from "../protocol/coding/coding-helpers";
+
+const Relay: RelayContract = artifacts.require("Relay");
+
+contract(`MockFinalizer; ${getTestFile(__filename)}`, async () => {
+  const accountPrivateKeys = (config.networks.hardhat.accounts as HardhatNetworkAccountConfig[]).map(x => x.privateKey);
+  const contractAddress = "0x" + "11".repeat(20);
+  let accountAddresses: string[];
+  let signingPolicies: ISigningPolicy[];
+  const databaseFiles: string[] = [];
+
+  function createFinalizer(privateKey = accountPrivateKeys[0], relayAddress = contractAddress): MockFinalizer {
+    const finalizer = new MockFinalizer(privateKey, web3, contractAddress, relayAddress, contractAddress);
+    // voting epochs of 20 seconds, reward epochs of 1000 voting epochs
+    finalizer.epochSettings = new EpochSettings(0, 20000, 0, 20, 0, 0, 0);
+    return finalizer;
+  }
+
+  async function createFinalizerWithDatabase(databaseFile: string): Promise<MockFinalizer> {
+    const finalizer = createFinalizer();
+    finalizer.stateDataSource = await getFinalizerDataSource(databaseFile);
+    return finalizer;
+  }
+
+  function newDatabaseFile(): string {
+    const databaseFile = path.join(os.tmpdir(), `finalizer-test-${process.pid}-${databaseFiles.length}.db`);
+    databaseFiles.push(databaseFile);
+    return databaseFile;
+  }
+
+  before(async () => {
+    accountAddresses = (await ethers.getSigners()).map(x => x.address);
+    signingPolicies = [1, 2].map(rewardEpochId => ({
+      ...defaultTestSigningPolicy(accountAddresses, 4, 100),
+      rewardEpochId,
+      startVotingRoundId: 1000 * rewardEpochId,
+    }));
+  });
+
+  after(() => {
+    for (const databaseFile of databaseFiles) {
+      fs.rmSync(databaseFile, { force: true });
+    }
+  });
+
+  it("Should persist progress and restore it after restart", async () => {
+    const databaseFile = newDatabaseFile();
+    const finalizer = await createFinalizerWithDatabase(databaseFile);
+    expect(await finalizer.loadState()).to.be.undefined;
+    await finalizer.saveSigningPolicies(finalizer.processSigningPolicies([...signingPolicies]));
+    await finalizer.saveRelay({ votingRoundId: 1010, protocolId: 100, messageHash: ethers.id("message") });
+    await finalizer.saveProgress(1234);
+    await finalizer.saveProgress(1240);
+    await finalizer.stateDataSource.destroy();
+
+    const restarted = await createFinalizerWithDatabase(databaseFile);
+    expect(await restarted.loadState()).to.equal(1240);
+    expect([...restarted.signingPolicies.values()]).to.deep.equal(signingPolicies);
+    expect(restarted.minRewardEpochSigningPolicy).to.equal(1);
+    expect(restarted.maxRewardEpochSigningPolicy).to.equal(2);
+    expect(restarted.voterToIndexMaps.get(2)!.get(signingPolicies[1].voters[3])).to.equal(3);
+    expect(restarted.processed.get(1010)?.get(100)).to.be.true;
+    expect(restarted.processed.get(1010)?.get(101)).to.be.undefined;
+    await restarted.stateDataSource.destroy();
+  });
+
+  it("Should drop queue entries relayed by others", async () => {
+    const finalizer = await createFinalizerWithDatabase(newDatabaseFile());
+    const relayed = { protocolId: 100, votingRoundId: 1010, isSecureRandom: true, merkleRoot: ethers.id("root") };
+    finalizer.queue.push({ votingRoundId: 1010, protocolId: 100, messageHash: ethers.id("message") });
+    finalizer.queue.push({ votingRoundId: 1010, protocolId: 100, messageHash: ethers.id("other message") });
+    await finalizer.processRelayedMessages([relayed]);
+    // relayed again, e.g. in an overlapping query window
+    await finalizer.processRelayedMessages([relayed]);
+    expect(finalizer.processed.get(1010)?.get(100)).to.be.true;
+
+    await finalizer.processQueue();
+    expect(finalizer.queue.size).to.equal(0);
+    expect(finalizer.droppedRelays).to.equal(2);
+    expect(finalizer.statusReport().droppedRelays).to.equal(2);
+
+    const restarted = await createFinalizerWithDatabase(finalizer.stateDataSource.options.database as string);
+    await restarted.loadState();
+    expect(restarted.processed.get(1010)?.get(100)).to.be.true;
+    await finalizer.stateDataSource.destroy();
+    await restarted.stateDataSource.destroy();
+  });
+
+  it("Should drop queue entries without signature payloads and continue", async () => {
+    const [signingPolicy] = signingPolicies;
+    const relay = await Relay.new(constants.ZERO_ADDRESS, 1, 1000, SigningPolicy.hash(signingPolicy), 15, 0, 20, 0, 1000, 12000, 3);
+    const finalizer = await createFinalizerWithDatabase(newDatabaseFile());
+    finalizer.relayContractAddress = relay.address;
+    finalizer.processSigningPolicies([signingPolicy]);
+    // no signature payloads (e.g. evicted) and no signing policy for the voting round
+    finalizer.queue.push({ votingRoundId: 1010, protocolId: 100, messageHash: ethers.id("message") });
+    finalizer.queue.push({ votingRoundId: 10, protocolId: 100, messageHash: ethers.id("message") });
+    await finalizer.processQueue();
+    expect(finalizer.queue.size).to.equal(0);
+    expect(finalizer.processed.size).to.equal(0);
+    expect(finalizer.droppedRelays).to.equal(0);
+    await finalizer.stateDataSource.destroy();
+  });
+
+  it("Should calculate relay delay", async () => {
+    const finalizer = createFinalizer();
+    // voter 1 has 3/4 of the weight, the finalizer's transaction sender (account 0) is not its signing policy address
+    const signingPolicy = { ...signingPolicies[0], weights: [0, 300, 50, 50] };
+    finalizer.processSigningPolicies([signingPolicy]);
+
+    expect(finalizer.relayDelayMs(signingPolicy)).to.equal(0);
+    finalizer.relayDelay = { mode: RelayDelayMode.RANDOM, maxDelayMs: 1000 };
+    const randomDelays = [...Array(100).keys()].map(() => finalizer.relayDelayMs(signingPolicy));
+    expect(Math.min(...randomDelays)).to.be.gte(0);
+    expect(Math.max(...randomDelays)).to.be.lt(1000);
+    expect(randomDelays.every(delay => Number.isInteger(delay))).to.be.true;
+
+    const stakeWeightedDelays = (signingPolicyAddress?: string) => {
+      finalizer.relayDelay = { mode: RelayDelayMode.STAKE_WEIGHTED, maxDelayMs: 1000, signingPolicyAddress };
+      return [...Array(100).keys()].map(() => finalizer.relayDelayMs(signingPolicy));
+    };
+    // configured signing policy address with stake shrinks the delay
+    const voterDelays = stakeWeightedDelays(accountAddresses[1].toLowerCase());
+    expect(Math.min(...voterDelays)).to.be.gte(0);
+    expect(Math.max(...voterDelays)).to.be.lt(250);
+    // signing policy address without weight, not in the signing policy or not configured waits up to the max delay
+    for (const signingPolicyAddress of [accountAddresses[0].toLowerCase(), accountAddresses[10].toLowerCase(), undefined]) {
+      const delays = stakeWeightedDelays(signingPolicyAddress);
+      expect(Math.max(...delays)).to.be.gte(250).and.lt(1000);
+    }
+    // signing policy without weight does not produce NaN delays
+    const emptySigningPolicy = { ...signingPolicies[1], weights: [0, 0, 0, 0] };
+    finalizer.processSigningPolicies([emptySigningPolicy]);
+    const emptyDelay = finalizer.relayDelayMs(emptySigningPolicy);
+    expect(Number.isInteger(emptyDelay)).to.be.true;
+    expect(emptyDelay).to.be.gte(0).and.lt(1000);
+
+    const voterAddress = accountAddresses[1];
+    expect(parseRelayDelayConfig(undefined, undefined)).to.deep.equal({ mode: RelayDelayMode.NONE, maxDelayMs: 0 });
+    expect(parseRelayDelayConfig("stake-weighted", "5000", voterAddress)).to.deep.equal({
+      mode: RelayDelayMode.STAKE_WEIGHTED,
+      maxDelayMs: 5000,
+      signingPolicyAddress: voterAddress.toLowerCase(),
+    });
+    expect(() => parseRelayDelayConfig("stake", "5000")).to.throw("Invalid relay delay mode: stake");
+    expect(() => parseRelayDelayConfig("random", "5s")).to.throw("Invalid relay delay max ms: 5s");
+    expect(() => parseRelayDelayConfig("random", "-1")).to.throw("Invalid relay delay max ms: -1");
+    expect(() => parseRelayDelayConfig("stake-weighted", "5000")).to.throw("requires the signing policy address");
+    expect(() => parseRelayDelayConfig("stake-weighted", "5000", "0x1234")).to.throw("Invalid relay delay signing policy address: 0x1234");
+  });
+
+  it("Should relay new signing policy with signatures of lowest indices and skip relayed reward epochs", async () => {
+    // 4 voters with weight 100, threshold 200
+    const [signingPolicy, newSigningPolicy] = signingPolicies;
+    const relay = await Relay.new(
+      constants.ZERO_ADDRESS,
+      signingPolicy.rewardEpochId,
+      signingPolicy.startVotingRoundId,
+      SigningPolicy.hash(signingPolicy),
+      15,
+      0,
+      20,
+      0,
+      1000,
+      12000,
+      3
+    );
+    const finalizer = createFinalizer(accountPrivateKeys[0], relay.address);
+    finalizer.signingPolicyRelayEnabled = await extractSigningPolicyRelayEnabled(relay.address);
+    expect(finalizer.signingPolicyRelayEnabled).to.be.true;
+    finalizer.processSigningPolicies([signingPolicy, newSigningPolicy]);
+
+    const newSigningPolicyHash = SigningPolicy.hash(newSigningPolicy);
+    const signature = async (index: number, rewardEpochId = 2, hash = newSigningPolicyHash): Promise<NewSigningPolicySignature> => ({
+      rewardEpochId,
+      newSigningPolicyHash: hash,
+      signer: accountAddresses[index].toLowerCase(),
+      signature: await ECDSASignature.signMessageHash(hash, accountPrivateKeys[index]),
+    });
+    finalizer.processNewSigningPolicySignatures([
+      await signature(3),
+      await signature(1),
+      // ignored: signer not in the signing policy, signed hash differs, no signing policy for the reward epoch
+      await signature(10),
+      await signature(0, 2, ethers.id("other signing policy")),
+      await signature(0, 3),
+    ]);
+    expect([...finalizer.newSigningPolicySignatures.keys()]).to.deep.equal([2]);
+    expect([...finalizer.newSigningPolicySignatures.get(2)!.values()].map(x => x.index)).to.deep.equal([3, 1]);
+
+    // weight 200 does not pass the threshold
+    const blockNumber = await web3.eth.getBlockNumber();
+    await finalizer.relayNewSigningPolicies();
+    expect(await web3.eth.getBlockNumber()).to.equal(blockNumber);
+    expect(finalizer.relayedSigningPolicies.size).to.equal(0);
+
+    finalizer.processNewSigningPolicySignatures([await signature(2), await signature(0)]);
+    await finalizer.relayNewSigningPolicies();
+    expect([...finalizer.relayedSigningPolicies]).to.deep.equal([2]);
+    expect((await relay.lastInitializedRewardEpochData())[0].toString()).to.equal("2");
+    expect(await relay.toSigningPolicyHash(2)).to.equal(newSigningPolicyHash);
+    const block = await web3.eth.getBlock(await web3.eth.getBlockNumber(), true);
+    const relayMessage = RelayMessage.decode("0x" + block.transactions[0].input.slice(10));
+    expect(relayMessage.signatures.map(x => x.index)).to.deep.equal([0, 1, 2]);
+    expect(SigningPolicy.hash(relayMessage.newSigningPolicy!)).to.equal(newSigningPolicyHash);
+
+    // already relayed (by others or before restart) reward epochs are skipped
+    const blockNumberAfterRelay = await web3.eth.getBlockNumber();
+    const otherFinalizer = createFinalizer(accountPrivateKeys[1], relay.address);
+    otherFinalizer.signingPolicyRelayEnabled = true;
+    otherFinalizer.processSigningPolicies([signingPolicy, newSigningPolicy]);
+    otherFinalizer.processNewSigningPolicySignatures(await Promise.all([0, 1, 2, 3].map(i => signature(i))));
+    await otherFinalizer.relayNewSigningPolicies();
+    await finalizer.relayNewSigningPolicies();
+    expect([...otherFinalizer.relayedSigningPolicies]).to.deep.equal([2]);
+    expect(await web3.eth.getBlockNumber()).to.equal(blockNumberAfterRelay);
+  });
+
+  it("Should count rejected signature payloads by reason and voter", async () => {
+    const finalizer = createFinalizer();
+    finalizer.processSigningPolicies([signingPolicies[0]]);
+    const message = (votingRoundId: number, root: string): IProtocolMessageMerkleRoot => ({
+      protocolId: 100,
+      votingRoundId,
+      isSecureRandom: false,
+      merkleRoot: ethers.id(root),
+    });
+    let txCount = 0;
+    const submitSignaturesTx = async (signerIndex: number, messages: IProtocolMessageMerkleRoot[]): Promise<TLPTransaction> => {
+      const payloads = [];
+      for (const messageData of messages) {
+        const signature = await ECDSASignature.signMessageHash(ProtocolMessageMerkleRoot.hash(messageData), accountPrivateKeys[signerIndex]);
+        const payload = SignaturePayload.encode({ type: SignaturePayload.TYPE_MESSAGE, message: messageData, signature, unsignedMessage: "0x" });
+        payloads.push(PayloadMessage.encode({ protocolId: 100, votingRoundId: messageData.votingRoundId, payload }));
+      }
+      const tx = new TLPTransaction();
+      tx.hash = ethers.id(`tx${txCount++}`).slice(2);
+      tx.input = (SUBMIT_SIGNATURES_SELECTOR + PayloadMessage.concatenateHexStrings(payloads).slice(2)).slice(2);
+      tx.from_address = accountAddresses[signerIndex].slice(2).toLowerCase();
+      tx.timestamp = 100;
+      return tx;
+    };
+    const voter = (index: number) => accountAddresses[index].toLowerCase();
+    const txs = [
+      await submitSignaturesTx(0, [message(1010, "A")]),
+      // voting round before the first signing policy
+      await submitSignaturesTx(1, [message(1010, "A"), message(500, "A")]),
+      // not in the signing policy
+      await submitSignaturesTx(10, [message(1010, "A")]),
+      // conflicts with the first signed message
+      await submitSignaturesTx(0, [message(1010, "B")]),
+    ];
+    finalizer.processSignaturePayloads(finalizer.decodeNewSignaturePayloads(txs, 90));
+    // overlapping query windows read the same transactions again
+    expect(finalizer.decodeNewSignaturePayloads(txs, 95)).to.deep.equal([]);
+    // resubmission in a new transaction
+    finalizer.processSignaturePayloads(finalizer.decodeNewSignaturePayloads([...txs, await submitSignaturesTx(1, [message(1010, "A")])], 95));
+
+    const messageHash = ProtocolMessageMerkleRoot.hash(message(1010, "A"));
+    expect(finalizer.results.get(1010)!.get(100)!.get(messageHash)!.map(x => x.index)).to.deep.equal([0, 1]);
+    expect(Object.fromEntries(finalizer.rejectsByReason)).to.deep.equal({
+      [PayloadRejectReason.NO_SIGNING_POLICY]: 1,
+      [PayloadRejectReason.UNKNOWN_SIGNER]: 1,
+      [PayloadRejectReason.CONFLICTING_MESSAGE_HASH]: 1,
+      [PayloadRejectReason.DUPLICATE]: 1,
+    });
+    expect(finalizer.statusReport().rejectsByVoter).to.deep.equal({
+      [voter(0)]: { [PayloadRejectReason.CONFLICTING_MESSAGE_HASH]: 1 },
+      [voter(1)]: { [PayloadRejectReason.NO_SIGNING_POLICY]: 1, [PayloadRejectReason.DUPLICATE]: 1 },
+      [voter(10)]: { [PayloadRejectReason.UNKNOWN_SIGNER]: 1 },
+    });
+    expect(finalizer.statusReport().rejectsBySender).to.deep.equal({});
+
+    // transactions before the query window and old voting rounds are forgotten
+    finalizer.decodeNewSignaturePayloads([], 101);
+    expect(finalizer.processedTransactions.size).to.equal(0);
+    finalizer.pruneSignedMessageHashes(1010);
+    expect([...finalizer.signedMessageHashes.keys()]).to.deep.equal([1010]);
+    finalizer.pruneSignedMessageHashes(1011);
+    expect(finalizer.signedMessageHashes.size).to.equal(0);
+  });
+});
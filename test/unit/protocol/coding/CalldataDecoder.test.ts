@@ -0,0 +1,85 @@
+import { contract, ethers } from "hardhat";
+import { CalldataDecoder, CalldataFunction } from "../../../../scripts/libs/protocol/CalldataDecoder";
+import { ECDSASignature } from "../../../../scripts/libs/protocol/ECDSASignature";
+import { PayloadMessage } from "../../../../scripts/libs/protocol/PayloadMessage";
+import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "../../../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
+import { SignaturePayload } from "../../../../scripts/libs/protocol/SignaturePayload";
+import { SigningPolicy } from "../../../../scripts/libs/protocol/SigningPolicy";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture, generateSignatures, randomProtocolMessage, relayCalldata } from "./coding-helpers";
+
+contract(`CalldataDecoder; ${getTestFile(__filename)}`, async () => {
+  let fixture: ICodingTestFixture;
+  let messageData: IProtocolMessageMerkleRoot;
+  let messageHash: string;
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    messageData = randomProtocolMessage(fixture.votingRoundId);
+    messageHash = ProtocolMessageMerkleRoot.hash(messageData);
+  });
+
+  async function relayMessageCalldata(signatureCount: number): Promise<string> {
+    return relayCalldata({
+      signingPolicy: fixture.signingPolicyData,
+      signatures: await generateSignatures(fixture.accountPrivateKeys, messageHash, signatureCount),
+      protocolMessageMerkleRoot: messageData,
+    });
+  }
+
+  it("Should decode submit1 calldata", async () => {
+    const payload = { protocolId: 100, votingRoundId: fixture.votingRoundId, payload: "0xabcd" };
+    const report = CalldataDecoder.decode(ethers.id("submit1()").slice(0, 10) + PayloadMessage.encode(payload).slice(2));
+    expect(report.function).to.equal(CalldataFunction.SUBMIT1);
+    expect(report.payloads).to.deep.equal([payload]);
+  });
+
+  it("Should decode submitSignatures calldata and recover signers", async () => {
+    const { N, accountAddresses, accountPrivateKeys } = fixture;
+    // signer 0 is in the signing policy, signer N is not
+    const payloads: string[] = [];
+    for (const i of [0, N]) {
+      const signature = await ECDSASignature.signMessageHash(messageHash, accountPrivateKeys[i]);
+      payloads.push(
+        PayloadMessage.encode({
+          protocolId: 100,
+          votingRoundId: fixture.votingRoundId,
+          payload: SignaturePayload.encode({ type: "0x00", message: messageData, signature, unsignedMessage: "0x" }),
+        })
+      );
+    }
+    const calldata = ethers.id("submitSignatures()").slice(0, 10) + PayloadMessage.concatenateHexStrings(payloads).slice(2);
+    const report = CalldataDecoder.decode(calldata, { signingPolicy: fixture.signingPolicyData });
+    expect(report.function).to.equal(CalldataFunction.SUBMIT_SIGNATURES);
+    expect(report.signaturePayloads!.map(x => x.signer)).to.deep.equal([accountAddresses[0].toLowerCase(), accountAddresses[N].toLowerCase()]);
+    expect(report.signaturePayloads![0]).to.include({ inSigningPolicy: true, index: 0, weight: fixture.singleWeight });
+    expect(report.signaturePayloads![1].inSigningPolicy).to.be.false;
+    expect(CalldataDecoder.format(report)).to.contain("NOT IN SIGNING POLICY");
+  });
+
+  it("Should decode relay calldata and verify signatures", async () => {
+    const { N, singleWeight, signingPolicyData } = fixture;
+    const relayReport = CalldataDecoder.decode(await relayMessageCalldata(N / 2 + 1), { signingPolicyHash: SigningPolicy.hash(signingPolicyData) }).relay!;
+    expect(relayReport.signingPolicyHashMatches).to.be.true;
+    expect(relayReport.messageHash).to.equal(messageHash);
+    expect(relayReport.signatures.every(x => x.valid)).to.be.true;
+    expect(relayReport.weight).to.equal((N / 2 + 1) * singleWeight);
+    expect(relayReport.thresholdReached).to.be.true;
+  });
+
+  it("Should report relay calldata below the threshold", async () => {
+    const { N, singleWeight, signingPolicyData } = fixture;
+    const relayReport = CalldataDecoder.decode(await relayMessageCalldata(N / 2), { signingPolicy: signingPolicyData }).relay!;
+    expect(relayReport.weight).to.equal((N / 2) * singleWeight);
+    expect(relayReport.thresholdReached).to.be.false;
+  });
+
+  it("Should report signing policy hash mismatch", async () => {
+    const relayReport = CalldataDecoder.decode(await relayMessageCalldata(1), { signingPolicy: fixture.newSigningPolicyData }).relay!;
+    expect(relayReport.signingPolicyHashMatches).to.be.false;
+  });
+
+  it("Should reject unknown selector", async () => {
+    expect(() => CalldataDecoder.decode("0x12345678")).to.throw("Unknown selector");
+  });
+});
@@ -0,0 +1,71 @@
+import { contract, ethers } from "hardhat";
+import { FtsoCommitReveal, IFtsoReveal } from "../../../../scripts/libs/protocol/FtsoCommitReveal";
+import { PayloadMessage } from "../../../../scripts/libs/protocol/PayloadMessage";
+import { ProtocolDecodeError } from "../../../../scripts/libs/protocol/ProtocolDecodeError";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture } from "./coding-helpers";
+
+contract(`FtsoCommitReveal; ${getTestFile(__filename)}`, async () => {
+  const protocolId = 100;
+  let fixture: ICodingTestFixture;
+  let votingRoundId: number;
+  let voter: string;
+  let reveal: IFtsoReveal;
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    votingRoundId = fixture.votingRoundId;
+    voter = ethers.hexlify(ethers.randomBytes(20));
+    reveal = {
+      random: ethers.hexlify(ethers.randomBytes(32)),
+      feedValues: [0, 1, -1, 2 ** 31 - 1, -(2 ** 31), 12345678],
+    };
+  });
+
+  it("Should encode and decode commits and reveals", async () => {
+    expect(FtsoCommitReveal.decodeReveal(FtsoCommitReveal.encodeReveal(reveal))).to.deep.equal(reveal);
+    const commit = { commitHash: FtsoCommitReveal.commitHash(voter, votingRoundId, reveal.random, reveal.feedValues) };
+    expect(FtsoCommitReveal.decodeCommit(FtsoCommitReveal.encodeCommit(commit))).to.deep.equal(commit);
+  });
+
+  it("Should verify reveal against commit", async () => {
+    const commit = { commitHash: FtsoCommitReveal.commitHash(voter, votingRoundId, reveal.random, reveal.feedValues) };
+    expect(FtsoCommitReveal.verifyReveal(commit, voter, votingRoundId, reveal)).to.be.true;
+    expect(FtsoCommitReveal.verifyReveal(commit, voter, votingRoundId + 1, reveal)).to.be.false;
+    expect(FtsoCommitReveal.verifyReveal(commit, voter, votingRoundId, { ...reveal, feedValues: [0, 1, -1] })).to.be.false;
+  });
+
+  it("Should decode commits and reveals of the protocol from calldata", async () => {
+    const commit = { commitHash: FtsoCommitReveal.commitHash(voter, votingRoundId, reveal.random, reveal.feedValues) };
+    // payloads of other protocols are ignored
+    const otherPayload = PayloadMessage.encode({ protocolId: 200, votingRoundId, payload: "0x1234" });
+    const submit1Calldata = FtsoCommitReveal.encodeSubmit1Calldata([
+      otherPayload,
+      FtsoCommitReveal.encodeCommitPayload(protocolId, votingRoundId, voter, reveal),
+    ]);
+    expect(FtsoCommitReveal.decodeCommitCalldata(submit1Calldata, protocolId)).to.deep.equal([{ protocolId, votingRoundId, payload: commit }]);
+    const submit2Calldata = FtsoCommitReveal.encodeSubmit2Calldata([FtsoCommitReveal.encodeRevealPayload(protocolId, votingRoundId, reveal), otherPayload]);
+    expect(FtsoCommitReveal.decodeRevealCalldata(submit2Calldata, protocolId)).to.deep.equal([{ protocolId, votingRoundId, payload: reveal }]);
+  });
+
+  it("Should reject calldata with wrong selector", async () => {
+    const submit1Calldata = FtsoCommitReveal.encodeSubmit1Calldata([FtsoCommitReveal.encodeCommitPayload(protocolId, votingRoundId, voter, reveal)]);
+    expect(() => FtsoCommitReveal.decodeRevealCalldata(submit1Calldata, protocolId)).to.throw(ProtocolDecodeError, "selector");
+  });
+
+  it("Should reject reveal with partial feed value", async () => {
+    expect(() => FtsoCommitReveal.decodeReveal(FtsoCommitReveal.encodeReveal(reveal) + "00")).to.throw(
+      ProtocolDecodeError,
+      "FtsoReveal.feedValues at byte 32"
+    );
+  });
+
+  it("Should not encode feed values out of int32 range", async () => {
+    expect(() => FtsoCommitReveal.encodeReveal({ ...reveal, feedValues: [2 ** 31] })).to.throw("Feed value out of range");
+    expect(() => FtsoCommitReveal.encodeReveal({ ...reveal, feedValues: [1.5] })).to.throw("Feed value out of range");
+  });
+
+  it("Should not calculate commit hash for invalid voter address", async () => {
+    expect(() => FtsoCommitReveal.commitHash("0x1234", votingRoundId, reveal.random, reveal.feedValues)).to.throw("Invalid voter address format");
+  });
+});
@@ -0,0 +1,75 @@
+import { contract, ethers } from "hardhat";
+import { FtsoConfigurations } from "../../../../scripts/libs/protocol/FtsoConfigurations";
+import { FtsoMerkle, IFeed, IFtsoMerkleData, IRandom } from "../../../../scripts/libs/protocol/FtsoMerkle";
+import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "../../../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
+import { IRelayMessage, RelayMessage } from "../../../../scripts/libs/protocol/RelayMessage";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture, generateSignatures } from "./coding-helpers";
+
+contract(`FtsoMerkle; ${getTestFile(__filename)}`, async () => {
+  let fixture: ICodingTestFixture;
+  let random: IRandom;
+  let feeds: IFeed[];
+  let ftsoTree: IFtsoMerkleData;
+  let relayMessage: IRelayMessage;
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    const { votingRoundId } = fixture;
+    random = { votingRoundId, value: BigInt(ethers.hexlify(ethers.randomBytes(32))), isSecure: true };
+    feeds = [
+      { votingRoundId, id: FtsoConfigurations.encodeFeedId({ category: 1, name: "BTC/USD" }), value: 6543210, turnoutBIPS: 8000, decimals: 2 },
+      { votingRoundId, id: FtsoConfigurations.encodeFeedId({ category: 1, name: "XRP/USD" }), value: -12345, turnoutBIPS: 10000, decimals: -3 },
+      { votingRoundId, id: FtsoConfigurations.encodeFeedId({ category: 1, name: "FLR/USD" }), value: 25000, turnoutBIPS: 5000, decimals: 6 },
+    ];
+    ftsoTree = FtsoMerkle.buildTree(random, feeds);
+    const messageData: IProtocolMessageMerkleRoot = {
+      protocolId: 100,
+      votingRoundId,
+      isSecureRandom: true,
+      merkleRoot: ftsoTree.merkleRoot,
+    };
+    const signatures = await generateSignatures(fixture.accountPrivateKeys, ProtocolMessageMerkleRoot.hash(messageData), fixture.N / 2 + 1);
+    relayMessage = RelayMessage.decode(
+      RelayMessage.encode({
+        signingPolicy: fixture.signingPolicyData,
+        signatures,
+        protocolMessageMerkleRoot: messageData,
+      })
+    );
+  });
+
+  it("Should encode and decode feeds and random", async () => {
+    expect(FtsoMerkle.decodeFeed(FtsoMerkle.encodeFeed(feeds[1]))).to.deep.equal(feeds[1]);
+    expect(FtsoMerkle.decodeRandom(FtsoMerkle.encodeRandom(random))).to.deep.equal(random);
+  });
+
+  it("Should verify feed proofs against relay message", async () => {
+    for (const feedWithProof of ftsoTree.feedsWithProofs) {
+      expect(FtsoMerkle.verifyFeedWithRelayMessage(feedWithProof, relayMessage, 100)).to.be.true;
+    }
+    expect(FtsoMerkle.verifyRandom(random, ftsoTree.tree.getProofForHash(FtsoMerkle.hashRandom(random))!, ftsoTree.merkleRoot)).to.be.true;
+  });
+
+  it("Should not verify tampered feed", async () => {
+    for (const feedWithProof of ftsoTree.feedsWithProofs) {
+      const tampered = { ...feedWithProof, body: { ...feedWithProof.body, value: feedWithProof.body.value + 1 } };
+      expect(FtsoMerkle.verifyFeed(tampered, ftsoTree.merkleRoot)).to.be.false;
+    }
+  });
+
+  it("Should reject relay message of another protocol", async () => {
+    expect(() => FtsoMerkle.verifyFeedWithRelayMessage(ftsoTree.feedsWithProofs[0], relayMessage, 101)).to.throw("Protocol id mismatch");
+  });
+
+  it("Should reject relay message of another voting round", async () => {
+    const feedWithProof = ftsoTree.feedsWithProofs[0];
+    const otherRoundFeed = { ...feedWithProof, body: { ...feedWithProof.body, votingRoundId: fixture.votingRoundId + 1 } };
+    expect(() => FtsoMerkle.verifyFeedWithRelayMessage(otherRoundFeed, relayMessage, 100)).to.throw("Voting round id mismatch");
+  });
+
+  it("Should not build tree from feeds of another voting round", async () => {
+    const otherRoundFeed = { ...feeds[0], votingRoundId: fixture.votingRoundId + 1 };
+    expect(() => FtsoMerkle.buildTree(random, [...feeds, otherRoundFeed])).to.throw("does not match random voting round id");
+  });
+});
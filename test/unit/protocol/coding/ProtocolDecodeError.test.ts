@@ -0,0 +1,69 @@
+import { contract } from "hardhat";
+import { ByteUtils } from "../../../../scripts/libs/protocol/ByteUtils";
+import { ECDSASignature } from "../../../../scripts/libs/protocol/ECDSASignature";
+import { ECDSASignatureWithIndex } from "../../../../scripts/libs/protocol/ECDSASignatureWithIndex";
+import { PayloadMessage } from "../../../../scripts/libs/protocol/PayloadMessage";
+import { ProtocolDecodeError } from "../../../../scripts/libs/protocol/ProtocolDecodeError";
+import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "../../../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
+import { RelayMessage } from "../../../../scripts/libs/protocol/RelayMessage";
+import { SignaturePayload } from "../../../../scripts/libs/protocol/SignaturePayload";
+import { SigningPolicy } from "../../../../scripts/libs/protocol/SigningPolicy";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture, generateSignatures, randomProtocolMessage } from "./coding-helpers";
+
+contract(`ProtocolDecodeError; ${getTestFile(__filename)}`, async () => {
+  let fixture: ICodingTestFixture;
+  let messageData: IProtocolMessageMerkleRoot;
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    messageData = randomProtocolMessage(fixture.votingRoundId, 15);
+  });
+
+  function decodeError(decode: () => unknown): ProtocolDecodeError {
+    let error: unknown;
+    try {
+      decode();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(ProtocolDecodeError);
+    return error as ProtocolDecodeError;
+  }
+
+  it("Should report nested field and calldata offset of invalid signature payload", async () => {
+    const signature = await ECDSASignature.signMessageHash(ProtocolMessageMerkleRoot.hash(messageData), fixture.accountPrivateKeys[0]);
+    const payload = PayloadMessage.encodeBytes({
+      protocolId: messageData.protocolId,
+      votingRoundId: messageData.votingRoundId,
+      payload: SignaturePayload.encodeBytes({ type: SignaturePayload.TYPE_MESSAGE, message: messageData, signature, unsignedMessage: "0x" }),
+    });
+    const calldata = ByteUtils.concatenateBytes([ByteUtils.hexToBytes("0x6c532fae"), payload, payload]);
+    // invalid isSecureRandom in the second payload: selector + first payload + payload header + type + 5
+    const isSecureRandomOffset = 4 + payload.length + PayloadMessage.HEADER_BYTES + 1 + 5;
+    calldata[isSecureRandomOffset] = 2;
+
+    const error = decodeError(() => SignaturePayload.decodeCalldataBytes(calldata));
+    expect(error.field).to.equal("payloads[1].message.isSecureRandom");
+    expect(error.offset).to.equal(isSecureRandomOffset);
+    // the message does not dump the input
+    expect(error.message).not.to.contain(ByteUtils.bytesToHex(calldata).slice(2, 20));
+  });
+
+  it("Should report expected and actual length of truncated relay message", async () => {
+    const signatures = await generateSignatures(fixture.accountPrivateKeys, ProtocolMessageMerkleRoot.hash(messageData), 2);
+    const signingPolicy = fixture.signingPolicyData;
+    const relayMessage = RelayMessage.encodeBytes({ signingPolicy, signatures, protocolMessageMerkleRoot: messageData });
+
+    const error = decodeError(() => RelayMessage.decodeBytes(relayMessage.subarray(0, relayMessage.length - 10)));
+    expect(error.codec).to.equal("RelayMessage");
+    expect(error.field).to.equal("signatures.signatures");
+    expect(error.offset).to.equal(SigningPolicy.encodedBytesLength(signingPolicy) + ProtocolMessageMerkleRoot.ENCODED_BYTES + 2);
+    expect(error.expectedLength).to.equal(2 * ECDSASignatureWithIndex.ENCODED_BYTES);
+    expect(error.actualLength).to.equal(2 * ECDSASignatureWithIndex.ENCODED_BYTES - 10);
+  });
+
+  it("Should report codec and field of too short input", async () => {
+    expect(() => SigningPolicy.decode("0x0001")).to.throw(ProtocolDecodeError, "SigningPolicy.metadata at byte 0");
+  });
+});
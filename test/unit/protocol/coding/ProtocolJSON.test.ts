@@ -0,0 +1,82 @@
+import { contract } from "hardhat";
+import { ECDSASignature } from "../../../../scripts/libs/protocol/ECDSASignature";
+import { ProtocolJSON } from "../../../../scripts/libs/protocol/ProtocolJSON";
+import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "../../../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
+import { IRelayMessage, RelayMessage } from "../../../../scripts/libs/protocol/RelayMessage";
+import { ISignaturePayload, SignaturePayload } from "../../../../scripts/libs/protocol/SignaturePayload";
+import { SigningPolicy } from "../../../../scripts/libs/protocol/SigningPolicy";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture, generateSignatures, randomProtocolMessage } from "./coding-helpers";
+
+contract(`ProtocolJSON; ${getTestFile(__filename)}`, async () => {
+  let fixture: ICodingTestFixture;
+  let messageData: IProtocolMessageMerkleRoot;
+  let relayMessage: IRelayMessage;
+  let relayMessageJSON: IRelayMessage;
+  let signaturePayload: ISignaturePayload;
+
+  const upperCaseHex = (value: string) => value.toUpperCase().replace("0X", "0x");
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    const { signingPolicyData } = fixture;
+    messageData = randomProtocolMessage(fixture.votingRoundId);
+    messageData.merkleRoot = upperCaseHex(messageData.merkleRoot);
+    const signatures = await generateSignatures(fixture.accountPrivateKeys, ProtocolMessageMerkleRoot.hash(messageData), fixture.N / 2 + 1);
+    relayMessage = {
+      signatures,
+      protocolMessageMerkleRoot: messageData,
+      signingPolicy: { ...signingPolicyData, voters: signingPolicyData.voters.map(upperCaseHex), encodedLength: 5 },
+    };
+    relayMessageJSON = RelayMessage.toJSON(relayMessage);
+    signaturePayload = {
+      type: SignaturePayload.TYPE_MESSAGE,
+      message: messageData,
+      signature: { v: signatures[0].v, r: signatures[0].r, s: signatures[0].s },
+      unsignedMessage: "0x1234",
+    };
+  });
+
+  it("Should convert relay message to canonical JSON", async () => {
+    expect(Object.keys(relayMessageJSON)).to.deep.equal(["signingPolicy", "protocolMessageMerkleRoot", "signatures"]);
+    expect(relayMessageJSON.signingPolicy.encodedLength).to.be.undefined;
+    expect(relayMessageJSON.signingPolicy.voters).to.deep.equal(fixture.signingPolicyData.voters.map(x => x.toLowerCase()));
+    expect(relayMessageJSON.protocolMessageMerkleRoot!.merkleRoot).to.equal(messageData.merkleRoot.toLowerCase());
+  });
+
+  it("Should convert relay message from canonical JSON", async () => {
+    const parsed = RelayMessage.fromJSON(JSON.stringify(relayMessageJSON));
+    expect(RelayMessage.equals(parsed, relayMessageJSON)).to.be.true;
+    expect(JSON.stringify(parsed)).to.equal(JSON.stringify(relayMessageJSON));
+    expect(RelayMessage.encode(parsed)).to.equal(RelayMessage.encode(relayMessage).toLowerCase());
+  });
+
+  it("Should convert signature payload to and from JSON", async () => {
+    const payloadJSON = JSON.stringify(SignaturePayload.toJSON(signaturePayload));
+    expect(SignaturePayload.encode(SignaturePayload.fromJSON(payloadJSON))).to.equal(SignaturePayload.encode(signaturePayload));
+  });
+
+  it("Should validate JSON by schema name", async () => {
+    const signature = ProtocolJSON.validate("ECDSASignature", JSON.stringify(signaturePayload.signature));
+    expect(signature).to.deep.equal(signaturePayload.signature);
+    expect(() => ProtocolJSON.validate("ECDSASignature", "{}")).to.throw("Invalid ECDSASignature JSON");
+  });
+
+  it("Should reject relay message JSON with both merkle root and new signing policy", async () => {
+    expect(() => RelayMessage.fromJSON({ ...relayMessageJSON, newSigningPolicy: relayMessageJSON.signingPolicy })).to.throw("Invalid RelayMessage JSON");
+  });
+
+  it("Should reject signing policy JSON with inconsistent or non-canonical fields", async () => {
+    const signingPolicyJSON = relayMessageJSON.signingPolicy;
+    expect(() => SigningPolicy.fromJSON({ ...signingPolicyJSON, weights: [fixture.singleWeight] })).to.throw("Invalid SigningPolicy JSON");
+    expect(() => SigningPolicy.fromJSON({ ...signingPolicyJSON, encodedLength: 5 })).to.throw("Invalid SigningPolicy JSON");
+  });
+
+  it("Should reject signature JSON with invalid v", async () => {
+    expect(() => ECDSASignature.fromJSON({ ...signaturePayload.signature, v: 29 })).to.throw("Invalid ECDSASignature JSON");
+  });
+
+  it("Should reject signature payload JSON without message", async () => {
+    expect(() => SignaturePayload.fromJSON({ ...signaturePayload, message: undefined })).to.throw("Invalid SignaturePayload JSON");
+  });
+});
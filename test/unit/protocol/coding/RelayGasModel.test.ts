@@ -0,0 +1,179 @@
+import { constants } from "@openzeppelin/test-helpers";
+import { artifacts, contract, ethers, web3 } from "hardhat";
+import { IECDSASignatureWithIndex } from "../../../../scripts/libs/protocol/ECDSASignatureWithIndex";
+import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "../../../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
+import { IRelayGasCoefficients, IRelayGasSample, RelayGasModel } from "../../../../scripts/libs/protocol/RelayGasModel";
+import { IRelayMessage } from "../../../../scripts/libs/protocol/RelayMessage";
+import { ISigningPolicy, SigningPolicy } from "../../../../scripts/libs/protocol/SigningPolicy";
+import { RelayContract } from "../../../../typechain-truffle";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, RELAY_SELECTOR, codingTestFixture, generateSignatures, randomProtocolMessage } from "./coding-helpers";
+
+const Relay: RelayContract = artifacts.require("Relay");
+
+contract(`RelayGasModel; ${getTestFile(__filename)}`, async () => {
+  const coefficients: IRelayGasCoefficients = { base: 30000, perVoter: 80, perSignature: 3500, newSigningPolicyBase: 20000, perNewVoter: 190 };
+  let fixture: ICodingTestFixture;
+  let messageData: IProtocolMessageMerkleRoot;
+  let signatures: IECDSASignatureWithIndex[];
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    messageData = randomProtocolMessage(fixture.votingRoundId, 15);
+    signatures = await generateSignatures(fixture.accountPrivateKeys, ProtocolMessageMerkleRoot.hash(messageData), 20);
+  });
+
+  function policy(voters: number): ISigningPolicy {
+    return {
+      ...fixture.signingPolicyData,
+      voters: fixture.signingPolicyData.voters.slice(0, voters),
+      weights: fixture.signingPolicyData.weights.slice(0, voters),
+      threshold: Math.ceil((voters / 2) * fixture.singleWeight),
+    };
+  }
+
+  function merkleRootMessage(voters: number, signatureCount: number): IRelayMessage {
+    return { signingPolicy: policy(voters), signatures: signatures.slice(0, signatureCount), protocolMessageMerkleRoot: messageData };
+  }
+
+  function newSigningPolicyMessage(voters: number, signatureCount: number, newVoters: number): IRelayMessage {
+    return {
+      signingPolicy: policy(voters),
+      signatures: signatures.slice(0, signatureCount),
+      newSigningPolicy: { ...policy(newVoters), rewardEpochId: fixture.rewardEpochId + 1 },
+    };
+  }
+
+  it("Should count only signatures checked before the threshold is exceeded", async () => {
+    expect(RelayGasModel.checkedSignatures(merkleRootMessage(20, 20))).to.equal(11);
+    expect(RelayGasModel.checkedSignatures(merkleRootMessage(20, 5))).to.equal(5);
+  });
+
+  it("Should calculate relay calldata and its intrinsic gas", async () => {
+    const calldata = RelayGasModel.calldata(merkleRootMessage(10, 6));
+    expect(calldata.slice(0, 10)).to.equal(RELAY_SELECTOR);
+    const calldataBytes = ethers.getBytes(calldata);
+    const zeroBytes = calldataBytes.filter(x => x === 0).length;
+    expect(RelayGasModel.intrinsicGas(calldata)).to.equal(21000 + 4 * zeroBytes + 16 * (calldataBytes.length - zeroBytes));
+  });
+
+  it("Should estimate gas from coefficients", async () => {
+    const model = new RelayGasModel(coefficients);
+    const message = newSigningPolicyMessage(10, 6, 15);
+    expect(model.estimate(message)).to.equal(
+      RelayGasModel.intrinsicGas(RelayGasModel.calldata(message)) + 30000 + 10 * 80 + 6 * 3500 + 20000 + 15 * 190
+    );
+  });
+
+  it("Should fit coefficients from samples", async () => {
+    const model = new RelayGasModel(coefficients);
+    const messages = [
+      merkleRootMessage(10, 1),
+      merkleRootMessage(10, 6),
+      merkleRootMessage(20, 11),
+      merkleRootMessage(20, 3),
+      newSigningPolicyMessage(10, 6, 5),
+      newSigningPolicyMessage(20, 11, 20),
+    ];
+    const samples: IRelayGasSample[] = messages.map(message => ({ message, gasUsed: model.estimate(message) }));
+    const fitted = RelayGasModel.fit(samples);
+    for (const [key, value] of Object.entries(coefficients)) {
+      expect(fitted.coefficients[key as keyof IRelayGasCoefficients]).to.be.closeTo(value, 1e-6);
+    }
+  });
+
+  it("Should not fit coefficients from too few different samples", async () => {
+    const model = new RelayGasModel(coefficients);
+    const samples = [merkleRootMessage(10, 1), merkleRootMessage(10, 6), merkleRootMessage(20, 11), merkleRootMessage(20, 3)].map(message => ({
+      message,
+      gasUsed: model.estimate(message),
+    }));
+    expect(() => RelayGasModel.fit(samples)).to.throw("Not enough different samples");
+    expect(() => RelayGasModel.fit([...samples, ...samples])).to.throw("Not enough different samples");
+  });
+
+  describe("Default coefficients", () => {
+    // the same setup as in relay-gas-calibration.ts
+    const firstRewardEpochStartVotingRoundId = 1000;
+    const rewardEpochDurationInVotingEpochs = 3360;
+    const randomNumberProtocolId = 15;
+    const startVotingRoundId = firstRewardEpochStartVotingRoundId + rewardEpochDurationInVotingEpochs;
+    // maximal relative error of the estimate compared to the gas estimated on the compiled Relay
+    const maxRelativeError = 0.001;
+
+    /**
+     * Signing policy for reward epoch 1, where exactly the first `signatures` voters are needed to exceed the threshold.
+     */
+    function signingPolicyRequiringSignatures(voters: number, signatures: number): ISigningPolicy {
+      const weight = Math.floor((2 ** 16 - 1 - (voters - signatures)) / signatures);
+      return {
+        rewardEpochId: 1,
+        startVotingRoundId,
+        threshold: signatures * weight - 1,
+        seed: ethers.hexlify(ethers.randomBytes(32)),
+        voters: fixture.accountAddresses.slice(0, voters).map(x => x.toLowerCase()),
+        weights: Array.from({ length: voters }, (_, i) => (i < signatures ? weight : 1)),
+      };
+    }
+
+    async function expectEstimateMatchesRelay(message: IRelayMessage) {
+      const relay = await Relay.new(
+        constants.ZERO_ADDRESS,
+        message.signingPolicy.rewardEpochId,
+        message.signingPolicy.startVotingRoundId,
+        SigningPolicy.hash(message.signingPolicy),
+        randomNumberProtocolId,
+        1636070400,
+        90,
+        firstRewardEpochStartVotingRoundId,
+        rewardEpochDurationInVotingEpochs,
+        12000,
+        3
+      );
+      const gas = Number(await web3.eth.estimateGas({ from: fixture.accountAddresses[0], to: relay.address, data: RelayGasModel.calldata(message) }));
+      const estimate = new RelayGasModel().estimate(message);
+      expect(Math.abs(estimate - gas) / gas).to.be.lessThan(maxRelativeError, `estimate ${estimate} vs. Relay ${gas}`);
+    }
+
+    for (const [voters, signatures] of [
+      [10, 6],
+      [100, 51],
+      [300, 1],
+      [300, 150],
+    ]) {
+      it(`Should estimate merkle root relay with ${voters} voters and ${signatures} signatures`, async () => {
+        const signingPolicy = signingPolicyRequiringSignatures(voters, signatures);
+        const protocolMessageMerkleRoot = randomProtocolMessage(startVotingRoundId, randomNumberProtocolId);
+        const messageHash = ProtocolMessageMerkleRoot.hash(protocolMessageMerkleRoot);
+        await expectEstimateMatchesRelay({
+          signingPolicy,
+          protocolMessageMerkleRoot,
+          signatures: await generateSignatures(fixture.accountPrivateKeys, messageHash, signatures),
+        });
+      });
+    }
+
+    for (const [voters, newVoters] of [
+      [50, 100],
+      [300, 300],
+    ]) {
+      it(`Should estimate new signing policy relay with ${voters} voters and ${newVoters} new voters`, async () => {
+        const signingPolicy = signingPolicyRequiringSignatures(voters, voters / 2);
+        const weight = Math.floor((2 ** 16 - 1) / newVoters);
+        const newSigningPolicy: ISigningPolicy = {
+          rewardEpochId: 2,
+          startVotingRoundId: startVotingRoundId + rewardEpochDurationInVotingEpochs,
+          threshold: Math.floor(newVoters * weight * 0.6),
+          seed: ethers.hexlify(ethers.randomBytes(32)),
+          voters: fixture.accountAddresses.slice(-newVoters).map(x => x.toLowerCase()),
+          weights: new Array<number>(newVoters).fill(weight),
+        };
+        await expectEstimateMatchesRelay({
+          signingPolicy,
+          newSigningPolicy,
+          signatures: await generateSignatures(fixture.accountPrivateKeys, SigningPolicy.hash(newSigningPolicy), voters / 2),
+        });
+      });
+    }
+  });
+});
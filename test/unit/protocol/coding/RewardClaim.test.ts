@@ -0,0 +1,65 @@
+import { contract, web3 } from "hardhat";
+import { ClaimType, IRewardClaim, RewardClaim } from "../../../../scripts/libs/protocol/RewardClaim";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture } from "./coding-helpers";
+
+contract(`RewardClaim; ${getTestFile(__filename)}`, async () => {
+  let fixture: ICodingTestFixture;
+  let rewardClaims: IRewardClaim[];
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    rewardClaims = [];
+    for (let i = 0; i < 11; i++) {
+      rewardClaims.push({
+        rewardEpochId: fixture.rewardEpochId,
+        beneficiary: fixture.accountAddresses[i % 5],
+        amount: BigInt(i + 1) * 10n ** 18n,
+        claimType: i % 2 === 0 ? ClaimType.WNAT : ClaimType.FEE,
+      });
+    }
+  });
+
+  it("Should encode and decode reward claims", async () => {
+    const { rewardEpochId, accountAddresses } = fixture;
+    const encoded = RewardClaim.encode(rewardClaims[0]);
+    expect(encoded).to.equal(
+      web3.eth.abi.encodeParameters(
+        ["uint24", "bytes20", "uint120", "uint8"],
+        [rewardEpochId, accountAddresses[0], (10n ** 18n).toString(), ClaimType.WNAT]
+      )
+    );
+    expect(RewardClaim.decode(encoded)).to.deep.equal({ ...rewardClaims[0], beneficiary: accountAddresses[0].toLowerCase() });
+  });
+
+  it("Should build reward claims merkle tree and verify proofs", async () => {
+    const tree = RewardClaim.merkleTree(rewardClaims);
+    expect(tree.hashCount).to.equal(rewardClaims.length);
+    for (let i = 0; i < 5; i++) {
+      const proofs = RewardClaim.proofsFor(rewardClaims, fixture.accountAddresses[i], undefined, tree);
+      expect(proofs.length).to.be.greaterThan(0);
+      for (const proof of proofs) {
+        expect(RewardClaim.verify(proof, tree.root!)).to.be.true;
+      }
+    }
+    const feeProofs = RewardClaim.proofsFor(rewardClaims, fixture.accountAddresses[1], ClaimType.FEE);
+    expect(feeProofs.every(x => x.body.claimType === ClaimType.FEE)).to.be.true;
+    expect(RewardClaim.merkleRoot([rewardClaims[0]])).to.equal(RewardClaim.hash(rewardClaims[0]));
+  });
+
+  it("Should not verify proof of tampered amount", async () => {
+    const tree = RewardClaim.merkleTree(rewardClaims);
+    for (const proof of RewardClaim.proofsFor(rewardClaims, fixture.accountAddresses[0], undefined, tree)) {
+      expect(RewardClaim.verify({ ...proof, body: { ...proof.body, amount: proof.body.amount + 1n } }, tree.root!)).to.be.false;
+    }
+  });
+
+  it("Should not build tree from claims of different reward epochs", async () => {
+    const otherEpochClaim = { ...rewardClaims[0], rewardEpochId: fixture.rewardEpochId + 1 };
+    expect(() => RewardClaim.merkleTree([...rewardClaims, otherEpochClaim])).to.throw("Reward claims for different reward epochs");
+  });
+
+  it("Should not encode claim with invalid beneficiary", async () => {
+    expect(() => RewardClaim.encode({ ...rewardClaims[0], beneficiary: "0x1234" })).to.throw("Invalid beneficiary format");
+  });
+});
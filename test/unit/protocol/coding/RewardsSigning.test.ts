@@ -0,0 +1,44 @@
+import { contract, ethers, web3 } from "hardhat";
+import { ECDSASignature } from "../../../../scripts/libs/protocol/ECDSASignature";
+import { ClaimType, IRewardClaim, RewardClaim } from "../../../../scripts/libs/protocol/RewardClaim";
+import { RewardsSigning } from "../../../../scripts/libs/protocol/RewardsSigning";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture } from "./coding-helpers";
+
+contract(`RewardsSigning; ${getTestFile(__filename)}`, async () => {
+  const rewardEpochId = 1;
+  const rewardManagerId = 5;
+  let fixture: ICodingTestFixture;
+  let signer: string;
+  let rewardClaims: IRewardClaim[];
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    signer = fixture.accountAddresses[0].toLowerCase();
+    rewardClaims = [
+      { rewardEpochId, beneficiary: ethers.hexlify(ethers.randomBytes(20)), amount: 100n, claimType: ClaimType.MIRROR },
+      { rewardEpochId, beneficiary: signer, amount: 200n, claimType: ClaimType.WNAT },
+      { rewardEpochId, beneficiary: signer, amount: 300n, claimType: ClaimType.DIRECT },
+    ];
+  });
+
+  it("Should sign reward claims", async () => {
+    const signingData = await RewardsSigning.signRewardClaims(rewardClaims, rewardManagerId, fixture.accountPrivateKeys[0]);
+    expect(signingData.rewardEpochId).to.equal(rewardEpochId);
+    expect(signingData.rewardsHash).to.equal(RewardClaim.merkleRoot(rewardClaims));
+    expect(signingData.noOfWeightBasedClaims).to.deep.equal([{ rewardManagerId, noOfWeightBasedClaims: 2 }]);
+    const noOfWeightBasedClaimsHash = web3.utils.keccak256(web3.eth.abi.encodeParameters(["tuple(uint256,uint256)[]"], [[[rewardManagerId, 2]]]));
+    const rewardsMessageHash = web3.utils.keccak256(
+      web3.eth.abi.encodeParameters(["uint24", "bytes32", "bytes32"], [rewardEpochId, noOfWeightBasedClaimsHash, signingData.rewardsHash])
+    );
+    expect(ECDSASignature.recoverSigner(rewardsMessageHash, signingData.signature)).to.equal(signer);
+  });
+
+  it("Should not calculate rewards hash of empty reward claims", async () => {
+    expect(() => RewardsSigning.rewardsHash([])).to.throw("No reward claims");
+  });
+
+  it("Should reject invalid rewards hash", async () => {
+    expect(() => RewardsSigning.messageHash(rewardEpochId, [], "0x1234")).to.throw("Invalid rewards hash format");
+  });
+});
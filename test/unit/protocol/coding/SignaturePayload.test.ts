@@ -0,0 +1,192 @@
+import { contract, ethers } from "hardhat";
+import { ByteUtils } from "../../../../scripts/libs/protocol/ByteUtils";
+import { ECDSASignature, IECDSASignature } from "../../../../scripts/libs/protocol/ECDSASignature";
+import { ECDSASignatureWithIndex } from "../../../../scripts/libs/protocol/ECDSASignatureWithIndex";
+import { PayloadMessage } from "../../../../scripts/libs/protocol/PayloadMessage";
+import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "../../../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
+import { RelayMessage } from "../../../../scripts/libs/protocol/RelayMessage";
+import {
+  ISignaturePayload,
+  ISignaturePayloadLayout,
+  SignaturePayload,
+  SignatureSelectionStrategy,
+} from "../../../../scripts/libs/protocol/SignaturePayload";
+import { ISigningPolicy } from "../../../../scripts/libs/protocol/SigningPolicy";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture, generateSignatures, randomProtocolMessage } from "./coding-helpers";
+
+contract(`SignaturePayload; ${getTestFile(__filename)}`, async () => {
+  let fixture: ICodingTestFixture;
+  let messageData: IProtocolMessageMerkleRoot;
+  let messageHash: string;
+  let signature: IECDSASignature;
+  let payloads: ISignaturePayload[];
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    messageData = randomProtocolMessage(fixture.votingRoundId);
+    messageHash = ProtocolMessageMerkleRoot.hash(messageData);
+    signature = await ECDSASignature.signMessageHash(messageHash, fixture.accountPrivateKeys[0]);
+    payloads = [
+      { type: SignaturePayload.TYPE_MESSAGE, message: messageData, signature, unsignedMessage: "0x1234" },
+      { type: SignaturePayload.TYPE_MESSAGE_HASH, messageHash, signature, unsignedMessage: "0x" },
+      { type: SignaturePayload.TYPE_COMPACT_SIGNATURE, message: messageData, signature, unsignedMessage: "0xab" },
+    ];
+  });
+
+  function submitSignaturesCalldata(encodedPayloads: string[]): string {
+    return (
+      ethers.id("submitSignatures()").slice(0, 10) +
+      PayloadMessage.concatenateHexStrings(
+        encodedPayloads.map(payload => PayloadMessage.encode({ protocolId: 100, votingRoundId: fixture.votingRoundId, payload }))
+      ).slice(2)
+    );
+  }
+
+  describe("Types", () => {
+    it("Should encode and decode registered signature payload types", async () => {
+      expect(SignaturePayload.registeredTypes()).to.deep.equal([
+        SignaturePayload.TYPE_MESSAGE,
+        SignaturePayload.TYPE_MESSAGE_HASH,
+        SignaturePayload.TYPE_COMPACT_SIGNATURE,
+      ]);
+      const lengths = [1 + 38 + 65 + 2, 1 + 32 + 65, 1 + 38 + 64 + 1];
+      for (let i = 0; i < payloads.length; i++) {
+        const encoded = SignaturePayload.encode(payloads[i]);
+        expect((encoded.length - 2) / 2).to.equal(lengths[i]);
+        const decoded = SignaturePayload.decode(encoded);
+        expect(decoded).to.deep.equal(payloads[i]);
+        expect(SignaturePayload.messageHash(decoded)).to.equal(messageHash);
+        expect(ECDSASignature.recoverSigner(messageHash, decoded.signature)).to.equal(fixture.accountAddresses[0].toLowerCase());
+      }
+    });
+
+    it("Should encode and decode compact signatures", async () => {
+      expect(ECDSASignature.decodeCompactBytes(ECDSASignature.encodeCompactBytes(signature))).to.deep.equal(signature);
+
+      // fixed v = 28 compact signature, decoded from a (Buffer backed) hex string which must stay intact
+      const compactHex =
+        "0x0ec801f8dc95be19725d5e2b464a2405df49699631fe4b36c3693f096fb03a89" +
+        "a38777575c43d977bbac9349c77e504b909fa21dd57170a6aa148f2fdf07ccf9";
+      const compactBytes = ByteUtils.hexToBytes(compactHex);
+      const compactSignature = ECDSASignature.decodeCompactBytes(compactBytes);
+      expect(compactSignature).to.deep.equal({
+        v: 28,
+        r: "0x0ec801f8dc95be19725d5e2b464a2405df49699631fe4b36c3693f096fb03a89",
+        s: "0x238777575c43d977bbac9349c77e504b909fa21dd57170a6aa148f2fdf07ccf9",
+      });
+      expect(ByteUtils.bytesToHex(compactBytes)).to.equal(compactHex);
+      expect(ECDSASignature.recoverSigner(ethers.id("compact-3"), compactSignature)).to.equal("0x19e7e376e7c213b7e7e7e46cc70a5dd086daff2a");
+      expect(ECDSASignature.encodeCompactBytes(compactSignature)).to.deep.equal(new Uint8Array(compactBytes));
+    });
+
+    it("Should not encode message type without message", async () => {
+      expect(() => SignaturePayload.encode({ ...payloads[1], type: SignaturePayload.TYPE_MESSAGE })).to.throw("no message");
+    });
+
+    it("Should reject unknown types", async () => {
+      const calldata = submitSignaturesCalldata([
+        SignaturePayload.encode(payloads[1]),
+        "0x07" + SignaturePayload.encode(payloads[0]).slice(4),
+      ]);
+      expect(() => SignaturePayload.decodeCalldata(calldata)).to.throw(
+        "SubmitSignaturesCalldata.payloads[1].type at byte 116: Unknown signature payload type 0x07"
+      );
+      expect(() => SignaturePayload.encode({ ...payloads[0], type: "0x07" })).to.throw("Unknown signature payload type");
+    });
+
+    it("Should register and unregister new types", async () => {
+      const calldata = submitSignaturesCalldata(["0x07" + SignaturePayload.encode(payloads[0]).slice(4)]);
+      SignaturePayload.registerType({
+        type: "0x07",
+        description: "message, signature (no unsigned message)",
+        encodeBytes: payload => SignaturePayload.encodeBytes({ ...payload, type: SignaturePayload.TYPE_MESSAGE, unsignedMessage: "0x" }).fill(7, 0, 1),
+        decodeBytes: encoded => ({ ...SignaturePayload.decodeBytes(new Uint8Array([0, ...encoded.subarray(1)])), type: "0x07" }),
+      });
+      try {
+        expect(SignaturePayload.decodeCalldata(calldata)[0].payload.type).to.equal("0x07");
+      } finally {
+        expect(SignaturePayload.unregisterType("0x07")).to.be.true;
+      }
+      expect(SignaturePayload.unregisterType("0x07")).to.be.false;
+      expect(() => SignaturePayload.decodeCalldata(calldata)).to.throw("Unknown signature payload type 0x07");
+    });
+
+    it("Should not register already registered or invalid types", async () => {
+      expect(() => SignaturePayload.registerType({ type: SignaturePayload.TYPE_MESSAGE } as ISignaturePayloadLayout)).to.throw("already registered");
+      expect(() => SignaturePayload.registerType({ type: "0x7" } as ISignaturePayloadLayout)).to.throw("Invalid signature payload type");
+    });
+  });
+
+  describe("Selection for relay", () => {
+    let policy: ISigningPolicy;
+    let selectionPayloads: ISignaturePayload[];
+
+    before(async () => {
+      policy = {
+        ...fixture.signingPolicyData,
+        voters: fixture.signingPolicyData.voters.slice(0, 5),
+        weights: [100, 400, 200, 250, 50],
+        threshold: 500,
+      };
+      const signatures = await generateSignatures(fixture.accountPrivateKeys, messageHash, 5);
+      // arrival order: 4, 2, 0, 3, 1 (and a duplicate of 2)
+      selectionPayloads = [4, 2, 0, 3, 1, 2].map((index, i) => ({
+        type: SignaturePayload.TYPE_MESSAGE,
+        message: messageData,
+        signature: { v: signatures[index].v, r: signatures[index].r, s: signatures[index].s },
+        unsignedMessage: "0x",
+        index,
+        timestamp: 1000 + i,
+      }));
+    });
+
+    const selectedIndices = (strategy?: SignatureSelectionStrategy, threshold = policy.threshold) =>
+      SignaturePayload.selectForRelay(selectionPayloads, policy, threshold, strategy).map(x => x.index);
+
+    it("Should select fewest signatures by default", async () => {
+      expect(selectedIndices()).to.deep.equal([1, 3]);
+      expect(selectedIndices(SignatureSelectionStrategy.FEWEST_SIGNATURES)).to.deep.equal([1, 3]);
+    });
+
+    it("Should select signatures by arrival", async () => {
+      expect(selectedIndices(SignatureSelectionStrategy.EARLIEST_ARRIVAL)).to.deep.equal([0, 2, 3, 4]);
+    });
+
+    it("Should select signatures with lowest indices", async () => {
+      expect(selectedIndices(SignatureSelectionStrategy.LOWEST_INDEX)).to.deep.equal([0, 1, 2]);
+    });
+
+    it("Should select weight strictly above the threshold", async () => {
+      expect(selectedIndices(undefined, 650)).to.deep.equal([1, 2, 3]);
+    });
+
+    it("Should fail if the threshold is not reached", async () => {
+      expect(() => selectedIndices(undefined, 1000)).to.throw("Threshold not reached");
+    });
+
+    it("Should fail for payloads without signing policy index", async () => {
+      const withoutIndex = { ...selectionPayloads[0], index: undefined };
+      expect(() => SignaturePayload.selectForRelay([withoutIndex], policy, policy.threshold)).to.throw("valid signing policy index: undefined");
+      const outOfRange = { ...selectionPayloads[0], index: 5 };
+      expect(() => SignaturePayload.selectForRelay([outOfRange], policy, policy.threshold)).to.throw("valid signing policy index: 5");
+    });
+
+    it("Should fail for unknown strategy", async () => {
+      expect(() => selectedIndices("unknown" as SignatureSelectionStrategy)).to.throw("Unknown signature selection strategy");
+    });
+
+    it("Should encode selected signatures for relay in index order", async () => {
+      const selected = SignaturePayload.selectForRelay(selectionPayloads, policy, policy.threshold);
+      const relayMessage = RelayMessage.decode(
+        RelayMessage.encode({
+          signingPolicy: policy,
+          signatures: selected.map(x => ({ ...x.signature, index: x.index! })),
+          protocolMessageMerkleRoot: messageData,
+        })
+      );
+      expect(relayMessage.signatures.map(x => x.index)).to.deep.equal([1, 3]);
+      expect(SignaturePayload.encodeForRelay(selected)).to.equal(ECDSASignatureWithIndex.encodeSignatureList(relayMessage.signatures));
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { contract } from "hardhat";
+import { ECDSASignature } from "../../../../scripts/libs/protocol/ECDSASignature";
+import { ProtocolMessageMerkleRoot } from "../../../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
+import { SignatureVerificationContext } from "../../../../scripts/libs/protocol/SignatureVerificationContext";
+import { ISignaturePayload, SignaturePayload } from "../../../../scripts/libs/protocol/SignaturePayload";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture, randomProtocolMessage } from "./coding-helpers";
+
+contract(`SignatureVerificationContext; ${getTestFile(__filename)}`, async () => {
+  let fixture: ICodingTestFixture;
+  let messageHash: string;
+  let signaturePayloads: ISignaturePayload[];
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    const messageData = randomProtocolMessage(fixture.votingRoundId);
+    messageHash = ProtocolMessageMerkleRoot.hash(messageData);
+    signaturePayloads = [];
+    // signers 0 and 1 are in the signing policy, signer N is not
+    for (const i of [0, 1, fixture.N]) {
+      signaturePayloads.push({
+        type: SignaturePayload.TYPE_MESSAGE,
+        message: messageData,
+        signature: await ECDSASignature.signMessageHash(messageHash, fixture.accountPrivateKeys[i]),
+        unsignedMessage: "0x",
+      });
+    }
+  });
+
+  it("Should verify signature payloads in batch", async () => {
+    const { N, singleWeight, accountAddresses } = fixture;
+    const context = new SignatureVerificationContext();
+    const verified = SignaturePayload.verifyBatch(signaturePayloads, fixture.signingPolicyData, context);
+    expect(verified.map(x => x.signer)).to.deep.equal([0, 1, N].map(i => accountAddresses[i].toLowerCase()));
+    expect(verified.map(x => x.index)).to.deep.equal([0, 1, undefined]);
+    expect(verified.map(x => x.weight)).to.deep.equal([singleWeight, singleWeight, undefined]);
+    expect(verified.every(x => x.messageHash === messageHash)).to.be.true;
+    expect([context.hits, context.misses]).to.deep.equal([0, 3]);
+  });
+
+  it("Should reuse recovered signers", async () => {
+    const context = new SignatureVerificationContext();
+    SignaturePayload.verifyBatch(signaturePayloads, fixture.signingPolicyData, context);
+    const signingPolicyIndex = new Map([[fixture.accountAddresses[1].toLowerCase(), 1]]);
+    expect(SignaturePayload.augment(signaturePayloads[1], signingPolicyIndex, context).index).to.equal(1);
+    expect(SignaturePayload.verifySignatures(messageHash, [signaturePayloads[0].signature], fixture.signingPolicyData, context)).to.be.false;
+    expect([context.hits, context.misses]).to.deep.equal([2, 3]);
+  });
+
+  it("Should evict least recently used signers", async () => {
+    const context = new SignatureVerificationContext(2);
+    context.recoverSigners(signaturePayloads.map(x => ({ messageHash, signature: x.signature })));
+    expect(context.size).to.equal(2);
+    context.recoverSigner(messageHash, signaturePayloads[0].signature);
+    expect([context.hits, context.misses]).to.deep.equal([0, 4]);
+  });
+
+  it("Should reject invalid max entries", async () => {
+    expect(() => new SignatureVerificationContext(0)).to.throw("Invalid max entries: 0");
+  });
+});
@@ -0,0 +1,84 @@
+import { expectRevert } from "@openzeppelin/test-helpers";
+import { contract, web3 } from "hardhat";
+import { ECDSASignature, IECDSASignature } from "../../../../scripts/libs/protocol/ECDSASignature";
+import { ECDSASignatureWithIndex } from "../../../../scripts/libs/protocol/ECDSASignatureWithIndex";
+import { ISigner, KeystoreSigner, PrivateKeySigner, RemoteSigner, RemoteSignerServer } from "../../../../scripts/libs/protocol/Signer";
+import { VoterRegistration } from "../../../../scripts/libs/protocol/VoterRegistration";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture } from "./coding-helpers";
+
+contract(`Signer; ${getTestFile(__filename)}`, async () => {
+  let fixture: ICodingTestFixture;
+  let messageHash: string;
+  let expected: IECDSASignature;
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    messageHash = web3.utils.keccak256("0x1234");
+    expected = await ECDSASignature.signMessageHash(messageHash, fixture.accountPrivateKeys[0]);
+  });
+
+  async function withServer(signer: ISigner, test: (url: string) => Promise<void>) {
+    const server = new RemoteSignerServer(signer);
+    const url = await server.start();
+    try {
+      await test(url);
+    } finally {
+      await server.stop();
+    }
+  }
+
+  it("Should sign with private key", async () => {
+    const signer = new PrivateKeySigner(fixture.accountPrivateKeys[0]);
+    expect(signer.address).to.equal(fixture.accountAddresses[0]);
+    expect(await signer.signHash(messageHash)).to.deep.equal(expected);
+  });
+
+  it("Should not sign invalid message hash", async () => {
+    const signer = new PrivateKeySigner(fixture.accountPrivateKeys[0]);
+    await expectRevert(signer.signHash("0x1234"), "Invalid message hash format");
+  });
+
+  it("Should sign with keystore", async () => {
+    const keystore = web3.eth.accounts.encrypt(fixture.accountPrivateKeys[0], "password");
+    const signer = new KeystoreSigner(JSON.stringify(keystore), "password");
+    expect(signer.address).to.equal(fixture.accountAddresses[0]);
+    expect(await ECDSASignature.signMessageHash(messageHash, signer)).to.deep.equal(expected);
+  });
+
+  it("Should not decrypt keystore with wrong password", async () => {
+    const keystore = web3.eth.accounts.encrypt(fixture.accountPrivateKeys[0], "password");
+    expect(() => new KeystoreSigner(keystore, "wrong password")).to.throw();
+  });
+
+  it("Should sign with remote signer", async () => {
+    await withServer(new PrivateKeySigner(fixture.accountPrivateKeys[0]), async url => {
+      const remoteSigner = await RemoteSigner.connect(url, fixture.accountAddresses[0]);
+      expect(await ECDSASignatureWithIndex.signMessageHash(messageHash, remoteSigner, 3)).to.deep.equal({ ...expected, index: 3 });
+      expect(await VoterRegistration.sign(fixture.rewardEpochId, fixture.accountAddresses[5], remoteSigner)).to.deep.equal(
+        await VoterRegistration.sign(fixture.rewardEpochId, fixture.accountAddresses[5], fixture.accountPrivateKeys[0])
+      );
+    });
+  });
+
+  it("Should not connect to remote signer of unexpected address", async () => {
+    await withServer(new PrivateKeySigner(fixture.accountPrivateKeys[0]), async url => {
+      await expectRevert(RemoteSigner.connect(url, fixture.accountAddresses[1]), "does not match expected");
+    });
+  });
+
+  it("Should reject malformed signature from remote signer", async () => {
+    const malformedSigner = { address: fixture.accountAddresses[0], signHash: async () => ({ ...expected, v: "27" }) as unknown as IECDSASignature };
+    await withServer(malformedSigner, async url => {
+      const remoteSigner = await RemoteSigner.connect(url);
+      await expectRevert(remoteSigner.signHash(messageHash), "Invalid signature from remote signer");
+    });
+  });
+
+  it("Should reject malformed address from remote signer", async () => {
+    const invalidAddressSigner = { address: "0x1234", signHash: async () => expected };
+    await withServer(invalidAddressSigner, async url => {
+      await expectRevert(RemoteSigner.connect(url), "Invalid address from remote signer");
+    });
+  });
+});
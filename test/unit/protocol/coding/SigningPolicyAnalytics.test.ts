@@ -0,0 +1,65 @@
+import { contract, ethers } from "hardhat";
+import { ISigningPolicy } from "../../../../scripts/libs/protocol/SigningPolicy";
+import { SigningPolicyAnalytics } from "../../../../scripts/libs/protocol/SigningPolicyAnalytics";
+import { getTestFile } from "../../../utils/constants";
+import { codingTestFixture } from "./coding-helpers";
+
+contract(`SigningPolicyAnalytics; ${getTestFile(__filename)}`, async () => {
+  let voters: string[];
+  let previous: ISigningPolicy;
+  let current: ISigningPolicy;
+
+  before(async () => {
+    const fixture = await codingTestFixture();
+    voters = fixture.accountAddresses.slice(0, 4).map(x => x.toLowerCase());
+    previous = {
+      ...fixture.signingPolicyData,
+      rewardEpochId: 10,
+      threshold: 500,
+      voters: [voters[0], voters[1], voters[2]],
+      weights: [600, 300, 100],
+    };
+    current = {
+      ...previous,
+      rewardEpochId: 11,
+      startVotingRoundId: previous.startVotingRoundId + 100,
+      seed: ethers.hexlify(ethers.randomBytes(32)),
+      voters: [voters[1], voters[0], voters[3]],
+      weights: [300, 500, 200],
+    };
+  });
+
+  it("Should compare signing policies", async () => {
+    const diff = SigningPolicyAnalytics.diff(previous, current);
+    expect(diff.addedVoters).to.deep.equal([{ voter: voters[3], index: 2, weight: 200 }]);
+    expect(diff.removedVoters).to.deep.equal([{ voter: voters[2], index: 2, weight: 100 }]);
+    expect(diff.weightChanges).to.deep.equal([{ voter: voters[0], previousWeight: 600, weight: 500 }]);
+    expect(diff.indexChanges).to.deep.equal([
+      { voter: voters[1], previousIndex: 1, index: 0 },
+      { voter: voters[0], previousIndex: 0, index: 1 },
+    ]);
+    expect(diff.seedChanged).to.be.true;
+  });
+
+  it("Should calculate signing policy metrics", async () => {
+    // weight must be strictly above the threshold
+    const metrics = SigningPolicyAnalytics.metrics(current);
+    expect(metrics.totalWeight).to.equal(1000);
+    expect(metrics.thresholdPPM).to.equal(500000);
+    expect(metrics.maxWeightPPM).to.equal(500000);
+    expect(metrics.minVotersToReachThreshold).to.equal(2);
+    expect(metrics.herfindahlIndexPPM).to.equal(380000);
+    expect(SigningPolicyAnalytics.metrics(previous).minVotersToReachThreshold).to.equal(1);
+  });
+
+  it("Should analyze signing policies in reward epoch order", async () => {
+    const analysis = SigningPolicyAnalytics.analyze([current, previous, { ...previous, rewardEpochId: 13 }]);
+    expect(analysis.metrics.map(x => x.rewardEpochId)).to.deep.equal([10, 11, 13]);
+    expect(analysis.diffs).to.deep.equal([SigningPolicyAnalytics.diff(previous, current)]);
+  });
+
+  it("Should reject signing policy with duplicate voter", async () => {
+    const duplicate = { ...current, voters: [voters[1], voters[0], voters[1].toUpperCase().replace("0X", "0x")] };
+    expect(() => SigningPolicyAnalytics.diff(previous, duplicate)).to.throw(`Duplicate voter ${voters[1]} in signing policy for reward epoch 11`);
+  });
+});
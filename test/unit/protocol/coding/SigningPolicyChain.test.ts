@@ -0,0 +1,139 @@
+import { contract, ethers } from "hardhat";
+import { ProtocolMessageMerkleRoot } from "../../../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
+import { ISigningPolicy, SigningPolicy } from "../../../../scripts/libs/protocol/SigningPolicy";
+import { SigningPolicyChain } from "../../../../scripts/libs/protocol/SigningPolicyChain";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture, generateSignatures, randomProtocolMessage, relayCalldata } from "./coding-helpers";
+
+contract(`SigningPolicyChain; ${getTestFile(__filename)}`, async () => {
+  let fixture: ICodingTestFixture;
+  let policies: ISigningPolicy[];
+  let calldata: string[];
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    policies = [fixture.signingPolicyData];
+    for (let i = 1; i <= 3; i++) {
+      policies.push(nextSigningPolicy(i));
+    }
+    calldata = [];
+    for (let i = 1; i < policies.length; i++) {
+      calldata.push(await newSigningPolicyCalldata(policies[i - 1], policies[i]));
+    }
+  });
+
+  function nextSigningPolicy(offset: number): ISigningPolicy {
+    return { ...fixture.signingPolicyData, rewardEpochId: fixture.rewardEpochId + offset, seed: ethers.hexlify(ethers.randomBytes(32)) };
+  }
+
+  async function newSigningPolicyCalldata(
+    signingPolicy: ISigningPolicy,
+    newSigningPolicy: ISigningPolicy,
+    signatureCount = fixture.N / 2 + 1,
+    privateKeys = fixture.accountPrivateKeys
+  ): Promise<string> {
+    const signatures = await generateSignatures(privateKeys, SigningPolicy.hash(newSigningPolicy), signatureCount);
+    return relayCalldata({ signingPolicy, signatures, newSigningPolicy });
+  }
+
+  it("Should extend signing policy chain from relay calldata", async () => {
+    const messageData = randomProtocolMessage(fixture.votingRoundId);
+    const merkleRootCalldata = relayCalldata({
+      signingPolicy: fixture.signingPolicyData,
+      signatures: await generateSignatures(fixture.accountPrivateKeys, ProtocolMessageMerkleRoot.hash(messageData), fixture.N / 2 + 1),
+      protocolMessageMerkleRoot: messageData,
+    });
+    const chain = new SigningPolicyChain(fixture.signingPolicyData);
+    // merkle root relays and repeated signing policy relays do not extend the chain
+    expect(chain.processRelayCalldataList([calldata[0], merkleRootCalldata, calldata[0], calldata[1], calldata[2]])).to.equal(3);
+    expect(chain.lastRewardEpochId).to.equal(fixture.rewardEpochId + 3);
+    expect(chain.verifiedHashes()).to.deep.equal(policies.map(x => ({ rewardEpochId: x.rewardEpochId, signingPolicyHash: SigningPolicy.hash(x) })));
+  });
+
+  it("Should reject new signing policy not following the last verified one", async () => {
+    const chain = new SigningPolicyChain(fixture.signingPolicyData);
+    expect(() => chain.processRelayCalldata(calldata[1])).to.throw("does not follow the last verified reward epoch");
+    expect(chain.lastRewardEpochId).to.equal(fixture.rewardEpochId);
+  });
+
+  it("Should reject calldata with wrong selector", async () => {
+    const chain = new SigningPolicyChain(fixture.signingPolicyData);
+    expect(() => chain.processRelayCalldata(calldata[0].slice(10))).to.throw("wrong selector");
+  });
+
+  it("Should reject new signing policy signed by previous signing policy that does not match the verified one", async () => {
+    const chain = new SigningPolicyChain(fixture.signingPolicyData);
+    const otherPolicy = { ...fixture.signingPolicyData, seed: ethers.hexlify(ethers.randomBytes(32)) };
+    expect(() => chain.processRelayCalldata(relayCalldata({ signingPolicy: otherPolicy, signatures: [], newSigningPolicy: policies[1] }))).to.throw(
+      "does not match the verified one"
+    );
+  });
+
+  it("Should reject new signing policy if threshold is not met", async () => {
+    const chain = new SigningPolicyChain(fixture.signingPolicyData);
+    const weakCalldata = await newSigningPolicyCalldata(fixture.signingPolicyData, policies[1], fixture.N / 2);
+    expect(() => chain.processRelayCalldata(weakCalldata)).to.throw("Threshold not met");
+    expect(chain.lastRewardEpochId).to.equal(fixture.rewardEpochId);
+  });
+
+  it("Should reject signatures of signers not matching the previous signing policy", async () => {
+    const chain = new SigningPolicyChain(fixture.signingPolicyData);
+    // signatures are shifted by one: signer i + 1 signs with index i
+    const wrongCalldata = await newSigningPolicyCalldata(fixture.signingPolicyData, policies[1], fixture.N / 2 + 1, fixture.accountPrivateKeys.slice(1));
+    expect(() => chain.processRelayCalldata(wrongCalldata)).to.throw("Invalid signature");
+    expect(chain.lastRewardEpochId).to.equal(fixture.rewardEpochId);
+  });
+
+  describe("New signing policy checks of Relay.sol", () => {
+    function newSigningPolicy(voters: number, weight: number, threshold: number): ISigningPolicy {
+      return {
+        ...nextSigningPolicy(1),
+        voters: fixture.accountAddresses.slice(0, voters).map(x => x.toLowerCase()),
+        weights: new Array(voters).fill(weight),
+        threshold,
+      };
+    }
+
+    async function expectRejected(signingPolicy: ISigningPolicy, message: string) {
+      const chain = new SigningPolicyChain(fixture.signingPolicyData);
+      const calldata = await newSigningPolicyCalldata(fixture.signingPolicyData, signingPolicy);
+      expect(() => chain.processRelayCalldata(calldata)).to.throw(message);
+      expect(chain.lastRewardEpochId).to.equal(fixture.rewardEpochId);
+    }
+
+    it("Should reject new signing policy without voters", async () => {
+      await expectRejected(newSigningPolicy(0, 0, 0), "must be non-trivial");
+    });
+
+    it("Should reject new signing policy with too many voters", async () => {
+      await expectRejected(newSigningPolicy(301, 200, 30100), "too many voters");
+    });
+
+    it("Should reject new signing policy with too big total weight", async () => {
+      // the signing policy codec already rejects it when decoding the calldata
+      await expectRejected(newSigningPolicy(2, 40000, 40000), "Total weight exceeds 16-bit value");
+    });
+
+    it("Should reject new signing policy with too small threshold", async () => {
+      await expectRejected(newSigningPolicy(10, 1000, 4999), "too small threshold");
+    });
+
+    it("Should reject new signing policy with too big threshold", async () => {
+      await expectRejected(newSigningPolicy(10, 1000, 6601), "too big threshold");
+    });
+
+    it("Should accept new signing policy with threshold at the limits", async () => {
+      for (const threshold of [5000, 6600]) {
+        const chain = new SigningPolicyChain(fixture.signingPolicyData);
+        expect(chain.processRelayCalldata(await newSigningPolicyCalldata(fixture.signingPolicyData, newSigningPolicy(10, 1000, threshold)))).to.be.true;
+      }
+    });
+  });
+
+  it("Should reject conflicting signing policy for already verified reward epoch", async () => {
+    const chain = new SigningPolicyChain(fixture.signingPolicyData);
+    expect(chain.processRelayCalldata(calldata[0])).to.be.true;
+    const conflictingCalldata = await newSigningPolicyCalldata(fixture.signingPolicyData, nextSigningPolicy(1));
+    expect(() => chain.processRelayCalldata(conflictingCalldata)).to.throw(`Conflicting signing policy for reward epoch ${fixture.rewardEpochId + 1}`);
+  });
+});
@@ -0,0 +1,103 @@
+import { contract } from "hardhat";
+import { IVoterStakeData, SigningPolicyWeights } from "../../../../scripts/libs/protocol/SigningPolicyWeights";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture } from "./coding-helpers";
+
+contract(`SigningPolicyWeights; ${getTestFile(__filename)}`, async () => {
+  const e18 = 10n ** 18n;
+  const totalWNatVotePower = 1000n * e18;
+  const parameters = { wNatCapPPM: 25000, signingPolicyThresholdPPM: 500000, maxVotersPerRewardEpoch: 3 };
+  let fixture: ICodingTestFixture;
+
+  before(async () => {
+    fixture = await codingTestFixture();
+  });
+
+  function voterData(i: number, wNatVotePower: bigint, nodeWeights: bigint[]): IVoterStakeData {
+    return {
+      voter: fixture.accountAddresses[i],
+      signingPolicyAddress: fixture.accountAddresses[10 + i],
+      wNatVotePower,
+      nodes: nodeWeights.map((weight, j) => ({ nodeId: "0x" + (10 * i + j).toString(16).padStart(40, "0"), weight })),
+    };
+  }
+
+  function voters(indices: number[]): string[] {
+    return indices.map(i => fixture.accountAddresses[i].toLowerCase());
+  }
+
+  it("Should calculate integer square root", async () => {
+    for (const value of [0n, 1n, 15n, 16n, 10n ** 18n, 2n ** 255n]) {
+      const root = SigningPolicyWeights.sqrt(value);
+      expect(root * root <= value && (root + 1n) * (root + 1n) > value).to.be.true;
+    }
+  });
+
+  it("Should not calculate square root of negative value", async () => {
+    expect(() => SigningPolicyWeights.sqrt(-1n)).to.throw("Negative value: -1");
+  });
+
+  it("Should cap WNat weight", async () => {
+    const capped = SigningPolicyWeights.registrationWeight(voterData(1, 100n * e18, []), totalWNatVotePower, parameters.wNatCapPPM);
+    expect(capped.wNatWeight).to.equal(100n * e18);
+    expect(capped.wNatCappedWeight).to.equal(25n * e18);
+    const sqrtWeight = SigningPolicyWeights.sqrt(25n * e18);
+    expect(capped.registrationWeight).to.equal(sqrtWeight * SigningPolicyWeights.sqrt(sqrtWeight));
+  });
+
+  it("Should drop node weights without P-chain stake mirror", async () => {
+    // delegation fee does not affect the weight
+    const withNodes = { ...voterData(0, 0n, [5n * e18, e18]), delegationFeeBIPS: 2000 };
+    const withoutMirror = SigningPolicyWeights.registrationWeight(withNodes, totalWNatVotePower, parameters.wNatCapPPM, false);
+    expect(withoutMirror.nodeWeights).to.deep.equal([0n, 0n]);
+    expect(withoutMirror.registrationWeight).to.equal(0n);
+    expect(withoutMirror.delegationFeeBIPS).to.equal(2000);
+    const withMirror = SigningPolicyWeights.registrationWeight(withNodes, totalWNatVotePower, parameters.wNatCapPPM);
+    expect(withMirror.nodeWeights).to.deep.equal([5n * e18, e18]);
+    const prediction = SigningPolicyWeights.predict([withNodes, voterData(1, e18, [])], totalWNatVotePower, {
+      ...parameters,
+      pChainStakeEnabled: false,
+    });
+    expect(prediction.rejectedVoters).to.deep.equal(voters([0]));
+  });
+
+  it("Should predict signing policy weights", async () => {
+    const prediction = SigningPolicyWeights.predict(
+      [voterData(0, e18, [5n * e18]), voterData(1, 100n * e18, []), voterData(2, 0n, []), voterData(3, 2n * e18, [e18]), voterData(4, e18 / 10n, [])],
+      totalWNatVotePower,
+      parameters
+    );
+    // voter 2 has zero weight, voter 4 has the lowest weight when max voters are registered
+    expect(prediction.voters).to.deep.equal(voters([0, 1, 3]));
+    expect(prediction.rejectedVoters).to.deep.equal(voters([2, 4]));
+    expect(prediction.normalisedWeightsSum).to.equal(prediction.normalisedWeights.reduce((a, b) => a + b, 0));
+    expect(prediction.normalisedWeightsSum).to.be.lte(2 ** 16 - 1);
+    expect(prediction.threshold).to.equal(Math.ceil(prediction.normalisedWeightsSum / 2));
+  });
+
+  it("Should report weight changes against current signing policy", async () => {
+    const prediction = SigningPolicyWeights.predict([voterData(0, e18, [5n * e18]), voterData(1, 100n * e18, [])], totalWNatVotePower, parameters);
+    const currentPolicy = {
+      ...fixture.signingPolicyData,
+      voters: prediction.signingPolicyAddresses,
+      weights: prediction.normalisedWeights.map((x, i) => (i === 0 ? x + 1 : x)),
+    };
+    expect(SigningPolicyWeights.weightChanges(currentPolicy, prediction)).to.deep.equal([
+      {
+        signingPolicyAddress: prediction.signingPolicyAddresses[0],
+        previousWeight: prediction.normalisedWeights[0] + 1,
+        weight: prediction.normalisedWeights[0],
+      },
+    ]);
+  });
+
+  it("Should reject duplicate voters", async () => {
+    expect(() => SigningPolicyWeights.predict([voterData(0, e18, []), voterData(0, 2n * e18, [])], totalWNatVotePower, parameters)).to.throw(
+      "already registered"
+    );
+  });
+
+  it("Should fail if no voter is registered", async () => {
+    expect(() => SigningPolicyWeights.predict([voterData(0, 0n, [])], totalWNatVotePower, parameters)).to.throw("No voters registered");
+  });
+});
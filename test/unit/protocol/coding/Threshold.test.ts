@@ -0,0 +1,61 @@
+import { contract } from "hardhat";
+import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "../../../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
+import { RelayMessage } from "../../../../scripts/libs/protocol/RelayMessage";
+import { SignaturePayload } from "../../../../scripts/libs/protocol/SignaturePayload";
+import { Threshold } from "../../../../scripts/libs/protocol/Threshold";
+import { IECDSASignatureWithIndex } from "../../../../scripts/libs/protocol/ECDSASignatureWithIndex";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture, generateSignatures, randomProtocolMessage } from "./coding-helpers";
+
+contract(`Threshold; ${getTestFile(__filename)}`, async () => {
+  let fixture: ICodingTestFixture;
+  let messageData: IProtocolMessageMerkleRoot;
+  let messageHash: string;
+  let signatures: IECDSASignatureWithIndex[];
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    messageData = randomProtocolMessage(fixture.votingRoundId);
+    messageHash = ProtocolMessageMerkleRoot.hash(messageData);
+    signatures = await generateSignatures(fixture.accountPrivateKeys, messageHash, fixture.N / 2 + 1);
+  });
+
+  it("Should pass only weight strictly above the threshold", async () => {
+    const { N, singleWeight, signingPolicyData } = fixture;
+    // N / 2 signatures have weight equal to the threshold, which does not pass
+    expect((N / 2) * singleWeight).to.equal(signingPolicyData.threshold);
+    expect(Threshold.passes(signingPolicyData.threshold, signingPolicyData.threshold)).to.be.false;
+    expect(Threshold.passes(signingPolicyData.threshold + 1, signingPolicyData.threshold)).to.be.true;
+    expect(SignaturePayload.verifySignatures(messageHash, signatures.slice(0, N / 2), signingPolicyData)).to.be.false;
+    expect(SignaturePayload.verifySignatures(messageHash, signatures, signingPolicyData)).to.be.true;
+  });
+
+  it("Should verify threshold when encoding relay message", async () => {
+    const { N, signingPolicyData } = fixture;
+    RelayMessage.encode({ signingPolicy: signingPolicyData, signatures, protocolMessageMerkleRoot: messageData }, true);
+    expect(() =>
+      RelayMessage.encode({ signingPolicy: signingPolicyData, signatures: signatures.slice(0, N / 2), protocolMessageMerkleRoot: messageData }, true)
+    ).to.throw("threshold not met");
+  });
+
+  it("Should apply increased threshold only for later reward epochs", async () => {
+    const { rewardEpochId, signingPolicyData } = fixture;
+    // increased threshold applies only for later reward epochs, while the signing policy is the last initialized one
+    expect(Threshold.increased(25000, 12000)).to.equal(30000);
+    expect(Threshold.forMessage(signingPolicyData, rewardEpochId, rewardEpochId, 12000)).to.equal(25000);
+    expect(Threshold.forMessage(signingPolicyData, rewardEpochId + 1, rewardEpochId, 12000)).to.equal(30000);
+    expect(Threshold.forMessage(signingPolicyData, rewardEpochId + 1, rewardEpochId + 1, 12000)).to.equal(25000);
+  });
+
+  it("Should read threshold increase from chain parameters", async () => {
+    expect(Threshold.increaseBIPSFromChainParameters({ relayThresholdIncreaseBIPS: 12000 })).to.equal(12000);
+    expect(() => Threshold.increaseBIPSFromChainParameters({ relayThresholdIncreaseBIPS: 9999 })).to.throw("Invalid threshold increase BIPS");
+  });
+
+  it("Should check threshold consistency", async () => {
+    expect(Threshold.checkConsistency(25000, 50000)).to.be.undefined;
+    expect(Threshold.checkConsistency(24999, 50000)).to.equal("too small threshold");
+    expect(Threshold.checkConsistency(33001, 50000)).to.equal("too big threshold");
+    expect(Threshold.checkConsistency(40000, 70000)).to.equal("total weight too big");
+  });
+});
@@ -0,0 +1,42 @@
+import { contract, ethers, web3 } from "hardhat";
+import { ECDSASignature } from "../../../../scripts/libs/protocol/ECDSASignature";
+import { UptimeVote } from "../../../../scripts/libs/protocol/UptimeVote";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture } from "./coding-helpers";
+
+contract(`UptimeVote; ${getTestFile(__filename)}`, async () => {
+  const rewardEpochId = 1;
+  let fixture: ICodingTestFixture;
+  let signer: string;
+  let nodeIds: string[];
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    signer = fixture.accountAddresses[0].toLowerCase();
+    nodeIds = [ethers.hexlify(ethers.randomBytes(20)), ethers.hexlify(ethers.randomBytes(20))];
+  });
+
+  it("Should sign submit uptime vote message", async () => {
+    const submitUptimeVoteHash = web3.utils.keccak256(web3.eth.abi.encodeParameters(["uint24", "bytes20[]"], [rewardEpochId, nodeIds]));
+    expect(UptimeVote.submitUptimeVoteHash(rewardEpochId, nodeIds)).to.equal(submitUptimeVoteHash);
+    const signature = await UptimeVote.signSubmitUptimeVote(rewardEpochId, nodeIds, fixture.accountPrivateKeys[0]);
+    expect(ECDSASignature.recoverSigner(submitUptimeVoteHash, signature)).to.equal(signer);
+  });
+
+  it("Should sign uptime vote hash independent of node id order", async () => {
+    const uptimeVoteHash = UptimeVote.uptimeVoteHash(nodeIds);
+    expect(UptimeVote.uptimeVoteHash([...nodeIds].reverse())).to.equal(uptimeVoteHash);
+    const signUptimeVoteHash = web3.utils.keccak256(web3.eth.abi.encodeParameters(["uint24", "bytes32"], [rewardEpochId, uptimeVoteHash]));
+    const signature = await UptimeVote.signUptimeVote(rewardEpochId, uptimeVoteHash, fixture.accountPrivateKeys[0]);
+    expect(ECDSASignature.recoverSigner(signUptimeVoteHash, signature)).to.equal(signer);
+  });
+
+  it("Should reject invalid node ids", async () => {
+    expect(() => UptimeVote.submitUptimeVoteHash(rewardEpochId, [...nodeIds, "0x1234"])).to.throw("Invalid node id format: 0x1234");
+    expect(() => UptimeVote.uptimeVoteHash(["NodeID-1234"])).to.throw("Invalid node id format");
+  });
+
+  it("Should reject reward epoch id out of range", async () => {
+    expect(() => UptimeVote.submitUptimeVoteHash(2 ** 24, nodeIds)).to.throw("Reward epoch id out of range");
+  });
+});
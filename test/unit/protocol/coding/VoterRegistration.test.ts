@@ -0,0 +1,38 @@
+import { contract, web3 } from "hardhat";
+import { VoterRegistration } from "../../../../scripts/libs/protocol/VoterRegistration";
+import { getTestFile } from "../../../utils/constants";
+import { ICodingTestFixture, codingTestFixture } from "./coding-helpers";
+
+contract(`VoterRegistration; ${getTestFile(__filename)}`, async () => {
+  const rewardEpochId = 2;
+  let fixture: ICodingTestFixture;
+  let voter: string;
+  let signingPolicyAddress: string;
+
+  before(async () => {
+    fixture = await codingTestFixture();
+    voter = fixture.accountAddresses[1];
+    signingPolicyAddress = fixture.accountAddresses[0];
+  });
+
+  it("Should calculate registration message hash", async () => {
+    const hash = web3.utils.keccak256(web3.eth.abi.encodeParameters(["uint24", "address"], [rewardEpochId, voter]));
+    expect(VoterRegistration.messageHash(rewardEpochId, voter)).to.equal(hash);
+  });
+
+  it("Should sign and verify voter registration", async () => {
+    const signature = await VoterRegistration.sign(rewardEpochId, voter, fixture.accountPrivateKeys[0]);
+    const voterAddresses = { submitAddress: voter, submitSignaturesAddress: voter, signingPolicyAddress };
+    expect(VoterRegistration.verifySignature(rewardEpochId, voter, signature, voterAddresses)).to.be.true;
+    expect(VoterRegistration.verifySignature(rewardEpochId + 1, voter, signature, voterAddresses)).to.be.false;
+    expect(VoterRegistration.verifySignature(rewardEpochId, voter, signature, { ...voterAddresses, signingPolicyAddress: voter })).to.be.false;
+  });
+
+  it("Should reject invalid voter address", async () => {
+    expect(() => VoterRegistration.messageHash(rewardEpochId, "0x1234")).to.throw("Invalid voter address format");
+  });
+
+  it("Should reject reward epoch id out of range", async () => {
+    expect(() => VoterRegistration.messageHash(-1, voter)).to.throw("Reward epoch id out of range");
+  });
+});
@@ -1,5 +1,66 @@
+import { ethers } from "ethers";
+import { HardhatNetworkAccountConfig } from "hardhat/types";
 import { ECDSASignatureWithIndex, IECDSASignatureWithIndex } from "../../../../scripts/libs/protocol/ECDSASignatureWithIndex";
+import { IProtocolMessageMerkleRoot } from "../../../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
+import { IRelayMessage, RelayMessage } from "../../../../scripts/libs/protocol/RelayMessage";
 import { ISigningPolicy, SigningPolicy } from "../../../../scripts/libs/protocol/SigningPolicy";
+import { ISigner } from "../../../../scripts/libs/protocol/Signer";
+
+export const RELAY_SELECTOR = ethers.id("relay()").slice(0, 10);
+
+/**
+ * Shared setup of the protocol library tests: N voters with equal weights and the threshold of half of the weight,
+ * so that N / 2 signatures do not pass the threshold and N / 2 + 1 signatures do.
+ */
+export interface ICodingTestFixture {
+  N: number;
+  singleWeight: number;
+  votingRoundId: number;
+  rewardEpochId: number;
+  accountAddresses: string[];
+  accountPrivateKeys: string[];
+  signingPolicyData: ISigningPolicy;
+  // the same voters for the next reward epoch
+  newSigningPolicyData: ISigningPolicy;
+}
+
+/**
+ * Creates the shared setup from hardhat accounts. To be called in `before`.
+ * Hardhat is imported lazily, since the helpers are also used by hardhat tasks, which are loaded with the config.
+ */
+export async function codingTestFixture(): Promise<ICodingTestFixture> {
+  const { config, ethers } = await import("hardhat");
+  const N = 100;
+  const singleWeight = 500;
+  const firstRewardEpochVotingRoundId = 1000;
+  const rewardEpochDurationInEpochs = 3360; // 3.5 days
+  const votingRoundId = 4111;
+  const rewardEpochId = Math.floor((votingRoundId - firstRewardEpochVotingRoundId) / rewardEpochDurationInEpochs);
+  const accountAddresses = (await ethers.getSigners()).map(x => x.address);
+  const accountPrivateKeys = (config.networks.hardhat.accounts as HardhatNetworkAccountConfig[]).map(x => x.privateKey);
+  const signingPolicyData = { ...defaultTestSigningPolicy(accountAddresses, N, singleWeight), rewardEpochId };
+  const newSigningPolicyData = { ...signingPolicyData, rewardEpochId: rewardEpochId + 1 };
+  return { N, singleWeight, votingRoundId, rewardEpochId, accountAddresses, accountPrivateKeys, signingPolicyData, newSigningPolicyData };
+}
+
+/**
+ * Protocol message with a random merkle root.
+ */
+export function randomProtocolMessage(votingRoundId: number, protocolId = 100, isSecureRandom = true): IProtocolMessageMerkleRoot {
+  return {
+    protocolId,
+    votingRoundId,
+    isSecureRandom,
+    merkleRoot: ethers.hexlify(ethers.randomBytes(32)),
+  };
+}
+
+/**
+ * Calldata of Relay.relay() call with the relay message.
+ */
+export function relayCalldata(relayMessage: IRelayMessage): string {
+  return RELAY_SELECTOR + RelayMessage.encode(relayMessage).slice(2);
+}
 
 export function defaultTestSigningPolicy(accounts: string[], N: number, singleWeight: number): ISigningPolicy {
   const signingPolicyData = {
@@ -29,7 +90,7 @@ export async function generateSignaturesEncoded(
 
 
 export async function generateSignatures(
-  privateKeys: string[],
+  privateKeys: (string | ISigner)[],
   messageHash: string,
   count: number,
   indices?: number[]
@@ -1,17 +1,21 @@
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import { config, contract, ethers, web3 } from "hardhat";
 import { HardhatNetworkAccountConfig } from "hardhat/types";
+import { ECDSASignature } from "../../../../scripts/libs/protocol/ECDSASignature";
 import { ECDSASignatureWithIndex } from "../../../../scripts/libs/protocol/ECDSASignatureWithIndex";
 import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "../../../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
 import { ISigningPolicy, SigningPolicy } from "../../../../scripts/libs/protocol/SigningPolicy";
 import {
   IPayloadMessage,
-  PayloadMessage
+  PayloadMessage,
+  PayloadMessageDecodePolicy
 } from "../../../../scripts/libs/protocol/PayloadMessage";
 import { getTestFile } from "../../../utils/constants";
 import { defaultTestSigningPolicy, generateSignatures } from "./coding-helpers";
 import { RelayMessage } from "../../../../scripts/libs/protocol/RelayMessage";
 import { FtsoConfigurations } from "../../../../scripts/libs/protocol/FtsoConfigurations";
+import { ByteUtils } from "../../../../scripts/libs/protocol/ByteUtils";
+import { ISignaturePayload, SignaturePayload } from "../../../../scripts/libs/protocol/SignaturePayload";
 
 contract(`Coding; ${getTestFile(__filename)}`, async () => {
   let signers: SignerWithAddress[];
@@ -125,6 +129,102 @@ contract(`Coding; ${getTestFile(__filename)}`, async () => {
     expect(RelayMessage.equals(relayMessage2, decodedRelayMessage)).to.be.true;
   });
 
+  it("Should encode and decode signing policy bytes consistently with hex", async () => {
+    const encodedPolicy = SigningPolicy.encodeBytes(signingPolicyData);
+    expect(ByteUtils.bytesToHex(encodedPolicy)).to.equal(SigningPolicy.encode(signingPolicyData));
+    expect(SigningPolicy.decodeBytes(encodedPolicy)).to.deep.equal(signingPolicyData);
+    expect(SigningPolicy.hashEncodedBytes(encodedPolicy)).to.equal(SigningPolicy.hash(signingPolicyData));
+  });
+
+  it("Should reject truncated signing policy bytes", async () => {
+    const encodedPolicy = SigningPolicy.encodeBytes(signingPolicyData);
+    expect(() => SigningPolicy.decodeBytes(encodedPolicy.subarray(0, encodedPolicy.length - 1), false)).to.throw("Invalid encoded signing policy length");
+  });
+
+  it("Should encode and decode Relay message bytes consistently with hex", async () => {
+    const messageData = {
+      protocolId: 15,
+      votingRoundId,
+      isSecureRandom: false,
+      merkleRoot: ethers.hexlify(ethers.randomBytes(32)),
+    } as IProtocolMessageMerkleRoot;
+    const signatures = await generateSignatures(accountPrivateKeys, ProtocolMessageMerkleRoot.hash(messageData), 3);
+    for (const relayMessage of [
+      { signingPolicy: signingPolicyData, signatures, protocolMessageMerkleRoot: messageData },
+      { signingPolicy: signingPolicyData, signatures, newSigningPolicy: newSigningPolicyData },
+    ]) {
+      const encoded = RelayMessage.encodeBytes(relayMessage);
+      expect(ByteUtils.bytesToHex(encoded)).to.equal(RelayMessage.encode(relayMessage));
+      expect(RelayMessage.equals(relayMessage, RelayMessage.decodeBytes(encoded))).to.be.true;
+    }
+  });
+
+  it("Should decode submitSignatures calldata bytes consistently with hex", async () => {
+    const messageData = {
+      protocolId: 15,
+      votingRoundId,
+      isSecureRandom: false,
+      merkleRoot: ethers.hexlify(ethers.randomBytes(32)),
+    } as IProtocolMessageMerkleRoot;
+    const signaturePayload = {
+      type: "0x00",
+      message: messageData,
+      signature: await ECDSASignature.signMessageHash(ProtocolMessageMerkleRoot.hash(messageData), accountPrivateKeys[0]),
+      unsignedMessage: "0x1234",
+    } as ISignaturePayload;
+    const payload = PayloadMessage.encodeBytes({
+      protocolId: messageData.protocolId,
+      votingRoundId,
+      payload: SignaturePayload.encodeBytes(signaturePayload),
+    });
+    const calldata = ByteUtils.concatenateBytes([ByteUtils.hexToBytes("0x6c532fae"), payload, payload]);
+    const decoded = SignaturePayload.decodeCalldataBytes(calldata);
+    expect(decoded).to.deep.equal(SignaturePayload.decodeCalldata(ByteUtils.bytesToHex(calldata)));
+    expect(decoded.length).to.equal(2);
+    expect(decoded[1].payload).to.deep.equal(signaturePayload);
+  });
+
+  it("Should reject invalid hex strings", async () => {
+    expect(() => ByteUtils.hexToBytes("0x12g4")).to.throw("Invalid format - not hex string");
+    expect(() => ByteUtils.hexToBytes("0x123")).to.throw("Invalid format - not even length");
+  });
+
+  describe("Payload message stream", () => {
+    const first = PayloadMessage.encode({ protocolId: 1, votingRoundId, payload: "0x1122" });
+    const second = PayloadMessage.encode({ protocolId: 2, votingRoundId, payload: "0x334455" });
+    const overflow = "0x03" + "00001010" + "00ff" + "01"; // declared 255 bytes of payload, only 1 present
+    const data = first + overflow.slice(2) + second.slice(2);
+    const stream = (hex: string, policy: PayloadMessageDecodePolicy) =>
+      [...PayloadMessage.decodeStream(ByteUtils.hexToBytes(hex), policy)].map(item =>
+        item.record ? `record ${item.record.protocolId} at ${item.offset}` : `${item.warning!.type} at ${item.offset}, skipped ${item.warning!.skippedBytes}`
+      );
+
+    it("Should report trailing bytes", async () => {
+      expect(stream(first + second.slice(2) + "aabb", PayloadMessageDecodePolicy.STOP)).to.deep.equal([
+        "record 1 at 0",
+        "record 2 at 9",
+        "trailing-bytes at 19, skipped 2",
+      ]);
+    });
+
+    it("Should stop at length overflow", async () => {
+      expect(stream(data, PayloadMessageDecodePolicy.STOP)).to.deep.equal(["record 1 at 0", "length-overflow at 9, skipped 18"]);
+    });
+
+    it("Should resync after length overflow", async () => {
+      expect(stream(data, PayloadMessageDecodePolicy.RESYNC)).to.deep.equal([
+        "record 1 at 0",
+        "length-overflow at 9, skipped 8",
+        "record 2 at 17",
+      ]);
+    });
+
+    it("Should throw on length overflow in strict mode", async () => {
+      expect(() => stream(data, PayloadMessageDecodePolicy.STRICT)).to.throw("PayloadMessage.payload at byte 16");
+      expect(() => PayloadMessage.decode(data)).to.throw("PayloadMessage.payload at byte 16");
+    });
+  });
+
   it("Should encode and decode ftso feeds", async () => {
     const feeds = [{category: 1, name: "BTC/USD"}, {category: 126, name: "1TEST123"}];
     const encoded = FtsoConfigurations.encodeFeedIds(feeds);
@@ -4,6 +4,8 @@ import { artifacts, config, contract, ethers } from "hardhat";
 import { HardhatNetworkAccountConfig } from "hardhat/types";
 import { IProtocolMessageMerkleRoot, ProtocolMessageMerkleRoot } from "../../../../scripts/libs/protocol/ProtocolMessageMerkleRoot";
 import { RelayMessage } from "../../../../scripts/libs/protocol/RelayMessage";
+import { RelayVerifier } from "../../../../scripts/libs/protocol/RelayVerifier";
+import { Threshold } from "../../../../scripts/libs/protocol/Threshold";
 import {
   ISigningPolicy,
   SigningPolicy
@@ -1363,4 +1365,164 @@ contract(`Relay.sol; ${getTestFile(__filename)}`, async () => {
 
   });
 
+  describe("Offline verification", async () => {
+    let relay2: RelayInstance;
+    let verifier: RelayVerifier;
+
+    // Relays the message and checks that the contract makes the same decision as the verifier
+    const relayAndCompare = async (fullData: string) => {
+      const result = verifier.verify(fullData, true);
+      if (result.accepted) {
+        await web3.eth.sendTransaction({
+          from: signers[0].address,
+          to: relay2.address,
+          data: selector + fullData.slice(2),
+        });
+      } else {
+        await expect(
+          signers[0].sendTransaction({
+            from: signers[0].address,
+            to: relay2.address,
+            data: selector + fullData.slice(2),
+          })
+        ).to.be.revertedWith(result.reason!);
+      }
+      return result;
+    }
+
+    before(async () => {
+      relay2 = await Relay.new(
+        constants.ZERO_ADDRESS,
+        signingPolicyData.rewardEpochId,
+        signingPolicyData.startVotingRoundId,
+        SigningPolicy.hash(signingPolicyData),
+        randomNumberProtocolId,
+        firstVotingRoundStartSec,
+        votingRoundDurationSec,
+        firstRewardEpochVotingRoundId,
+        rewardEpochDurationInVotingEpochs,
+        THRESHOLD_INCREASE,
+        MESSAGE_FINALIZATION_WINDOW_IN_REWARD_EPOCHS
+      );
+      verifier = new RelayVerifier({
+        randomNumberProtocolId,
+        firstRewardEpochStartVotingRoundId: firstRewardEpochVotingRoundId,
+        rewardEpochDurationInVotingEpochs,
+        thresholdIncreaseBIPS: THRESHOLD_INCREASE,
+        messageFinalizationWindowInRewardEpochs: MESSAGE_FINALIZATION_WINDOW_IN_REWARD_EPOCHS,
+        noSigningPolicyRelay: false,
+      }, signingPolicyData);
+    });
+
+    it("Should match Relay.sol decisions for messages signed with current signing policy", async () => {
+      const messageHash = ProtocolMessageMerkleRoot.hash(messageData);
+      let fullData = RelayMessage.encode({
+        signingPolicy: signingPolicyData,
+        signatures: await generateSignatures(accountPrivateKeys, messageHash, N / 2),
+        protocolMessageMerkleRoot: messageData,
+      });
+      expect((await relayAndCompare(fullData)).reason).to.equal("Not enough weight");
+
+      fullData = RelayMessage.encode({
+        signingPolicy: signingPolicyData,
+        signatures: await generateSignatures(accountPrivateKeys, messageHash, 0, [0, 2, 1]),
+        protocolMessageMerkleRoot: messageData,
+      });
+      expect((await relayAndCompare(fullData)).reason).to.equal("Index out of order");
+
+      fullData = RelayMessage.encode({
+        signingPolicy: signingPolicyData,
+        signatures: await generateSignatures(accountPrivateKeys, messageHash, N / 2 + 1),
+        protocolMessageMerkleRoot: messageData,
+      });
+      expect((await relayAndCompare(fullData)).accepted).to.be.true;
+      expect(await relay2.merkleRoots(messageData.protocolId, messageData.votingRoundId)).to.equal(verifier.merkleRoot(messageData.protocolId, messageData.votingRoundId));
+      expect((await relayAndCompare(fullData)).reason).to.equal("Already relayed");
+
+      const tooEarlyMessageData = { ...messageData, votingRoundId: signingPolicyData.startVotingRoundId - 1 };
+      fullData = RelayMessage.encode({
+        signingPolicy: signingPolicyData,
+        signatures: await generateSignatures(accountPrivateKeys, ProtocolMessageMerkleRoot.hash(tooEarlyMessageData), N / 2 + 1),
+        protocolMessageMerkleRoot: tooEarlyMessageData,
+      });
+      expect((await relayAndCompare(fullData)).reason).to.equal("Wrong sign policy reward epoch");
+    });
+
+    it("Should match Relay.sol decisions for messages signed with old signing policy", async () => {
+      const nextEpochMessageData = { ...messageData, votingRoundId: firstVotingRoundInRewardEpoch(signingPolicyData.rewardEpochId + 1) + 5 };
+      const messageHash = ProtocolMessageMerkleRoot.hash(nextEpochMessageData);
+      let fullData = RelayMessage.encode({
+        signingPolicy: signingPolicyData,
+        signatures: await generateSignatures(accountPrivateKeys, messageHash, Math.round(N * 0.6)),
+        protocolMessageMerkleRoot: nextEpochMessageData,
+      });
+      const result = await relayAndCompare(fullData);
+      expect(result.reason).to.equal("Not enough weight");
+      expect(result.threshold).to.equal(Math.floor(signingPolicyData.threshold * THRESHOLD_INCREASE / 10000));
+
+      fullData = RelayMessage.encode({
+        signingPolicy: signingPolicyData,
+        signatures: await generateSignatures(accountPrivateKeys, messageHash, Math.round(N * 0.6) + 1),
+        protocolMessageMerkleRoot: nextEpochMessageData,
+      });
+      expect((await relayAndCompare(fullData)).accepted).to.be.true;
+    });
+
+    it("Should match Relay.sol threshold semantics", async () => {
+      expect(await Threshold.readIncreaseBIPS(relay2)).to.equal(THRESHOLD_INCREASE);
+      const nextRewardEpochStart = firstVotingRoundInRewardEpoch(signingPolicyData.rewardEpochId + 1);
+      const cases = [
+        { votingRoundId: messageData.votingRoundId + 1, signatures: N / 2 }, // weight equal to threshold
+        { votingRoundId: messageData.votingRoundId + 2, signatures: N / 2 + 1 },
+        { votingRoundId: nextRewardEpochStart + 10, signatures: Math.round(N * 0.6) }, // weight equal to increased threshold
+        { votingRoundId: nextRewardEpochStart + 11, signatures: Math.round(N * 0.6) + 1 },
+      ];
+      for (const testCase of cases) {
+        const caseMessageData = { ...messageData, votingRoundId: testCase.votingRoundId };
+        const fullData = RelayMessage.encode({
+          signingPolicy: signingPolicyData,
+          signatures: await generateSignatures(accountPrivateKeys, ProtocolMessageMerkleRoot.hash(caseMessageData), testCase.signatures),
+          protocolMessageMerkleRoot: caseMessageData,
+        });
+        const threshold = Threshold.forMessage(
+          signingPolicyData,
+          verifier.rewardEpochIdFromVotingRoundId(testCase.votingRoundId),
+          verifier.lastInitializedRewardEpoch,
+          THRESHOLD_INCREASE
+        );
+        const result = await relayAndCompare(fullData);
+        expect(result.threshold).to.equal(threshold);
+        expect(result.accepted).to.equal(Threshold.passes(testCase.signatures * singleWeight, threshold));
+      }
+    });
+
+    it("Should match Relay.sol decisions for relaying new signing policies", async () => {
+      const newSigningPolicyData = { ...signingPolicyData };
+      newSigningPolicyData.rewardEpochId = signingPolicyData.rewardEpochId + 2;
+      newSigningPolicyData.startVotingRoundId = firstVotingRoundInRewardEpoch(newSigningPolicyData.rewardEpochId);
+      let fullData = await prepareFullData(signingPolicyData, newSigningPolicyData);
+      expect((await relayAndCompare(fullData)).reason).to.equal("Not next reward epoch");
+
+      newSigningPolicyData.rewardEpochId = signingPolicyData.rewardEpochId + 1;
+      newSigningPolicyData.startVotingRoundId = firstVotingRoundInRewardEpoch(newSigningPolicyData.rewardEpochId) + 10;
+      fullData = await prepareFullData(signingPolicyData, newSigningPolicyData);
+      const result = await relayAndCompare(fullData);
+      expect(result.accepted).to.be.true;
+      expect(await relay2.toSigningPolicyHash(newSigningPolicyData.rewardEpochId)).to.equal(verifier.signingPolicyHash(newSigningPolicyData.rewardEpochId));
+      expect(verifier.lastInitializedRewardEpoch).to.equal(newSigningPolicyData.rewardEpochId);
+
+      // the old signing policy can only be used before the start of the new one
+      const lateMessageData = { ...messageData, votingRoundId: newSigningPolicyData.startVotingRoundId };
+      fullData = RelayMessage.encode({
+        signingPolicy: signingPolicyData,
+        signatures: await generateSignatures(accountPrivateKeys, ProtocolMessageMerkleRoot.hash(lateMessageData), N),
+        protocolMessageMerkleRoot: lateMessageData,
+      });
+      expect((await relayAndCompare(fullData)).reason).to.equal("Must use new sign policy");
+
+      fullData = await prepareFullData(signingPolicyData, { ...newSigningPolicyData, rewardEpochId: newSigningPolicyData.rewardEpochId + 1 });
+      expect((await relayAndCompare(fullData)).reason).to.equal("Not with last intialized");
+    });
+  });
+
 });